@@ -2,19 +2,35 @@
 const mockGenerateContent = jest.fn();
 const mockGenerateContentStream = jest.fn();
 const mockCountTokens = jest.fn();
+const mockModelsList = jest.fn();
 const mockChatsCreate = jest.fn();
 const mockFilesUpload = jest.fn();
 const mockFilesGet = jest.fn();
 const mockFilesList = jest.fn();
 const mockFilesDelete = jest.fn();
 
+// Response class whose getters read the candidates, like the SDK's
+class GenerateContentResponse {
+  get text() {
+    const parts = this.candidates?.[0]?.content?.parts;
+    return parts ? parts.filter(part => !part.thought).map(part => part.text ?? '').join('') : undefined;
+  }
+
+  get functionCalls() {
+    const calls = (this.candidates?.[0]?.content?.parts ?? []).filter(part => part.functionCall).map(part => part.functionCall);
+    return calls.length > 0 ? calls : undefined;
+  }
+}
+
 module.exports = {
   __esModule: true,
+  GenerateContentResponse,
   GoogleGenAI: jest.fn().mockImplementation(() => ({
     models: {
       generateContent: mockGenerateContent,
       generateContentStream: mockGenerateContentStream,
       countTokens: mockCountTokens,
+      list: mockModelsList,
       get: jest.fn(() => ({
         generateContent: mockGenerateContent,
         generateContentStream: mockGenerateContentStream,
@@ -42,6 +58,7 @@ module.exports = {
     mockGenerateContent,
     mockGenerateContentStream,
     mockCountTokens,
+    mockModelsList,
     mockChatsCreate,
     mockFilesUpload,
     mockFilesGet,
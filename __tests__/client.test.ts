@@ -1,7 +1,19 @@
 import GeminiClient from '../src';
-import { __mocks__ as genaiMocks } from '@google/genai';
+import { GoogleGenAI, __mocks__ as genaiMocks } from '@google/genai';
 
-const { mockGenerateContent, mockChatsCreate, mockCountTokens } = genaiMocks;
+const { mockGenerateContent, mockChatsCreate, mockCountTokens, mockModelsList } = genaiMocks;
+
+/**
+ * Pager over the given pages, shaped like the `@google/genai` Pager
+ */
+const modelPager = (...pages: any[][]) => {
+  let index = 0;
+  return {
+    get page() { return pages[index]; },
+    hasNextPage: () => index < pages.length - 1,
+    nextPage: jest.fn(async () => pages[++index])
+  };
+};
 
 // Note: We're not importing the module directly to avoid import errors
 // with node-fetch in the test environment
@@ -19,6 +31,11 @@ describe('GeminiClient', () => {
       sendMessage: jest.fn().mockResolvedValue({ text: 'Mock chat response', raw: {} })
     });
     mockCountTokens.mockResolvedValue({ totalTokens: 42 });
+    mockModelsList.mockReset();
+    mockModelsList.mockImplementation(async () => modelPager(
+      [{ name: 'models/gemini-2.0-flash', inputTokenLimit: 1048576, outputTokenLimit: 8192, supportedActions: ['generateContent', 'countTokens'] }],
+      [{ name: 'models/gemini-2.5-pro-preview-05-06', inputTokenLimit: 1048576, outputTokenLimit: 65536, supportedActions: ['generateContent'] }]
+    ));
     client = new GeminiClient('mock-api-key');
   });
 
@@ -48,6 +65,184 @@ describe('GeminiClient', () => {
     });
   });
 
+  describe('options', () => {
+    it('should configure the shared transport from client options', () => {
+      new GeminiClient({
+        apiKey: 'mock-api-key',
+        apiEndpoint: 'http://localhost:8080',
+        timeout: 5000,
+        headers: { 'x-team': 'sdk' }
+      });
+      expect(GoogleGenAI).toHaveBeenLastCalledWith({
+        apiKey: 'mock-api-key',
+        httpOptions: {
+          baseUrl: 'http://localhost:8080',
+          timeout: 5000,
+          headers: { 'x-team': 'sdk' }
+        }
+      });
+    });
+
+    it('should route every service through a custom transport', async () => {
+      const transport = {
+        models: {
+          generateContent: jest.fn().mockResolvedValue({ text: 'From custom transport' }),
+          countTokens: jest.fn().mockResolvedValue({ totalTokens: 7 })
+        },
+        chats: {},
+        files: {},
+        operations: {}
+      };
+      const custom = new GeminiClient({ transport });
+      const response = await custom.textGeneration.generate('Hello');
+      const tokens = await custom.tokenCounter.countTokensInText('Hello');
+      expect(response.text).toBe('From custom transport');
+      expect(tokens.totalTokens).toBe(7);
+      expect(transport.models.generateContent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retry', () => {
+    const quotaError = () => new Error('got status: 429 Too Many Requests. {"error":{"code":429}}');
+
+    it('should retry transient errors across services', async () => {
+      const retrying = new GeminiClient({ apiKey: 'mock-api-key', retry: { initialDelayMs: 1, jitter: false } });
+      mockGenerateContent
+        .mockRejectedValueOnce(quotaError())
+        .mockResolvedValueOnce({ text: 'Recovered' });
+      const response = await retrying.textGeneration.generate('Hello');
+      expect(response.text).toBe('Recovered');
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it('should let a service override the client policy', async () => {
+      const retrying = new GeminiClient({
+        apiKey: 'mock-api-key',
+        retry: { initialDelayMs: 1 },
+        services: { textGeneration: { retry: false } }
+      });
+      mockGenerateContent.mockRejectedValueOnce(quotaError());
+      await expect(retrying.textGeneration.generate('Hello')).rejects.toThrow('429');
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should route chat turns through the retry layer', async () => {
+      const retrying = new GeminiClient({ apiKey: 'mock-api-key', retry: { initialDelayMs: 1 } });
+      mockGenerateContent
+        .mockRejectedValueOnce(quotaError())
+        .mockResolvedValueOnce({ text: 'Hi there', candidates: [{ content: { role: 'model', parts: [{ text: 'Hi there' }] } }] });
+      const chat = retrying.chat.createChat();
+      const response = await chat.sendMessage('Hello');
+      expect(response.text).toBe('Hi there');
+      expect(chat.getHistory()).toEqual([
+        { role: 'user', parts: [{ text: 'Hello' }] },
+        { role: 'model', parts: [{ text: 'Hi there' }] }
+      ]);
+    });
+  });
+
+  describe('rateLimits', () => {
+    it('should estimate tokens with the token counter before limited calls', async () => {
+      const limited = new GeminiClient({
+        apiKey: 'mock-api-key',
+        rateLimits: { 'gemini-2.0-flash': { tokensPerMinute: 100000 } }
+      });
+      await limited.textGeneration.generate('Hello');
+      expect(mockCountTokens).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.0-flash' }));
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share concurrency limits across services', async () => {
+      const limited = new GeminiClient({
+        apiKey: 'mock-api-key',
+        rateLimits: { '*': { maxConcurrency: 1 } }
+      });
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockGenerateContent.mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        return { text: 'ok' };
+      });
+      await Promise.all([
+        limited.textGeneration.generate('One'),
+        limited.multimodal.generateAuto('Two', '/path/to/image.jpg'),
+        limited.textGeneration.generate('Three')
+      ]);
+      expect(mockGenerateContent).toHaveBeenCalledTimes(3);
+      expect(maxInFlight).toBe(1);
+    });
+  });
+
+  describe('use', () => {
+    it('should run middleware around model calls from every service', async () => {
+      const seen: string[] = [];
+      client.use(async ({ service, operation }, next) => {
+        seen.push(`${service}:${operation}`);
+        return next();
+      });
+      await client.textGeneration.generate('Hello');
+      await client.chat.createChat().sendMessage('Hello');
+      await client.tokenCounter.countTokensInText('Hello');
+      expect(seen).toEqual([
+        'textGeneration:models.generateContent',
+        'chat:models.generateContent',
+        'tokenCounter:models.countTokens'
+      ]);
+    });
+
+    it('should let middleware rewrite the request and short-circuit the call', async () => {
+      client
+        .use((context, next) => next({ ...context.request, model: 'gemini-2.0-flash-lite' }))
+        .use(async ({ request }) => ({ text: `Cached for ${request.model}` }));
+      const response = await client.textGeneration.generate('Hello');
+      expect(response.text).toBe('Cached for gemini-2.0-flash-lite');
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+    });
+
+    it('should accept middleware in the client options', async () => {
+      const withMiddleware = new GeminiClient({
+        apiKey: 'mock-api-key',
+        middleware: [async (_context, next) => ({ ...(await next()), text: 'Rewritten' })]
+      });
+      const response = await withMiddleware.textGeneration.generate('Hello');
+      expect(response.text).toBe('Rewritten');
+    });
+  });
+
+  describe('logging', () => {
+    it('should send structured events to a custom logger', async () => {
+      const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const logged = new GeminiClient({ apiKey: 'mock-api-key', logger });
+      await logged.textGeneration.generate('Hello');
+      expect(logger.info).toHaveBeenCalledWith('Gemini call completed', expect.objectContaining({
+        service: 'textGeneration',
+        model: 'gemini-2.0-flash',
+        retries: 0
+      }));
+      expect(logger.debug).not.toHaveBeenCalled();
+    });
+
+    it('should log service calls at debug level without the API key', async () => {
+      const debug = jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+      jest.spyOn(console, 'info').mockImplementation(() => undefined);
+      const logged = new GeminiClient('mock-api-key', true);
+      await logged.textGeneration.generate('My key is mock-api-key');
+      const output = JSON.stringify(debug.mock.calls);
+      expect(output).toContain('Calling textGeneration.generate');
+      expect(output).not.toContain('mock-api-key');
+      jest.restoreAllMocks();
+    });
+
+    it('should keep synchronous service methods synchronous', () => {
+      jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+      const logged = new GeminiClient('mock-api-key', true);
+      expect(typeof logged.chat.createChat().sendMessage).toBe('function');
+      jest.restoreAllMocks();
+    });
+  });
+
   describe('listModels', () => {
     it('should return a list of models', async () => {
       const result = await client.listModels();
@@ -56,6 +251,43 @@ describe('GeminiClient', () => {
       expect(result.length).toBeGreaterThan(0);
     });
 
+    it('should fetch every page and describe each model', async () => {
+      const result = await client.listModels();
+      expect(result).toEqual([
+        {
+          name: 'gemini-2.0-flash',
+          resourceName: 'models/gemini-2.0-flash',
+          inputTokenLimit: 1048576,
+          outputTokenLimit: 8192,
+          supportedGenerationMethods: ['generateContent', 'countTokens'],
+          thinking: false
+        },
+        expect.objectContaining({ name: 'gemini-2.5-pro-preview-05-06', outputTokenLimit: 65536, thinking: true })
+      ]);
+      expect(mockModelsList).toHaveBeenCalledWith({ config: expect.objectContaining({ pageSize: 100 }) });
+    });
+
+    it('should cache models for the configured TTL', async () => {
+      const cached = new GeminiClient({ apiKey: 'mock-api-key', modelCacheTtlMs: 1000 });
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      await cached.listModels();
+      await cached.listModels();
+      expect(mockModelsList).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1001);
+      await cached.listModels();
+      await cached.listModels({ refresh: true });
+      expect(mockModelsList).toHaveBeenCalledTimes(3);
+      now.mockRestore();
+    });
+
+    it('should not cache failures', async () => {
+      mockModelsList.mockRejectedValueOnce(new Error('got status: 503 Service Unavailable. {}'));
+      const failing = new GeminiClient({ apiKey: 'mock-api-key', retry: false });
+      await expect(failing.listModels()).rejects.toThrow('Failed to list models');
+      await expect(failing.listModels()).resolves.toHaveLength(2);
+    });
+
     it('should handle errors', async () => {
       // Save the original implementation
       const originalListModels = client.listModels;
@@ -71,6 +303,106 @@ describe('GeminiClient', () => {
     });
   });
 
+  describe('models', () => {
+    it('should reject a thinking budget on a 2.0 model before calling the API', async () => {
+      await expect(client.thinking.generate('Hello', 1024, { model: 'gemini-2.0-flash' }))
+        .rejects.toThrow('Model gemini-2.0-flash does not support thinking');
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+    });
+
+    it('should pick models for *Auto methods from the registry', async () => {
+      await client.textGeneration.generateAuto('Explain quantum computing');
+      expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.5-pro-preview-05-06' }));
+      expect(client.suggestModelForTask('grounding')).toBe('gemini-2.5-pro-preview-05-06');
+    });
+
+    it('should register models from the client options', () => {
+      const custom = new GeminiClient({
+        apiKey: 'mock-api-key',
+        models: [{ ...client.models.get('gemini-2.0-flash')!, name: 'my-tuned-model' }]
+      });
+      expect(custom.models.get('my-tuned-model')?.tier).toBe('standard');
+    });
+  });
+
+  describe('router', () => {
+    it('should fall back along the chain and report the serving model', async () => {
+      const onFallback = jest.fn();
+      const routed = new GeminiClient({
+        apiKey: 'mock-api-key',
+        retry: false,
+        router: { fallbacks: { text: ['gemini-2.5-pro-preview-05-06', 'gemini-2.5-flash', 'gemini-2.0-flash'] }, onFallback }
+      });
+      mockGenerateContent
+        .mockRejectedValueOnce(new Error('got status: 429 Too Many Requests. {}'))
+        .mockRejectedValueOnce(new Error('got status: 503 Service Unavailable. {}'))
+        .mockResolvedValueOnce({ text: 'Hi' });
+
+      const response = await routed.textGeneration.generateAuto('Hello');
+
+      expect(response).toEqual(expect.objectContaining({ text: 'Hi', model: 'gemini-2.0-flash' }));
+      expect(mockGenerateContent.mock.calls.map(([request]) => request.model))
+        .toEqual(['gemini-2.5-pro-preview-05-06', 'gemini-2.5-flash', 'gemini-2.0-flash']);
+      expect(onFallback).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip models the registry rejects', async () => {
+      const routed = new GeminiClient({
+        apiKey: 'mock-api-key',
+        router: { fallbacks: { structured: ['gemini-2.0-flash-exp-image-generation', 'gemini-2.0-flash'] } }
+      });
+      mockGenerateContent.mockResolvedValue({ text: '{"name":"Ada"}' });
+
+      await expect(routed.structuredOutput.generateAuto('Name a mathematician', { type: 'object' }))
+        .resolves.toEqual({ name: 'Ada' });
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+      expect(mockGenerateContent).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.0-flash' }));
+    });
+  });
+
+  describe('cache', () => {
+    it('should answer repeated calls from the cache unless a call bypasses it', async () => {
+      const cached = new GeminiClient({ apiKey: 'mock-api-key', cache: true });
+      mockGenerateContent.mockResolvedValue({ text: '{"name":"Ada"}' });
+      const schema = { type: 'object', properties: { name: { type: 'string' } } };
+
+      await cached.structuredOutput.generateWithSchema('Name a mathematician', schema, { temperature: 0 });
+      const second = await cached.structuredOutput.generateWithSchema('Name a mathematician', schema, { temperature: 0 });
+      expect(second).toEqual({ name: 'Ada' });
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+
+      await cached.structuredOutput.generateWithSchema('Name a mathematician', schema, { temperature: 0, cache: false });
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+      expect(mockGenerateContent.mock.calls[1][0].config).not.toHaveProperty('cache');
+    });
+
+    it('should not send the per-call cache flag when the client has no cache', async () => {
+      await client.textGeneration.generate('Hello', { temperature: 0, cache: true });
+      await client.chat.createChat({ cache: false }).sendMessage('Hello');
+
+      const configs = mockGenerateContent.mock.calls.map(([request]) => request.config);
+      expect(configs).toHaveLength(2);
+      expect(configs[0]).toEqual({ temperature: 0 });
+      expect(configs[1]).not.toHaveProperty('cache');
+    });
+  });
+
+  describe('streaming', () => {
+    it('should stream function calls through the client transport', async () => {
+      genaiMocks.mockGenerateContentStream.mockImplementation(async () => (async function* () {
+        yield { candidates: [{ content: { parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] } }] };
+      })());
+
+      const stream = await client.functionCalling.streamGenerate('Weather in Paris?', [{ name: 'get_weather', description: 'Get the weather' }]);
+      const response = await stream.finalResponse();
+
+      expect(response.functionCalls).toEqual([{ name: 'get_weather', args: { city: 'Paris' } }]);
+      expect(genaiMocks.mockGenerateContentStream).toHaveBeenCalledWith(expect.objectContaining({
+        config: expect.objectContaining({ tools: [{ functionDeclarations: [{ name: 'get_weather', description: 'Get the weather' }] }] })
+      }));
+    });
+  });
+
   describe('textGeneration', () => {
     it('should generate text', async () => {
       // Set up the mock for text generation
@@ -94,6 +426,7 @@ describe('GeminiClient', () => {
     });
 
     it('should send a message in chat', async () => {
+      mockGenerateContent.mockResolvedValueOnce({ text: 'Mock chat response' });
       const chat = client.chat.createChat();
       const response = await chat.sendMessage('Hello');
       expect(response).toBeDefined();
@@ -1,4 +1,5 @@
 import { FileService } from '../../src/services/fileService';
+import { GeminiAbortError } from '../../src/utils/errors';
 
 // Setup mock for entire module
 jest.mock('@google/genai', () => {
@@ -74,12 +75,7 @@ describe('FileService', () => {
     });
 
     it('should handle errors during upload', async () => {
-      const { GoogleGenAI } = require('@google/genai');
-      GoogleGenAI.mockImplementationOnce(() => ({
-        files: {
-          upload: jest.fn().mockRejectedValue(new Error('Upload error'))
-        }
-      }));
+      mockClient.files.upload.mockRejectedValueOnce(new Error('Upload error'));
       await expect(fileService.upload({ file: 'path/to/file.jpg' })).rejects.toThrow('File upload failed: Upload error');
     });
   });
@@ -141,6 +137,16 @@ describe('FileService', () => {
       mockClient.files.get.mockResolvedValue({ name: 'files/mock-file-123', state: 'FAILED' });
       await expect(fileService.waitForFileState('files/mock-file-123', 'ACTIVE')).rejects.toThrow('File processing failed: files/mock-file-123');
     });
+
+    it('should stop polling when aborted', async () => {
+      mockClient.files.get.mockResolvedValue({ name: 'files/mock-file-123', state: 'PROCESSING' });
+      const controller = new AbortController();
+      const pending = fileService.waitForFileState('files/mock-file-123', 'ACTIVE', 30, 60000, controller.signal);
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toBeInstanceOf(GeminiAbortError);
+      expect(mockClient.files.get).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('createPartFromUri', () => {
@@ -19,6 +19,8 @@ describe('MultimodalService', () => {
     __mocks__.mockGenerateContent.mockImplementation(() => Promise.resolve({ text: 'Mock response', raw: {} }));
     mockClient = {
       models: {
+        generateContent: __mocks__.mockGenerateContent,
+        generateContentStream: __mocks__.mockGenerateContentStream,
         get: jest.fn(() => ({
           generateContent: __mocks__.mockGenerateContent,
           generateContentStream: __mocks__.mockGenerateContentStream
@@ -52,7 +54,7 @@ describe('MultimodalService', () => {
   describe('generateFromImageData', () => {
     it('should generate content from image data', async () => {
       __mocks__.mockGenerateContent.mockImplementationOnce(() => Promise.resolve({
-        response: { text: () => 'Mock response' }
+        text: 'Mock response'
       }));
       const response = await multimodal.generateFromImageData('Describe this image', 'base64data', 'image/jpeg');
       expect(response).toBeDefined();
@@ -70,10 +72,8 @@ describe('MultimodalService', () => {
       // Set up the mock before creating the service instance
       const mockClient = {
         models: {
-          get: jest.fn(() => ({
-            generateContent: __mocks__.mockGenerateContent,
-            generateContentStream: __mocks__.mockGenerateContentStream
-          }))
+          generateContent: __mocks__.mockGenerateContent,
+          generateContentStream: __mocks__.mockGenerateContentStream
         },
         files: {
           upload: jest.fn().mockResolvedValue({
@@ -84,12 +84,10 @@ describe('MultimodalService', () => {
           })
         }
       };
-      __mocks__.mockGenerateContentStream.mockImplementationOnce(() => ({
-        stream: {
-          [Symbol.asyncIterator]: async function* () {
-            yield { text: 'Mock stream response part 1' };
-            yield { text: 'Mock stream response part 2' };
-          }
+      __mocks__.mockGenerateContentStream.mockImplementationOnce(async () => ({
+        [Symbol.asyncIterator]: async function* () {
+          yield { text: 'Mock stream response part 1' };
+          yield { text: 'Mock stream response part 2' };
         }
       }));
       const multimodal = new MultimodalService(mockClient as any);
@@ -0,0 +1,63 @@
+import * as path from 'path';
+import GeminiClient from '../../src';
+import { GeminiCassetteMismatchError } from '../../src/utils/errors';
+
+/**
+ * Services exercised against the recorded payloads in `__tests__/cassettes/services.json`
+ */
+describe('services against recorded responses', () => {
+  let gemini: GeminiClient;
+
+  beforeEach(() => {
+    gemini = new GeminiClient({ cassette: { path: path.join(__dirname, '../cassettes/services.json') } });
+  });
+
+  it('should read text from generateContent responses', async () => {
+    const response = await gemini.textGeneration.generate('How does AI work?');
+    expect(response.text).toMatch(/^AI works by learning patterns/);
+  });
+
+  it('should parse schema-constrained JSON', async () => {
+    const recipes = await gemini.structuredOutput.generateWithSchema('List 3 popular cookie recipes.', {
+      type: 'array',
+      items: { type: 'object', properties: { recipeName: { type: 'string' } }, required: ['recipeName'] }
+    } as any);
+    expect(recipes).toHaveLength(3);
+    expect(recipes[0]).toEqual({ recipeName: 'Chocolate Chip Cookies' });
+  });
+
+  it('should extract function calls', async () => {
+    const response = await gemini.functionCalling.generate('What is the weather like in Boston?', [
+      { name: 'get_weather', description: 'Get the current weather' } as any
+    ]);
+    expect(response.functionCalls).toEqual([{ name: 'get_weather', args: { location: 'Boston, MA' } }]);
+  });
+
+  it('should separate thoughts from the answer in streams', async () => {
+    const stream = await gemini.thinking.streamGenerate(
+      'A bat and a ball cost $1.10. The bat costs $1.00 more than the ball. How much does the ball cost?',
+      1024,
+      { thinkingConfig: { includeThoughts: true } } as any
+    );
+    const response = await stream.finalResponse();
+    expect(response.text).toBe('The ball costs $0.05 and the bat costs $1.05.');
+    expect(response.thoughts).toMatch(/^\*\*Pricing the items\*\*/);
+    expect(response.usageMetadata).toEqual({ promptTokenCount: 27, candidatesTokenCount: 16, totalTokenCount: 255 });
+  });
+
+  it('should keep grounding metadata from streamed chunks', async () => {
+    const response = await (await gemini.searchGrounding.streamGenerate('Who won Euro 2024?')).finalResponse();
+    expect(response.text).toBe('Spain won Euro 2024, beating England 2-1 in the final.');
+    expect(response.groundingMetadata.webSearchQueries).toEqual(['who won euro 2024']);
+  });
+
+  it('should count tokens', async () => {
+    await expect(gemini.tokenCounter.countTokensInText('The quick brown fox jumps over the lazy dog.'))
+      .resolves.toEqual({ totalTokens: 10 });
+  });
+
+  it('should flag calls missing from the cassette', async () => {
+    await expect(gemini.textGeneration.generate('How does AI work?', { temperature: 0 }))
+      .rejects.toThrow(GeminiCassetteMismatchError);
+  });
+});
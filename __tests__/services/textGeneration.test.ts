@@ -20,6 +20,8 @@ describe('TextGenerationService', () => {
     })());
     mockClient = {
       models: {
+        generateContent: mockGenerateContent,
+        generateContentStream: mockGenerateContentStream,
         get: jest.fn(() => ({
           generateContent: mockGenerateContent,
           generateContentStream: mockGenerateContentStream
@@ -65,6 +67,13 @@ describe('TextGenerationService', () => {
       expect(parts).toEqual(['Mock stream response part 1', 'Mock stream response part 2']);
     });
 
+    it('should assemble the final response', async () => {
+      const stream = await textGeneration.streamGenerate('Hello');
+      const response = await stream.finalResponse();
+      expect(response.text).toBe('Mock stream response part 1Mock stream response part 2');
+      expect(response.raw).toHaveLength(2);
+    });
+
     it('should handle errors in streaming text generation', async () => {
       mockGenerateContentStream.mockRejectedValue(new Error('Stream generation error'));
       await expect(textGeneration.streamGenerate('Hello')).rejects.toThrow('Stream generation error');
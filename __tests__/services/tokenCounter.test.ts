@@ -81,6 +81,37 @@ describe('TokenCounterService', () => {
     });
   });
 
+  describe('countTokensLocal', () => {
+    it('should estimate without calling the API', async () => {
+      const result = await tokenCounter.countTokensLocal([{ text: 'Hello world!' }]);
+      expect(result).toEqual({ totalTokens: 3, source: 'local', unsizedParts: 0 });
+      expect(mockCountTokens).not.toHaveBeenCalled();
+    });
+
+    it('should keep the estimate in accurate mode when it is far from the limit', async () => {
+      const result = await tokenCounter.countTokensLocal('Hello world!', 'gemini-2.0-flash', { accuracy: 'accurate' });
+      expect(result.source).toBe('local');
+      expect(mockCountTokens).not.toHaveBeenCalled();
+    });
+
+    it('should count with the API in accurate mode near the limit', async () => {
+      const result = await tokenCounter.countTokensLocal('x'.repeat(200), 'gemini-2.0-flash', { accuracy: 'accurate', limit: 52 });
+      expect(result).toEqual({ totalTokens: 42, source: 'api', unsizedParts: 0 });
+      expect(mockCountTokens).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.0-flash', contents: 'x'.repeat(200) }));
+    });
+
+    it('should count with the API in accurate mode when media sizes are unknown', async () => {
+      const content = [{ fileData: { mimeType: 'audio/mpeg', fileUri: 'https://example.com/files/abc' } }];
+      const result = await tokenCounter.countTokensLocal(content, undefined, { accuracy: 'accurate' });
+      expect(result).toEqual({ totalTokens: 42, source: 'api', unsizedParts: 1 });
+    });
+
+    it('should handle errors when falling back to the API', async () => {
+      mockCountTokens.mockRejectedValueOnce(new Error('Token counting error'));
+      await expect(tokenCounter.countTokensLocal('Hello', undefined, { accuracy: 'accurate', limit: 1 })).rejects.toThrow('Token counting error');
+    });
+  });
+
   describe('getUsageFromResponse', () => {
     it('should return null if no usage metadata exists', () => {
       const response = { response: {} };
@@ -0,0 +1,108 @@
+import { sleep, abortableIterable, throwIfAborted } from '../../src/utils/abort';
+import { withRetry } from '../../src/utils/retry';
+import { GeminiAbortError } from '../../src/utils/errors';
+import { TextGenerationService } from '../../src/services/textGeneration';
+
+describe('abort', () => {
+  describe('throwIfAborted', () => {
+    it('should throw GeminiAbortError with the abort reason', () => {
+      const controller = new AbortController();
+      controller.abort('user left');
+
+      expect(() => throwIfAborted(controller.signal)).toThrow(GeminiAbortError);
+      try {
+        throwIfAborted(controller.signal);
+      } catch (error) {
+        expect((error as GeminiAbortError).reason).toBe('user left');
+      }
+    });
+
+    it('should do nothing without a signal', () => {
+      expect(() => throwIfAborted(undefined)).not.toThrow();
+    });
+  });
+
+  describe('sleep', () => {
+    it('should reject early when the signal aborts', async () => {
+      const controller = new AbortController();
+      const start = Date.now();
+      const pending = sleep(60000, controller.signal);
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(GeminiAbortError);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+  });
+
+  describe('abortableIterable', () => {
+    it('should stop iterating once the signal aborts', async () => {
+      const controller = new AbortController();
+      const source = (async function* () {
+        yield 1;
+        yield 2;
+        yield 3;
+      })();
+
+      const seen: number[] = [];
+      const iterate = async () => {
+        for await (const chunk of abortableIterable(source, controller.signal)) {
+          seen.push(chunk);
+          if (chunk === 1) controller.abort();
+        }
+      };
+
+      await expect(iterate()).rejects.toBeInstanceOf(GeminiAbortError);
+      expect(seen).toEqual([1]);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should not wait out the backoff once aborted', async () => {
+      const controller = new AbortController();
+      const operation = jest.fn().mockRejectedValue(new Error('got status: 503 Service Unavailable. {}'));
+      const pending = withRetry(operation, { maxAttempts: 5, initialDelayMs: 60000, jitter: false }, {
+        signal: controller.signal
+      });
+      setTimeout(() => controller.abort(), 10);
+
+      await expect(pending).rejects.toBeInstanceOf(GeminiAbortError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('service methods', () => {
+    it('should pass the signal to the request and reject with GeminiAbortError', async () => {
+      const controller = new AbortController();
+      const client: any = {
+        models: {
+          generateContent: jest.fn().mockImplementation(({ config }) => new Promise((_, reject) => {
+            config.abortSignal.addEventListener('abort', () => reject(new Error('exception AbortError: This operation was aborted sending request')));
+          }))
+        }
+      };
+      const service = new TextGenerationService(client);
+
+      const pending = service.generate('Hello', { signal: controller.signal });
+      controller.abort();
+      const error = await pending.catch(e => e);
+
+      expect(error).toBeInstanceOf(GeminiAbortError);
+      expect(error.message).toMatch(/^Text generation failed:/);
+      expect(error.method).toBe('generate');
+    });
+
+    it('should report a client-side timeout as GeminiTimeoutError, not an abort', async () => {
+      const client: any = {
+        models: {
+          generateContent: jest.fn().mockRejectedValue(new Error('exception AbortError: This operation was aborted sending request'))
+        }
+      };
+      const service = new TextGenerationService(client);
+
+      const error = await service.generate('Hello', { signal: new AbortController().signal }).catch(e => e);
+
+      expect(error).not.toBeInstanceOf(GeminiAbortError);
+      expect(error.name).toBe('GeminiTimeoutError');
+    });
+  });
+});
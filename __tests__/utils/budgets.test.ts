@@ -0,0 +1,114 @@
+import { MockGeminiClient } from '../../src/utils/mockGemini';
+import { GeminiBudgetExceededError } from '../../src/utils/errors';
+import { BudgetOptions } from '../../src/types';
+
+/**
+ * Client whose every answer uses 100 tokens, with prompt tokens estimated locally
+ */
+function createClient(budgets: Omit<BudgetOptions, 'estimate'>) {
+  const gemini = new MockGeminiClient({
+    budgets: { estimate: 'local', ...budgets },
+    usage: { prices: { 'gemini-2.5-pro': { input: 10, output: 10 }, 'gemini-2.0-flash': { input: 1, output: 1 } } }
+  });
+  gemini.backend.reply({}, { text: 'Answer', usage: { promptTokenCount: 60, candidatesTokenCount: 40, totalTokenCount: 100 } });
+  return gemini;
+}
+
+describe('budgets', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should refuse calls that would exceed a token budget before sending them', async () => {
+    const onExceeded = jest.fn();
+    const gemini = createClient({ budgets: [{ name: 'agent', maxTokens: 250 }], onExceeded });
+
+    await gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 });
+    await gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 });
+    const error = await gemini.textGeneration.generate('Hi', { maxOutputTokens: 100 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GeminiBudgetExceededError);
+    expect(error.message).toContain('Budget "agent" would be exceeded');
+    expect(error.spent).toEqual({ tokens: 200, cost: expect.any(Number) });
+    expect(error.estimate.tokens).toBe(101);
+    expect(gemini.backend.requestsFor('models.generateContent')).toHaveLength(2);
+    expect(onExceeded).toHaveBeenCalledWith(expect.objectContaining({ name: 'agent', action: 'block', model: 'gemini-2.0-flash' }));
+  });
+
+  it('should send calls without maxOutputTokens within budgets smaller than the model output limit', async () => {
+    const gemini = createClient({ budgets: [{ maxTokens: 50000, period: 'day' }] });
+    await expect(gemini.textGeneration.generate('Hi', { model: 'gemini-2.5-pro' })).resolves.toEqual(expect.objectContaining({ text: 'Answer' }));
+    expect(gemini.backend.requestsFor('models.generateContent')[0].config?.maxOutputTokens).toBeUndefined();
+
+    const small = createClient({ budgets: [{ maxTokens: 550 }], defaultMaxOutputTokens: 500 });
+    for (let call = 0; call < 3; call++) {
+      await small.textGeneration.generate('Hi', { model: 'gemini-2.5-pro' });
+    }
+
+    expect(small.backend.requestsFor('models.generateContent').map(request => request.config?.maxOutputTokens)).toEqual([undefined, 449, 349]);
+  });
+
+  it('should count calls in flight against the budget', async () => {
+    const gemini = createClient({ budgets: [{ maxTokens: 250 }] });
+
+    const results = await Promise.allSettled([1, 2, 3].map(() => gemini.textGeneration.generate('Hi', { maxOutputTokens: 100 })));
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'fulfilled', 'rejected']);
+  });
+
+  it('should give each label its own allowance', async () => {
+    const gemini = createClient({ budgets: [{ maxTokens: 150, perLabel: true }, { maxTokens: 1000, label: 'tenant-b' }] });
+    const generate = (label: string) => gemini.usage.withLabel(label, () => gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 }));
+
+    await generate('tenant-a');
+    await generate('tenant-a');
+    await expect(generate('tenant-a')).rejects.toThrow(GeminiBudgetExceededError);
+    await expect(generate('tenant-b')).resolves.toEqual(expect.objectContaining({ text: 'Answer' }));
+
+    expect(gemini.budgets!.status()).toEqual([
+      expect.objectContaining({ label: 'tenant-a', spent: expect.objectContaining({ tokens: 200 }), remaining: { tokens: 0 } }),
+      expect.objectContaining({ label: 'tenant-b', spent: expect.objectContaining({ tokens: 100 }), remaining: { tokens: 50 } }),
+      expect.objectContaining({ budget: expect.objectContaining({ label: 'tenant-b' }), remaining: { tokens: 900 } })
+    ]);
+  });
+
+  it('should send calls to the cheaper model when the budget only fits that', async () => {
+    const onExceeded = jest.fn();
+    const gemini = createClient({
+      budgets: [{ name: 'pro', maxCost: 0.0015, action: 'downgrade', downgradeTo: 'gemini-2.0-flash' }],
+      onExceeded
+    });
+
+    await gemini.textGeneration.generate('Hi', { model: 'gemini-2.5-pro', maxOutputTokens: 40 });
+    await gemini.textGeneration.generate('Hi', { model: 'gemini-2.5-pro', maxOutputTokens: 100 });
+
+    expect(gemini.backend.requestsFor('models.generateContent').map(request => request.model)).toEqual(['gemini-2.5-pro', 'gemini-2.0-flash']);
+    expect(onExceeded).toHaveBeenCalledWith(expect.objectContaining({ action: 'downgrade', model: 'gemini-2.5-pro', downgradedTo: 'gemini-2.0-flash' }));
+  });
+
+  it('should warn once when usage reaches the soft limit', async () => {
+    const onWarning = jest.fn();
+    const gemini = createClient({ budgets: [{ name: 'daily', maxTokens: 1000, period: 'day', warnAt: 0.25 }], onWarning });
+
+    for (let call = 0; call < 4; call++) {
+      await gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 });
+    }
+
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ name: 'daily', action: 'warn', spent: expect.objectContaining({ tokens: 300 }) }));
+  });
+
+  it('should renew the allowance every period', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] });
+    jest.setSystemTime(new Date('2025-06-01T23:00:00Z'));
+    const gemini = createClient({ budgets: [{ maxTokens: 150, period: 'day' }] });
+
+    await gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 });
+    await gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 });
+    await expect(gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 })).rejects.toThrow(GeminiBudgetExceededError);
+
+    jest.setSystemTime(new Date('2025-06-02T00:30:00Z'));
+    await expect(gemini.textGeneration.generate('Hi', { maxOutputTokens: 40 })).resolves.toEqual(expect.objectContaining({ text: 'Answer' }));
+    expect(gemini.budgets!.status()[0]).toEqual(expect.objectContaining({ window: '2025-06-02', spent: expect.objectContaining({ tokens: 100 }) }));
+  });
+});
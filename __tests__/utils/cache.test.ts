@@ -0,0 +1,167 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { cacheInterceptor, FileCacheStore, getCacheKey, MemoryCacheStore } from '../../src/utils/cache';
+import { TransportCall } from '../../src/utils/transport';
+
+const call = (request: any, operation = 'models.generateContent'): TransportCall => ({
+  service: 'textGeneration',
+  operation,
+  args: [request],
+});
+
+describe('getCacheKey', () => {
+  it('should ignore shorthand forms, key order, signals and the model prefix', () => {
+    const key = getCacheKey('models.generateContent', {
+      model: 'gemini-2.0-flash',
+      contents: 'Hello',
+      config: { temperature: 0, maxOutputTokens: 100 }
+    });
+
+    expect(getCacheKey('models.generateContent', {
+      model: 'models/gemini-2.0-flash',
+      contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      config: { maxOutputTokens: 100, temperature: 0, abortSignal: new AbortController().signal, cache: true }
+    })).toBe(key);
+    expect(getCacheKey('models.generateContent', { model: 'gemini-2.0-flash', contents: ['Hello'], config: { temperature: 0, maxOutputTokens: 100 } }))
+      .toBe(key);
+  });
+
+  it('should tell apart requests that differ in model, contents, config, tools or operation', () => {
+    const request = { model: 'gemini-2.0-flash', contents: 'Hello', config: { temperature: 0 } };
+    const key = getCacheKey('models.generateContent', request);
+
+    expect(getCacheKey('models.generateContent', { ...request, model: 'gemini-2.5-flash' })).not.toBe(key);
+    expect(getCacheKey('models.generateContent', { ...request, contents: 'Hello!' })).not.toBe(key);
+    expect(getCacheKey('models.generateContent', { ...request, config: { temperature: 0, topK: 1 } })).not.toBe(key);
+    expect(getCacheKey('models.generateContent', { ...request, config: { temperature: 0, tools: [{ googleSearch: {} }] } })).not.toBe(key);
+    expect(getCacheKey('models.countTokens', request)).not.toBe(key);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set('a', '1');
+    await store.set('b', '2');
+    await store.get('a');
+    await store.set('c', '3');
+
+    expect(await store.get('a')).toBe('1');
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe('3');
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const store = new MemoryCacheStore();
+    await store.set('a', '1', 500);
+
+    now.mockReturnValue(1499);
+    expect(await store.get('a')).toBe('1');
+    now.mockReturnValue(1500);
+    expect(await store.get('a')).toBeUndefined();
+    now.mockRestore();
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across store instances', async () => {
+    await new FileCacheStore(path.join(directory, 'cache')).set('models.generateContent:abc', '{"text":"Hi"}');
+
+    const store = new FileCacheStore(path.join(directory, 'cache'));
+    expect(await store.get('models.generateContent:abc')).toBe('{"text":"Hi"}');
+    await store.delete('models.generateContent:abc');
+    expect(await store.get('models.generateContent:abc')).toBeUndefined();
+  });
+
+  it('should drop expired entries', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('a', '1', -1);
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
+
+describe('cacheInterceptor', () => {
+  const request = { model: 'gemini-2.0-flash', contents: 'Hello', config: { temperature: 0 } };
+
+  it('should answer repeated requests from the store', async () => {
+    const interceptor = cacheInterceptor();
+    const next = jest.fn().mockResolvedValue({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] });
+
+    await interceptor(call(request), next);
+    const cached = await interceptor(call({ ...request, config: { temperature: 0, abortSignal: new AbortController().signal } }), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    // The SDK response class is restored, so `text` works on cached responses
+    expect(cached.text).toBe('Hi');
+  });
+
+  it('should skip requests with a temperature above zero unless asked to cache them', async () => {
+    const next = jest.fn().mockResolvedValue({ text: 'Hi' });
+    const sampled = { ...request, config: { temperature: 0.7 } };
+
+    await cacheInterceptor()(call(sampled), next);
+    await cacheInterceptor()(call(sampled), next);
+    expect(next).toHaveBeenCalledTimes(2);
+
+    const interceptor = cacheInterceptor();
+    await interceptor(call({ ...request, config: { temperature: 0.7, cache: true } }), next);
+    await interceptor(call({ ...request, config: { temperature: 0.7, cache: true } }), next);
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it('should treat a request without a temperature as sampled at the API default', async () => {
+    const next = jest.fn().mockResolvedValue({ text: 'Hi' });
+    const interceptor = cacheInterceptor();
+    const unset = { model: 'gemini-2.0-flash', contents: 'Hello', config: { maxOutputTokens: 100 } };
+
+    await interceptor(call(unset), next);
+    await interceptor(call(unset), next);
+    expect(next).toHaveBeenCalledTimes(2);
+
+    // Embeddings and token counts do not sample, so they are cached without one
+    await interceptor(call({ model: 'text-embedding-004', contents: 'Hello' }, 'models.embedContent'), next);
+    await interceptor(call({ model: 'text-embedding-004', contents: 'Hello' }, 'models.embedContent'), next);
+    expect(next).toHaveBeenCalledTimes(3);
+  });
+
+  it('should bypass the cache for calls that opt out, without sending the flag', async () => {
+    const interceptor = cacheInterceptor();
+    const next = jest.fn().mockResolvedValue({ text: 'Hi' });
+
+    await interceptor(call(request), next);
+    await interceptor(call({ ...request, config: { temperature: 0, cache: false } }), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(next).toHaveBeenLastCalledWith([{ ...request, config: { temperature: 0 } }]);
+  });
+
+  it('should pass streams through and treat store failures as misses', async () => {
+    const store = {
+      get: jest.fn().mockRejectedValue(new Error('connection refused')),
+      set: jest.fn().mockRejectedValue(new Error('connection refused')),
+      delete: jest.fn()
+    };
+    const interceptor = cacheInterceptor({ store, ttlMs: 60000 });
+    const next = jest.fn().mockResolvedValue({ text: 'Hi' });
+
+    await interceptor(call(request, 'models.generateContentStream'), next);
+    expect(store.get).not.toHaveBeenCalled();
+
+    await expect(interceptor(call(request), next)).resolves.toEqual({ text: 'Hi' });
+    expect(store.set).toHaveBeenCalledWith(expect.stringMatching(/^models\.generateContent:/), '{"text":"Hi"}', 60000);
+  });
+});
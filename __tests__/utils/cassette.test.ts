@@ -0,0 +1,106 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import GeminiClient from '../../src';
+import { Cassette } from '../../src/utils/cassette';
+import { GeminiCassetteMismatchError, GeminiRateLimitError } from '../../src/utils/errors';
+
+const reply = (text: string) => ({
+  candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+  usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 },
+  modelVersion: 'gemini-2.0-flash'
+});
+
+/**
+ * Transport standing in for the API while recording
+ */
+const liveTransport = () => ({
+  models: {
+    generateContent: jest.fn(async ({ contents }: any) => {
+      if (contents === 'Too much') {
+        throw new Error('got status: 429 Too Many Requests. {"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}');
+      }
+      return reply(`Echo: ${contents}`);
+    }),
+    generateContentStream: jest.fn(async () => (async function* () {
+      yield reply('Hel');
+      yield reply('lo');
+    })()),
+    countTokens: jest.fn(async () => ({ totalTokens: 4 })),
+    list: jest.fn(async () => {
+      const pages = [[{ name: 'models/gemini-2.0-flash' }], [{ name: 'models/gemini-2.5-flash' }]];
+      let index = 0;
+      return { get page() { return pages[index]; }, hasNextPage: () => index < pages.length - 1, nextPage: async () => pages[++index] };
+    })
+  },
+  files: {},
+  operations: {}
+});
+
+describe('Cassette', () => {
+  let directory: string;
+  let cassettePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-cassette-'));
+    cassettePath = path.join(directory, 'cassettes', 'session.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function recordSession() {
+    const transport = liveTransport();
+    const recording = new GeminiClient({ transport, retry: false, cassette: { path: cassettePath, mode: 'record' } });
+    await recording.textGeneration.generate('Hello');
+    await (await recording.textGeneration.streamGenerate('Stream please')).finalResponse();
+    await recording.tokenCounter.countTokensInText('Hello');
+    await recording.listModels();
+    await expect(recording.textGeneration.generate('Too much')).rejects.toThrow(GeminiRateLimitError);
+    await recording.cassette!.save();
+    return transport;
+  }
+
+  it('should record requests and responses to a JSON file', async () => {
+    await recordSession();
+
+    const file = JSON.parse(await fs.readFile(cassettePath, 'utf8'));
+    expect(file.interactions.map((interaction: any) => interaction.operation)).toEqual([
+      'models.generateContent',
+      'models.generateContentStream',
+      'models.countTokens',
+      'models.list',
+      'models.generateContent'
+    ]);
+    expect(file.interactions[1].chunks).toHaveLength(2);
+    expect(file.interactions[3].pages).toHaveLength(2);
+    expect(file.interactions[4].error).toEqual(expect.objectContaining({ status: 429 }));
+  });
+
+  it('should replay recorded calls without a live transport', async () => {
+    await recordSession();
+    const createTransport = jest.fn();
+    const cassette = new Cassette({ path: cassettePath });
+    const gemini = new GeminiClient({ transport: cassette.wrap(createTransport), retry: false });
+
+    expect((await gemini.textGeneration.generate('Hello')).text).toBe('Echo: Hello');
+    expect((await (await gemini.textGeneration.streamGenerate('Stream please')).finalResponse()).text).toBe('Hello');
+    expect(await gemini.tokenCounter.countTokensInText('Hello')).toEqual({ totalTokens: 4 });
+    expect((await gemini.listModels()).map(model => model.name)).toEqual(['gemini-2.0-flash', 'gemini-2.5-flash']);
+    await expect(gemini.textGeneration.generate('Too much')).rejects.toThrow(GeminiRateLimitError);
+    expect(createTransport).not.toHaveBeenCalled();
+    expect(cassette.unused()).toEqual([]);
+  });
+
+  it('should flag requests that were not recorded', async () => {
+    await recordSession();
+    const gemini = new GeminiClient({ cassette: { path: cassettePath } });
+
+    const error = await gemini.textGeneration.generate('Goodbye').catch(caught => caught);
+    expect(error).toBeInstanceOf(GeminiCassetteMismatchError);
+    expect(error.operation).toBe('models.generateContent');
+    expect(error.request).toEqual(expect.objectContaining({ contents: 'Goodbye' }));
+    expect(gemini.cassette!.unused()).toHaveLength(5);
+  });
+});
@@ -0,0 +1,52 @@
+import { ChatSession } from '../../src/utils/chatSession';
+
+/**
+ * Models namespace answering "A" to streams and "B" to plain sends
+ */
+function createModels() {
+  return {
+    generateContent: jest.fn().mockResolvedValue({ candidates: [{ content: { role: 'model', parts: [{ text: 'B' }] } }] }),
+    generateContentStream: jest.fn().mockImplementation(async () => (async function* () {
+      yield { candidates: [{ content: { role: 'model', parts: [{ text: 'A' }] } }] };
+    })())
+  };
+}
+
+describe('ChatSession', () => {
+  it('should hold later sends until a stream has been read', async () => {
+    const models = createModels();
+    const chat = new ChatSession(models, { model: 'gemini-2.0-flash' });
+
+    const stream = await chat.sendMessageStream({ message: 'first' });
+    const second = chat.sendMessage({ message: 'second' });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(models.generateContent).not.toHaveBeenCalled();
+
+    for await (const chunk of stream) {
+      expect(chunk).toBeDefined();
+    }
+    await second;
+
+    const first = [{ role: 'user', parts: [{ text: 'first' }] }, { role: 'model', parts: [{ text: 'A' }] }];
+    expect(models.generateContent.mock.calls[0][0].contents).toEqual([...first, { role: 'user', parts: [{ text: 'second' }] }]);
+    expect(chat.getHistory()).toEqual([
+      ...first,
+      { role: 'user', parts: [{ text: 'second' }] },
+      { role: 'model', parts: [{ text: 'B' }] }
+    ]);
+  });
+
+  it('should let later sends through once a stream is closed without being read', async () => {
+    const models = createModels();
+    const chat = new ChatSession(models, { model: 'gemini-2.0-flash' });
+
+    const stream = await chat.sendMessageStream({ message: 'first' }) as AsyncGenerator<any>;
+    await stream.return(undefined);
+
+    await expect(chat.sendMessage({ message: 'second' })).resolves.toBeDefined();
+    expect(chat.getHistory()).toEqual([
+      { role: 'user', parts: [{ text: 'second' }] },
+      { role: 'model', parts: [{ text: 'B' }] }
+    ]);
+  });
+});
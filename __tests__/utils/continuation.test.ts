@@ -0,0 +1,87 @@
+import { MockGeminiClient } from '../../src/utils/mockGemini';
+import { CONTINUE_JSON_PROMPT, CONTINUE_TEXT_PROMPT } from '../../src/utils/continuation';
+
+describe('continuation', () => {
+  let gemini: MockGeminiClient;
+
+  beforeEach(() => {
+    gemini = new MockGeminiClient();
+  });
+
+  function truncated(text: string, totalTokenCount = 100) {
+    gemini.backend.reply({}, { text, finishReason: 'MAX_TOKENS', usage: { totalTokenCount } }, { times: 1 });
+  }
+
+  it('should stitch continuations of a truncated answer, dropping repeated text', async () => {
+    truncated('Once upon a time there was a');
+    truncated('there was a little fox who');
+    gemini.backend.reply({}, { text: ' lived in the woods.', usage: { totalTokenCount: 100 } });
+
+    const response = await gemini.textGeneration.generate('Tell a story', { maxOutputTokens: 8, continuation: true });
+
+    expect(response).toMatchObject({
+      text: 'Once upon a time there was a little fox who lived in the woods.',
+      finishReason: 'STOP',
+      continuations: 2,
+      usageMetadata: { totalTokenCount: 300 },
+    });
+    expect(response.rounds).toHaveLength(3);
+    expect(response.raw).toBe(response.rounds?.[2]);
+    expect(response.candidates).toEqual([
+      { index: 0, text: 'Once upon a time there was a little fox who lived in the woods.', finishReason: 'STOP' },
+    ]);
+    const followUp = gemini.backend.requestsFor('models.generateContent')[1];
+    expect(followUp.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Tell a story' }] },
+      { role: 'model', parts: [{ text: 'Once upon a time there was a' }] },
+      { role: 'user', parts: [{ text: CONTINUE_TEXT_PROMPT }] },
+    ]);
+    expect(followUp.config.maxOutputTokens).toBe(8);
+  });
+
+  it('should stop after maxRounds or maxTotalTokens and report the truncation', async () => {
+    gemini.backend.reply({}, { text: 'more ', finishReason: 'MAX_TOKENS', usage: { totalTokenCount: 100 } });
+
+    const rounds = await gemini.textGeneration.generate('Count forever', { continuation: { maxRounds: 2 } });
+    const tokens = await gemini.textGeneration.generate('Count forever', { continuation: { maxTotalTokens: 150 } });
+    const off = await gemini.textGeneration.generate('Count forever');
+
+    expect(rounds).toMatchObject({ text: 'more more more ', finishReason: 'MAX_TOKENS', continuations: 2 });
+    expect(tokens).toMatchObject({ text: 'more more ', continuations: 1 });
+    expect(off.continuations).toBeUndefined();
+    const requests = gemini.backend.requestsFor('models.generateContent');
+    expect(requests).toHaveLength(3 + 2 + 1);
+    // The follow-up may only produce the 50 tokens left under maxTotalTokens
+    expect(requests[4].config.maxOutputTokens).toBe(50);
+  });
+
+  it('should continue chat answers as follow-up turns', async () => {
+    truncated('The first three planets are Mercury,');
+    gemini.backend.reply({}, { text: ' Venus and Earth.' });
+
+    const chat = gemini.chat.createChat({ continuation: true });
+    const response = await chat.sendMessage('Name the first three planets');
+
+    expect(response.text).toBe('The first three planets are Mercury, Venus and Earth.');
+    expect(chat.getHistory().map((content: any) => content.parts[0].text)).toEqual([
+      'Name the first three planets',
+      'The first three planets are Mercury,',
+      CONTINUE_TEXT_PROMPT,
+      ' Venus and Earth.',
+    ]);
+  });
+
+  it('should complete truncated JSON without the response schema', async () => {
+    truncated('[{"name": "Chocolate chip"}, {"na');
+    gemini.backend.reply({}, { text: '```json\nme": "Oatmeal"}]\n```' });
+
+    const recipes = await gemini.structuredOutput.generateWithSchema('List 2 cookie recipes', { type: 'array' } as any, { continuation: true });
+
+    expect(recipes).toEqual([{ name: 'Chocolate chip' }, { name: 'Oatmeal' }]);
+    const [first, followUp] = gemini.backend.requestsFor('models.generateContent');
+    expect(first.config.responseSchema).toEqual({ type: 'array' });
+    expect(followUp.config.responseSchema).toBeUndefined();
+    expect(followUp.config.responseMimeType).toBeUndefined();
+    expect(followUp.contents[2].parts[0].text).toBe(CONTINUE_JSON_PROMPT);
+  });
+});
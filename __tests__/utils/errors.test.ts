@@ -0,0 +1,106 @@
+import {
+  GeminiError,
+  GeminiRateLimitError,
+  GeminiInvalidArgumentError,
+  GeminiAuthenticationError,
+  GeminiNotFoundError,
+  GeminiServerError,
+  GeminiTimeoutError,
+  GeminiParseError,
+  GeminiUnsupportedFeatureError,
+  toGeminiError
+} from '../../src/utils/errors';
+import { TextGenerationService } from '../../src/services/textGeneration';
+import { StructuredOutputService } from '../../src/services/structuredOutput';
+
+const apiError = (status: number, body: object = {}) =>
+  new Error(`got status: ${status} Status. ${JSON.stringify(body)}`);
+
+describe('errors', () => {
+  describe('toGeminiError', () => {
+    it('should map a 429 to GeminiRateLimitError with details and retry hint', () => {
+      const cause = apiError(429, {
+        error: {
+          code: 429,
+          status: 'RESOURCE_EXHAUSTED',
+          details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '12s' }]
+        }
+      });
+
+      const error = toGeminiError(cause, {
+        service: 'textGeneration',
+        method: 'generate',
+        model: 'gemini-2.0-flash',
+        message: 'Text generation failed'
+      });
+
+      expect(error).toBeInstanceOf(GeminiRateLimitError);
+      expect(error).toBeInstanceOf(GeminiError);
+      expect(error.message).toBe(`Text generation failed: ${cause.message}`);
+      expect(error.status).toBe(429);
+      expect(error.code).toBe('RESOURCE_EXHAUSTED');
+      expect(error.details).toHaveLength(1);
+      expect(error.service).toBe('textGeneration');
+      expect(error.method).toBe('generate');
+      expect(error.model).toBe('gemini-2.0-flash');
+      expect(error.cause).toBe(cause);
+      expect((error as GeminiRateLimitError).retryAfterMs).toBe(12000);
+    });
+
+    it('should map status codes to error classes', () => {
+      expect(toGeminiError(apiError(400))).toBeInstanceOf(GeminiInvalidArgumentError);
+      expect(toGeminiError(apiError(403))).toBeInstanceOf(GeminiAuthenticationError);
+      expect(toGeminiError(apiError(404))).toBeInstanceOf(GeminiNotFoundError);
+      expect(toGeminiError(apiError(504))).toBeInstanceOf(GeminiTimeoutError);
+      expect(toGeminiError(apiError(500))).toBeInstanceOf(GeminiServerError);
+    });
+
+    it('should map 400s for unsupported features to GeminiUnsupportedFeatureError', () => {
+      const error = toGeminiError(apiError(400, {
+        error: { status: 'INVALID_ARGUMENT', message: 'Function calling is not enabled for models/gemini-2.0-flash-exp-image-generation' }
+      }));
+      expect(error).toBeInstanceOf(GeminiUnsupportedFeatureError);
+      expect(error).toBeInstanceOf(GeminiInvalidArgumentError);
+      expect(toGeminiError(apiError(400, { error: { message: 'Invalid JSON payload' } }))).not.toBeInstanceOf(GeminiUnsupportedFeatureError);
+    });
+
+    it('should fall back to GeminiError for unclassified errors', () => {
+      const error = toGeminiError('boom', { message: 'Failed' });
+      expect(error.constructor).toBe(GeminiError);
+      expect(error.message).toBe('Failed: boom');
+      expect(error.status).toBeUndefined();
+    });
+
+    it('should return GeminiErrors unchanged, filling in missing context', () => {
+      const original = new GeminiParseError('bad json', { text: '{' });
+      const error = toGeminiError(original, { service: 'structuredOutput', method: 'generateWithSchema' });
+      expect(error).toBe(original);
+      expect(error.message).toBe('bad json');
+      expect(error.service).toBe('structuredOutput');
+    });
+  });
+
+  describe('service errors', () => {
+    it('should raise typed errors that keep the message prefix', async () => {
+      const client: any = { models: { generateContent: jest.fn().mockRejectedValue(apiError(429)) } };
+      const service = new TextGenerationService(client);
+
+      const error = await service.generate('Hello', { model: 'gemini-2.5-flash' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(GeminiRateLimitError);
+      expect(error.message).toMatch(/^Text generation failed: got status: 429/);
+      expect(error.model).toBe('gemini-2.5-flash');
+    });
+
+    it('should raise GeminiParseError with the raw text when JSON cannot be parsed', async () => {
+      const client: any = { models: { generateContent: jest.fn().mockResolvedValue({ text: 'not json' }) } };
+      const service = new StructuredOutputService(client);
+
+      const error = await service.generateWithSchema('List names', { type: 'array' } as any).catch(e => e);
+
+      expect(error).toBeInstanceOf(GeminiParseError);
+      expect(error.text).toBe('not json');
+      expect(error.method).toBe('generateWithSchema');
+    });
+  });
+});
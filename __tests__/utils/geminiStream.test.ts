@@ -0,0 +1,108 @@
+import { EventEmitter } from 'events';
+import { GeminiStream } from '../../src/utils/geminiStream';
+import { GeminiError, GeminiServerError } from '../../src/utils/errors';
+
+const chunks = [
+  { candidates: [{ content: { parts: [{ text: 'Let me think', thought: true }] } }] },
+  { candidates: [{ content: { parts: [{ text: 'Hello' }] } }] },
+  {
+    candidates: [{ content: { parts: [{ text: ', world' }, { functionCall: { name: 'greet', args: { to: 'world' } } }] } }],
+    usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 }
+  }
+];
+
+async function* source(items: any[], error?: Error) {
+  for (const item of items) {
+    yield item;
+  }
+  if (error) {
+    throw error;
+  }
+}
+
+describe('GeminiStream', () => {
+  it('should yield typed events in order', async () => {
+    const events = [];
+    for await (const event of new GeminiStream(source(chunks))) {
+      events.push(event);
+    }
+    expect(events.map(event => ({ ...event, raw: undefined }))).toEqual([
+      { type: 'thought', text: 'Let me think' },
+      { type: 'text-delta', text: 'Hello' },
+      { type: 'text-delta', text: ', world' },
+      { type: 'function-call', functionCall: { name: 'greet', args: { to: 'world' } } },
+      { type: 'usage', usage: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 } }
+    ]);
+    expect(events[0].raw).toBe(chunks[0]);
+  });
+
+  it('should assemble the final response without being iterated', async () => {
+    const response = await new GeminiStream(source(chunks)).finalResponse();
+    expect(response).toEqual({
+      text: 'Hello, world',
+      thoughts: 'Let me think',
+      functionCalls: [{ name: 'greet', args: { to: 'world' } }],
+      usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 },
+      raw: chunks
+    });
+  });
+
+  it('should resolve the final response with what was read when iteration stops early', async () => {
+    const stream = new GeminiStream(source(chunks));
+    for await (const event of stream) {
+      if (event.type === 'text-delta') {
+        break;
+      }
+    }
+    await expect(stream.finalResponse()).resolves.toEqual(expect.objectContaining({ text: 'Hello', thoughts: 'Let me think' }));
+  });
+
+  it('should raise GeminiErrors from failed streams', async () => {
+    const stream = new GeminiStream(source(chunks.slice(1, 2), new Error('got status: 503 Service Unavailable. {}')), {
+      service: 'textGeneration',
+      method: 'streamGenerate'
+    });
+    const texts: string[] = [];
+    await expect((async () => {
+      for await (const event of stream) {
+        texts.push(event.type);
+      }
+    })()).rejects.toThrow(GeminiServerError);
+    expect(texts).toEqual(['text-delta']);
+    await expect(stream.finalResponse()).rejects.toMatchObject({ service: 'textGeneration', method: 'streamGenerate' });
+  });
+
+  it('should only be read once', async () => {
+    const stream = new GeminiStream(source(chunks));
+    await stream.finalResponse();
+    expect(() => stream[Symbol.asyncIterator]()).toThrow(GeminiError);
+  });
+
+  it('should pipe text to a writable, waiting for it to drain', async () => {
+    const written: string[] = [];
+    const destination = Object.assign(new EventEmitter(), {
+      write: jest.fn((text: string) => {
+        written.push(text);
+        setImmediate(() => destination.emit('drain'));
+        return false;
+      }),
+      end: jest.fn()
+    });
+
+    const response = await new GeminiStream(source(chunks)).pipe(destination);
+
+    expect(written).toEqual(['Hello', ', world']);
+    expect(destination.end).toHaveBeenCalled();
+    expect(response.text).toBe('Hello, world');
+  });
+
+  it('should expose the text as a web ReadableStream', async () => {
+    const reader = new GeminiStream(source(chunks)).toReadableStream().getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      text += decoder.decode(result.value);
+    }
+    expect(text).toBe('Hello, world');
+  });
+});
@@ -0,0 +1,189 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MockGeminiClient } from '../../src/utils/mockGemini';
+import { getCandidates, toRequestConfig } from '../../src/utils/generation';
+import { GeminiUnsupportedFeatureError } from '../../src/utils/errors';
+import { FunctionCallingMode, GenerationConfig } from '../../src/types';
+
+describe('generation settings', () => {
+  let gemini: MockGeminiClient;
+
+  beforeEach(() => {
+    gemini = new MockGeminiClient();
+  });
+
+  it('should send the sampling settings of every service', async () => {
+    gemini.backend.reply({}, { text: '{"ok":true}' });
+    const config: GenerationConfig = {
+      temperature: 0.9,
+      candidateCount: 3,
+      seed: 42,
+      presencePenalty: 0.5,
+      frequencyPenalty: 0.25,
+      responseLogprobs: true,
+      logprobs: 2,
+      responseModalities: ['TEXT'],
+    };
+
+    await gemini.textGeneration.generate('Hi', config);
+    await gemini.chat.createChat(config).sendMessage('Hi');
+    await gemini.structuredOutput.generateWithSchema('Hi', { type: 'object' } as any, config);
+    await gemini.documentUnderstanding.processDocument('Hi', { fileUri: 'files/doc', mimeType: 'application/pdf' }, config);
+
+    for (const request of gemini.backend.requestsFor('models.generateContent')) {
+      expect(request.config).toMatchObject(config);
+    }
+  });
+
+  it('should report every candidate of a response', async () => {
+    gemini.backend.reply({}, { text: '42', candidates: ['41', '42'] });
+
+    const response = await gemini.textGeneration.generate('What is 6 x 7?', { candidateCount: 3, temperature: 1 });
+    const votes = new Map<string, number>();
+    for (const candidate of response.candidates ?? []) {
+      votes.set(candidate.text, (votes.get(candidate.text) ?? 0) + 1);
+    }
+
+    expect(response.candidates).toEqual([
+      { index: 0, text: '42', finishReason: 'STOP' },
+      { index: 1, text: '41', finishReason: 'STOP' },
+      { index: 2, text: '42', finishReason: 'STOP' },
+    ]);
+    expect(votes.get('42')).toBe(2);
+  });
+
+  it('should keep the log probabilities of each candidate', () => {
+    const logprobsResult = {
+      chosenCandidates: [{ token: 'Yes', logProbability: -0.01 }],
+      topCandidates: [{ candidates: [{ token: 'Yes', logProbability: -0.01 }, { token: 'No', logProbability: -4.6 }] }],
+    };
+
+    expect(getCandidates({
+      candidates: [{
+        content: { parts: [{ text: 'Let me think', thought: true }, { text: 'Yes' }] },
+        finishReason: 'STOP',
+        avgLogprobs: -0.01,
+        logprobsResult,
+      }],
+    })).toEqual({ candidates: [{ index: 0, text: 'Yes', finishReason: 'STOP', avgLogprobs: -0.01, logprobsResult }] });
+    expect(getCandidates({})).toEqual({});
+  });
+
+  describe('request contract', () => {
+    const weather = { name: 'get_weather', description: 'Get the current weather' } as any;
+    const config: GenerationConfig = {
+      model: 'gemini-2.5-flash-preview-04-17',
+      temperature: 0.2,
+      systemInstruction: 'Be brief.',
+      safetySettings: [{ category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' }],
+      thinkingConfig: { thinkingBudget: 512 },
+    };
+    const contracts: Array<[string, (gemini: MockGeminiClient) => Promise<unknown>, Record<string, any>]> = [
+      ['textGeneration.generate', gemini => gemini.textGeneration.generate('Hi', config), {}],
+      ['chat.sendMessage', gemini => gemini.chat.createChat(config).sendMessage('Hi'), {}],
+      ['structuredOutput.generateWithSchema', gemini => gemini.structuredOutput.generateWithSchema('Hi', { type: 'object' } as any, config), {
+        responseMimeType: 'application/json',
+        responseSchema: { type: 'object' },
+      }],
+      ['structuredOutput.generateStructured', gemini => gemini.structuredOutput.generateStructured('Hi', { type: 'object' } as any, config), {
+        responseMimeType: 'application/json',
+        responseSchema: { type: 'object' },
+      }],
+      ['functionCalling.generate', gemini => gemini.functionCalling.generate('Weather in Boston?', [weather], config), {
+        tools: [{ functionDeclarations: [weather] }],
+      }],
+      ['functionCalling.generateWithMode', gemini => gemini.functionCalling.generateWithMode('Weather in Boston?', [weather], FunctionCallingMode.ANY, ['get_weather'], config), {
+        tools: [{ functionDeclarations: [weather] }],
+        toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] } },
+      }],
+      ['thinking.generate', gemini => gemini.thinking.generate('Hi', 1024, config), {}],
+      ['searchGrounding.generate', gemini => gemini.searchGrounding.generate('Hi', config), { tools: [{ googleSearch: {} }] }],
+      ['codeExecution.execute', gemini => gemini.codeExecution.execute('Sum 1 to 10', config), { tools: [{ codeExecution: {} }] }],
+      ['documentUnderstanding.processDocument', gemini => gemini.documentUnderstanding.processDocument('Hi', { fileUri: 'files/doc', mimeType: 'application/pdf' }, config), {}],
+      ['videoUnderstanding.analyzeYouTubeVideo', gemini => gemini.videoUnderstanding.analyzeYouTubeVideo('https://www.youtube.com/watch?v=9hE5-98ZeCg', 'Hi', config), {}],
+      ['multimodal.generateFromImage', async gemini => {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'gemini-image-'));
+        try {
+          await fs.writeFile(path.join(directory, 'cat.png'), 'image');
+          return await gemini.multimodal.generateFromImage('Hi', path.join(directory, 'cat.png'), config);
+        } finally {
+          await fs.rm(directory, { recursive: true, force: true });
+        }
+      }],
+    ];
+
+    it.each(contracts)('should send the generation config from %s', async (_method, call, extra = {}) => {
+      const gemini = new MockGeminiClient();
+      gemini.backend.reply({}, { text: '{"ok":true}' });
+
+      await call(gemini);
+
+      const [request] = gemini.backend.requestsFor('models.generateContent');
+      expect(request.config).toEqual(expect.objectContaining({
+        temperature: 0.2,
+        systemInstruction: 'Be brief.',
+        safetySettings: config.safetySettings,
+        thinkingConfig: { thinkingBudget: 512 },
+        ...extra,
+      }));
+      expect(request).not.toHaveProperty('generationConfig');
+      expect(request).not.toHaveProperty('thinkingConfig');
+    });
+
+    it('should parse the JSON generated by structuredOutput.generateStructured', async () => {
+      const gemini = new MockGeminiClient();
+      gemini.backend.reply({}, { text: '{"name":"Ada"}' });
+
+      await expect(gemini.structuredOutput.generateStructured('Name a pioneer', { type: 'object' } as any)).resolves.toEqual({ name: 'Ada' });
+    });
+
+    it('should keep the thinking budget argument next to other thinking settings', async () => {
+      const gemini = new MockGeminiClient();
+      gemini.backend.reply({}, { text: 'Done' });
+
+      await gemini.thinking.generate('Hi', 2048, { thinkingConfig: { includeThoughts: true } });
+      await (await gemini.thinking.streamGenerate('Hi', 2048, { thinkingConfig: { includeThoughts: true } })).finalResponse();
+
+      const requests = [...gemini.backend.requestsFor('models.generateContent'), ...gemini.backend.requestsFor('models.generateContentStream')];
+      expect(requests.map(request => request.config.thinkingConfig)).toEqual([
+        { thinkingBudget: 2048, includeThoughts: true },
+        { thinkingBudget: 2048, includeThoughts: true },
+      ]);
+      await expect(gemini.thinking.streamGenerate('Hi', 1024, { model: 'gemini-2.0-flash' })).rejects.toThrow(GeminiUnsupportedFeatureError);
+    });
+
+    it('should keep the function declarations of a chat after a function response', async () => {
+      const gemini = new MockGeminiClient();
+      gemini.backend.reply({}, { text: 'Done' });
+      const toolConfig = { functionCallingConfig: { mode: FunctionCallingMode.ANY } };
+      const chat = gemini.chat.createFunctionCallingChat([weather], { toolConfig });
+      await chat.sendMessage('Weather in Boston?');
+
+      const next = await gemini.functionCalling.handleFunctionResponse('get_weather', { temperature: 21 }, chat);
+      await next.sendMessage({ message: 'And in Paris?' });
+
+      const [, request] = gemini.backend.requestsFor('models.generateContent');
+      expect(request.config).toEqual(expect.objectContaining({
+        tools: [{ functionDeclarations: [weather] }],
+        toolConfig: { functionCallingConfig: { mode: 'ANY' } },
+      }));
+    });
+
+    it('should add the tools of the config after those of the service', () => {
+      const requestConfig = toRequestConfig(
+        {
+          tools: [{ googleSearch: {} }],
+          toolConfig: { functionCallingConfig: { mode: FunctionCallingMode.NONE } },
+          maxOutputTokens: undefined,
+        },
+        { tools: [{ codeExecution: {} }] }
+      );
+
+      expect(requestConfig).toEqual({
+        tools: [{ codeExecution: {} }, { googleSearch: {} }],
+        toolConfig: { functionCallingConfig: { mode: 'NONE' } },
+      });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { createLogger, loggingInterceptor, redact } from '../../src/utils/logger';
+import { TransportCall } from '../../src/utils/transport';
+
+const mockLogger = () => ({
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn()
+});
+
+const call = (operation = 'models.generateContent', attempts = 1): TransportCall => ({
+  service: 'textGeneration',
+  operation,
+  args: [{ model: 'gemini-2.0-flash', contents: 'Hello' }],
+  stats: { attempts }
+});
+
+describe('logger', () => {
+  describe('redact', () => {
+    it('should replace inline data and buffers with their size', () => {
+      const data = 'A'.repeat(1000);
+      expect(redact({ inlineData: { mimeType: 'image/png', data } })).toEqual({
+        inlineData: { mimeType: 'image/png', data: '[1000 chars redacted]' }
+      });
+      expect(redact([Buffer.from('abc')])).toEqual(['[3 bytes redacted]']);
+    });
+
+    it('should mask API keys and secrets', () => {
+      expect(redact({ headers: { 'x-goog-api-key': 'key-123' }, url: 'https://host?key=key-123' }, ['key-123'])).toEqual({
+        headers: { 'x-goog-api-key': '[REDACTED]' },
+        url: 'https://host?key=[REDACTED]'
+      });
+    });
+
+    it('should handle circular references', () => {
+      const value: any = { name: 'loop' };
+      value.self = value;
+      expect(redact(value)).toEqual({ name: 'loop', self: '[Circular]' });
+    });
+  });
+
+  describe('createLogger', () => {
+    it('should drop events below the level', () => {
+      const target = mockLogger();
+      const logger = createLogger(target, 'warn');
+      logger.info('ignored');
+      logger.warn('kept', { service: 'chat' });
+      expect(target.info).not.toHaveBeenCalled();
+      expect(target.warn).toHaveBeenCalledWith('kept', { service: 'chat' });
+      expect(logger.enabled('debug')).toBe(false);
+    });
+  });
+
+  describe('loggingInterceptor', () => {
+    it('should log latency, usage and retries of completed calls', async () => {
+      const target = mockLogger();
+      const next = jest.fn().mockResolvedValue({
+        text: 'Hi',
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 }
+      });
+      await loggingInterceptor(createLogger(target))(call('models.generateContent', 2), next);
+      expect(target.info).toHaveBeenCalledWith('Gemini call completed', expect.objectContaining({
+        service: 'textGeneration',
+        operation: 'models.generateContent',
+        model: 'gemini-2.0-flash',
+        latencyMs: expect.any(Number),
+        retries: 1,
+        usage: { promptTokens: 3, responseTokens: 5, totalTokens: 8 }
+      }));
+      expect(target.debug).not.toHaveBeenCalled();
+    });
+
+    it('should log failed calls with the error status', async () => {
+      const target = mockLogger();
+      const next = jest.fn().mockRejectedValue(new Error('got status: 503 Service Unavailable. {}'));
+      await expect(loggingInterceptor(createLogger(target))(call(), next)).rejects.toThrow('503');
+      expect(target.error).toHaveBeenCalledWith('Gemini call failed', expect.objectContaining({
+        error: expect.objectContaining({ status: 503 })
+      }));
+    });
+
+    it('should log streams once they end', async () => {
+      const target = mockLogger();
+      async function* chunks() {
+        yield { text: 'Hel' };
+        yield { text: 'lo', usageMetadata: { totalTokenCount: 4 } };
+      }
+      const stream = await loggingInterceptor(createLogger(target))(call('models.generateContentStream'), async () => chunks());
+      expect(target.info).not.toHaveBeenCalled();
+      const texts: string[] = [];
+      for await (const chunk of stream) {
+        texts.push(chunk.text);
+      }
+      expect(texts).toEqual(['Hel', 'lo']);
+      expect(target.info).toHaveBeenCalledWith('Gemini call completed', expect.objectContaining({
+        usage: expect.objectContaining({ totalTokens: 4 })
+      }));
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { middlewareInterceptor } from '../../src/utils/middleware';
+import { TransportCall } from '../../src/utils/transport';
+import { Middleware } from '../../src/types';
+
+const call = (operation = 'models.generateContent'): TransportCall => ({
+  service: 'textGeneration',
+  operation,
+  args: [{ model: 'gemini-2.0-flash', contents: 'Hello' }],
+});
+
+describe('middlewareInterceptor', () => {
+  it('should run middleware in order and pass rewritten requests on', async () => {
+    const order: string[] = [];
+    const middleware: Middleware[] = [
+      async (context, next) => {
+        order.push('outer');
+        return next({ ...context.request, model: 'gemini-2.5-pro-preview-05-06' });
+      },
+      async (context, next) => {
+        order.push(`inner:${context.request.model}`);
+        return next();
+      },
+    ];
+    const next = jest.fn().mockResolvedValue({ text: 'ok' });
+
+    await expect(middlewareInterceptor(() => middleware)(call(), next)).resolves.toEqual({ text: 'ok' });
+    expect(order).toEqual(['outer', 'inner:gemini-2.5-pro-preview-05-06']);
+    expect(next).toHaveBeenCalledWith([{ model: 'gemini-2.5-pro-preview-05-06', contents: 'Hello' }]);
+  });
+
+  it('should let middleware rewrite the response', async () => {
+    const middleware: Middleware[] = [
+      async (_context, next) => ({ ...(await next()), text: 'rewritten' }),
+    ];
+    const next = jest.fn().mockResolvedValue({ text: 'ok' });
+
+    await expect(middlewareInterceptor(() => middleware)(call(), next)).resolves.toEqual({ text: 'rewritten' });
+  });
+
+  it('should short-circuit when middleware does not call next', async () => {
+    const middleware: Middleware[] = [async () => ({ text: 'cached' })];
+    const next = jest.fn();
+
+    await expect(middlewareInterceptor(() => middleware)(call(), next)).resolves.toEqual({ text: 'cached' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should skip calls outside the models namespace', async () => {
+    const middleware = jest.fn();
+    const next = jest.fn().mockResolvedValue({ name: 'files/abc' });
+
+    await middlewareInterceptor(() => [middleware])(call('files.get'), next);
+    expect(middleware).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { FakeGeminiBackend, MockGeminiClient } from '../../src/utils/mockGemini';
+import { GeminiFileProcessingError, GeminiInvalidArgumentError, GeminiRateLimitError } from '../../src/utils/errors';
+
+describe('MockGeminiClient', () => {
+  let gemini: MockGeminiClient;
+
+  beforeEach(() => {
+    gemini = new MockGeminiClient();
+  });
+
+  it('should answer with scripted text and record the request', async () => {
+    gemini.backend.reply({ prompt: 'Hello' }, { text: 'Hi there!' });
+
+    const response = await gemini.textGeneration.generate('Hello', { temperature: 0.2 });
+
+    expect(response.text).toBe('Hi there!');
+    expect(response.raw.usageMetadata.totalTokenCount).toBeGreaterThan(0);
+    const [request] = gemini.backend.requestsFor('models.generateContent');
+    expect(request.model).toBe('gemini-2.0-flash');
+    expect(request.contents).toBe('Hello');
+  });
+
+  it('should pick the first reply matching the model and prompt, honouring times', async () => {
+    gemini.backend
+      .reply({ model: /2\.5/ }, { text: 'From 2.5' })
+      .reply({ prompt: /weather/i }, { text: 'Sunny' }, { times: 1 })
+      .reply({}, { text: 'Fallback' });
+
+    expect((await gemini.textGeneration.generate('Weather today?')).text).toBe('Sunny');
+    expect((await gemini.textGeneration.generate('Weather today?')).text).toBe('Fallback');
+    expect((await gemini.textGeneration.generate('Weather today?', { model: 'gemini-2.5-flash' })).text).toBe('From 2.5');
+  });
+
+  it('should build replies from the request', async () => {
+    gemini.backend.reply({ prompt: (prompt: string) => prompt.startsWith('Echo') }, (request: any) => ({ text: `${request.contents}!` }));
+
+    expect((await gemini.textGeneration.generate('Echo this')).text).toBe('Echo this!');
+  });
+
+  it('should return scripted function calls', async () => {
+    gemini.backend.reply({ prompt: /London/ }, { functionCalls: [{ name: 'get_weather', args: { city: 'London' } }] });
+
+    const response = await gemini.functionCalling.generate('Temperature in London?', [{ name: 'get_weather' }]);
+
+    expect(response.functionCalls).toEqual([{ name: 'get_weather', args: { city: 'London' } }]);
+  });
+
+  it('should stream chunks, with function calls, grounding and usage at the end', async () => {
+    const groundingMetadata = { webSearchQueries: ['latest news'] };
+    gemini.backend.reply({ operation: 'generateContentStream' }, {
+      chunks: ['Hel', 'lo'],
+      functionCalls: [{ name: 'lookup', args: {} }],
+      groundingMetadata,
+      usage: { promptTokenCount: 2, candidatesTokenCount: 3, totalTokenCount: 5 }
+    });
+
+    const stream = await gemini.textGeneration.streamGenerate('Stream please');
+    const events = [];
+    for await (const event of stream) {
+      events.push(event.type);
+    }
+    const response = await stream.finalResponse();
+
+    expect(events).toEqual(['text-delta', 'text-delta', 'function-call', 'usage']);
+    expect(response.text).toBe('Hello');
+    expect(response.functionCalls).toEqual([{ name: 'lookup', args: {} }]);
+    expect(response.groundingMetadata).toEqual(groundingMetadata);
+    expect(response.usageMetadata).toEqual({ promptTokenCount: 2, candidatesTokenCount: 3, totalTokenCount: 5 });
+  });
+
+  it('should fail with the scripted API status', async () => {
+    gemini.backend.reply({}, { error: { status: 429, message: 'Quota exceeded' } });
+
+    await expect(gemini.textGeneration.generate('Hello')).rejects.toThrow(GeminiRateLimitError);
+  });
+
+  it('should reject requests without a matching reply', async () => {
+    gemini.backend.reply({ prompt: 'Hello' }, { text: 'Hi' });
+
+    await expect(gemini.textGeneration.generate('Goodbye')).rejects.toThrow(GeminiInvalidArgumentError);
+  });
+
+  it('should move uploaded files through the scripted states', async () => {
+    gemini.backend.fileStates('PROCESSING', 'PROCESSING', 'ACTIVE');
+
+    const file = await gemini.files.upload({ file: 'video.mp4', config: { mimeType: 'video/mp4' } });
+    expect(file.state).toBe('PROCESSING');
+
+    const ready = await gemini.files.waitForFileState(file.name!, 'ACTIVE', 5, 0);
+    expect(ready.state).toBe('ACTIVE');
+    expect(gemini.backend.requestsFor('files.get')).toHaveLength(2);
+
+    await gemini.files.delete({ name: file.name! });
+    expect((await gemini.files.list()).files).toEqual([]);
+  });
+
+  it('should fail files that reach the FAILED state', async () => {
+    gemini.backend.fileStates('PROCESSING', 'FAILED');
+
+    const file = await gemini.files.upload({ file: 'broken.mp4' });
+
+    await expect(gemini.files.waitForFileState(file.name!, 'ACTIVE', 5, 0)).rejects.toThrow(GeminiFileProcessingError);
+  });
+
+  it('should forget scripts and requests on reset', async () => {
+    gemini.backend.reply({}, { text: 'Hi' });
+    await gemini.textGeneration.generate('Hello');
+
+    gemini.backend.reset();
+
+    expect(gemini.backend.requests).toEqual([]);
+    await expect(gemini.textGeneration.generate('Hello')).rejects.toThrow();
+  });
+});
+
+describe('FakeGeminiBackend', () => {
+  it('should complete video operations after the scripted polls', async () => {
+    const backend = new FakeGeminiBackend()
+      .videoOperation({ polls: 2, videos: ['https://example.com/video.mp4'] })
+      .videoOperation({ error: 'Video generation failed' });
+
+    const operation = await backend.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'A cat' });
+    expect(await backend.operations.getVideosOperation({ operation })).toEqual({ name: operation.name, done: false });
+    expect(await backend.operations.getVideosOperation({ operation })).toEqual({
+      name: operation.name,
+      done: true,
+      response: { generatedVideos: [{ video: { uri: 'https://example.com/video.mp4', mimeType: 'video/mp4' } }] }
+    });
+
+    const failing = await backend.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'A dog' });
+    expect(await backend.operations.getVideosOperation({ operation: failing })).toEqual(
+      expect.objectContaining({ done: true, error: { message: 'Video generation failed' } })
+    );
+  });
+
+  it('should answer embeddings, images and token counts', async () => {
+    const backend = new FakeGeminiBackend()
+      .reply({ operation: 'embedContent' }, { embedding: [0.1, 0.2] })
+      .reply({ operation: 'generateImages' }, { images: [{ data: 'aGVsbG8=' }] });
+
+    expect(await backend.models.embedContent({ model: 'text-embedding-004', contents: 'Hi' })).toEqual({ embeddings: [{ values: [0.1, 0.2] }] });
+    expect((await backend.models.generateImages({ model: 'imagen-3.0-generate-002', prompt: 'A cat' })).generatedImages[0].image.imageBytes).toBe('aGVsbG8=');
+    expect((await backend.models.countTokens({ model: 'gemini-2.0-flash', contents: 'Hello there' })).totalTokens).toBeGreaterThan(0);
+    expect(backend.requests.map(entry => entry.operation)).toEqual(['models.embedContent', 'models.generateImages', 'models.countTokens']);
+  });
+});
@@ -0,0 +1,98 @@
+import { getRequestRequirements, isComplexPrompt, ModelRegistry, modelValidationInterceptor } from '../../src/utils/modelRegistry';
+import { GeminiInvalidArgumentError } from '../../src/utils/errors';
+import { TransportCall } from '../../src/utils/transport';
+
+describe('ModelRegistry', () => {
+  const registry = new ModelRegistry();
+
+  it('should resolve prefixed and versioned model names', () => {
+    expect(registry.get('models/gemini-2.0-flash')?.contextWindow).toBe(1048576);
+    expect(registry.get('gemini-2.0-flash-001')?.name).toBe('gemini-2.0-flash');
+    expect(registry.get('unknown-model')).toBeUndefined();
+  });
+
+  it('should select models by task and prompt complexity', () => {
+    expect(registry.select('text')).toBe('gemini-2.0-flash');
+    expect(registry.select('code', { complex: true })).toBe('gemini-2.5-pro-preview-05-06');
+    expect(registry.select('image')).toBe('gemini-2.0-flash-exp-image-generation');
+    expect(registry.select({ method: 'generateImages' })).toBe('imagen-3.0-generate-002');
+    expect(registry.select('thinking')).toBe('gemini-2.5-flash-preview-04-17');
+  });
+
+  it('should reject a thinking budget on a model without thinking', () => {
+    expect(() => registry.validate('gemini-2.0-flash', { thinkingBudget: 1024 })).toThrow(GeminiInvalidArgumentError);
+    expect(() => registry.validate('gemini-2.0-flash', { thinkingBudget: 1024 }))
+      .toThrow('Model gemini-2.0-flash does not support thinking (thinkingBudget 1024); use a model such as gemini-2.5-flash-preview-04-17');
+  });
+
+  it('should check thinking budgets against the model range', () => {
+    expect(() => registry.validate('gemini-2.5-flash', { thinkingBudget: 0 })).not.toThrow();
+    expect(() => registry.validate('gemini-2.5-pro-preview-05-06', { thinkingBudget: 0 })).toThrow('cannot turn thinking off');
+    expect(() => registry.validate('gemini-2.5-flash', { thinkingBudget: 50000 })).toThrow('between 0 and 24576');
+  });
+
+  it('should reject unsupported tools and modalities but skip unknown models', () => {
+    expect(() => registry.validate('gemini-2.0-flash-lite', { tools: ['googleSearch'] })).toThrow('does not support googleSearch');
+    expect(() => registry.validate('gemini-2.0-flash', { outputModalities: ['image'] })).toThrow('cannot produce image output');
+    expect(() => registry.validate('my-tuned-model', { thinkingBudget: 1024 })).not.toThrow();
+  });
+
+  it('should let registered models replace the defaults', () => {
+    const custom = new ModelRegistry().register({
+      ...registry.get('gemini-2.0-flash')!,
+      thinking: { minBudget: 0, maxBudget: 1024, canDisable: true }
+    });
+    expect(() => custom.validate('gemini-2.0-flash', { thinkingBudget: 512 })).not.toThrow();
+  });
+});
+
+describe('isComplexPrompt', () => {
+  it('should flag long or analytical prompts', () => {
+    expect(isComplexPrompt('Hello')).toBe(false);
+    expect(isComplexPrompt('Explain quantum computing')).toBe(true);
+    expect(isComplexPrompt('a'.repeat(301))).toBe(true);
+  });
+});
+
+describe('getRequestRequirements', () => {
+  it('should read tools, modalities and the thinking budget from a request', () => {
+    expect(getRequestRequirements('models.generateContentStream', {
+      model: 'gemini-2.0-flash',
+      contents: [{ role: 'user', parts: [{ inlineData: { mimeType: 'application/pdf', data: '' } }, { text: 'Summarize' }] }],
+      config: {
+        tools: [{ googleSearch: {} }],
+        responseModalities: ['TEXT', 'IMAGE'],
+        thinkingConfig: { thinkingBudget: 1024 }
+      }
+    })).toEqual({
+      method: 'generateContent',
+      inputModalities: ['pdf'],
+      outputModalities: ['text', 'image'],
+      tools: ['googleSearch'],
+      thinkingBudget: 1024
+    });
+  });
+});
+
+describe('modelValidationInterceptor', () => {
+  const call = (request: any): TransportCall => ({
+    service: 'textGeneration',
+    operation: 'models.generateContent',
+    args: [request],
+  });
+
+  it('should reject invalid requests without calling the API', async () => {
+    const next = jest.fn();
+    const request = { model: 'gemini-2.0-flash', contents: 'Hi', config: { thinkingConfig: { thinkingBudget: 1024 } } };
+
+    await expect(modelValidationInterceptor(new ModelRegistry())(call(request), next)).rejects.toThrow(GeminiInvalidArgumentError);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should pass valid requests on', async () => {
+    const next = jest.fn().mockResolvedValue({ text: 'ok' });
+
+    await expect(modelValidationInterceptor(new ModelRegistry())(call({ model: 'gemini-2.0-flash', contents: 'Hi' }), next))
+      .resolves.toEqual({ text: 'ok' });
+  });
+});
@@ -0,0 +1,77 @@
+import { isFallbackError, ModelRouter } from '../../src/utils/modelRouter';
+import { ModelRegistry } from '../../src/utils/modelRegistry';
+import { GeminiInvalidArgumentError, GeminiUnsupportedFeatureError } from '../../src/utils/errors';
+
+const apiError = (status: number, message = 'Error') => new Error(`got status: ${status} ${message}. {}`);
+
+describe('ModelRouter', () => {
+  it('should order models by policy', () => {
+    const registry = new ModelRegistry();
+    expect(new ModelRouter(registry, { policy: 'quality' }).chain('code')[0]).toBe('gemini-2.5-pro-preview-05-06');
+    expect(new ModelRouter(registry, { policy: 'cost' }).chain('code')[0]).toBe('gemini-2.0-flash');
+    expect(new ModelRouter(registry, { policy: 'cost' }).chain('text')[0]).toBe('gemini-2.0-flash-lite');
+    expect(new ModelRouter(registry, { policy: 'latency' }).chain('code')).toEqual([
+      'gemini-2.0-flash',
+      'gemini-2.5-flash-preview-04-17',
+      'gemini-2.5-flash',
+      'gemini-2.5-pro-preview-05-06'
+    ]);
+    expect(new ModelRouter(registry).chain('code', { complex: true })[0]).toBe('gemini-2.5-pro-preview-05-06');
+  });
+
+  it('should use configured fallback chains', () => {
+    const router = new ModelRouter(new ModelRegistry(), {
+      policy: 'cost',
+      fallbacks: { code: ['gemini-2.5-pro-preview-05-06', 'gemini-2.5-flash', 'gemini-2.0-flash'] }
+    });
+    expect(router.chain('code')).toEqual(['gemini-2.5-pro-preview-05-06', 'gemini-2.5-flash', 'gemini-2.0-flash']);
+    expect(router.chain('text')[0]).toBe('gemini-2.0-flash-lite');
+  });
+
+  it('should fall back on quota, server and unsupported-feature errors', async () => {
+    const onFallback = jest.fn();
+    const router = new ModelRouter(new ModelRegistry(), {
+      fallbacks: { text: ['model-a', 'model-b', 'model-c', 'model-d'] },
+      onFallback
+    });
+    const call = jest.fn()
+      .mockRejectedValueOnce(apiError(429, 'Too Many Requests'))
+      .mockRejectedValueOnce(apiError(503, 'Service Unavailable'))
+      .mockRejectedValueOnce(new GeminiUnsupportedFeatureError('Model model-c does not support thinking'))
+      .mockResolvedValueOnce({ text: 'ok' });
+
+    await expect(router.route('text', {}, call)).resolves.toEqual({ response: { text: 'ok' }, model: 'model-d' });
+    expect(call.mock.calls.map(([model]) => model)).toEqual(['model-a', 'model-b', 'model-c', 'model-d']);
+    expect(onFallback).toHaveBeenCalledTimes(3);
+    expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({ task: 'text', model: 'model-a', nextModel: 'model-b' }));
+  });
+
+  it('should throw other errors and the last model\'s error', async () => {
+    const router = new ModelRouter(new ModelRegistry(), { fallbacks: { text: ['model-a', 'model-b'] } });
+
+    const invalid = jest.fn().mockRejectedValue(apiError(400, 'Bad Request'));
+    await expect(router.route('text', {}, invalid)).rejects.toThrow('400');
+    expect(invalid).toHaveBeenCalledTimes(1);
+
+    const overloaded = jest.fn().mockRejectedValue(apiError(503, 'Service Unavailable'));
+    await expect(router.route('text', {}, overloaded)).rejects.toThrow('503');
+    expect(overloaded).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pin calls to the caller\'s model', async () => {
+    const router = new ModelRouter();
+    const call = jest.fn().mockRejectedValue(apiError(429, 'Too Many Requests'));
+
+    await expect(router.route('text', { model: 'gemini-2.0-flash' }, call)).rejects.toThrow('429');
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(call).toHaveBeenCalledWith('gemini-2.0-flash');
+  });
+});
+
+describe('isFallbackError', () => {
+  it('should recognize unsupported features in API errors', () => {
+    expect(isFallbackError(apiError(400, 'Bad Request. Function calling is not enabled for models/gemini-2.0-flash-exp-image-generation'))).toBe(true);
+    expect(isFallbackError(new GeminiInvalidArgumentError('Invalid JSON payload', { status: 400 }))).toBe(false);
+    expect(isFallbackError(apiError(404, 'Not Found'))).toBe(false);
+  });
+});
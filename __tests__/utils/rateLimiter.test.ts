@@ -0,0 +1,182 @@
+import { RateLimiter, rateLimitInterceptor } from '../../src/utils/rateLimiter';
+import { GeminiAbortError } from '../../src/utils/errors';
+import { MockGeminiClient } from '../../src/utils/mockGemini';
+
+const flush = () => new Promise(resolve => jest.requireActual('timers').setImmediate(resolve));
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not limit models without a configured limit', async () => {
+    const limiter = new RateLimiter({ 'gemini-2.5-pro-preview-05-06': { requestsPerMinute: 1 } });
+    await limiter.acquire('gemini-2.0-flash');
+    await limiter.acquire('gemini-2.0-flash');
+    expect(limiter.getLimit('gemini-2.0-flash')).toBeUndefined();
+  });
+
+  it('should apply the wildcard limit to other models', () => {
+    const limiter = new RateLimiter({ '*': { maxConcurrency: 1 } });
+    expect(limiter.getLimit('models/gemini-2.0-flash')).toEqual({ maxConcurrency: 1 });
+  });
+
+  it('should hold calls beyond the concurrency limit until a slot is released', async () => {
+    const limiter = new RateLimiter({ 'gemini-2.0-flash': { maxConcurrency: 2 } });
+    const first = await limiter.acquire('gemini-2.0-flash');
+    await limiter.acquire('gemini-2.0-flash');
+
+    let started = false;
+    const third = limiter.acquire('gemini-2.0-flash').then(() => { started = true; });
+    await flush();
+    expect(started).toBe(false);
+
+    first();
+    await third;
+    expect(started).toBe(true);
+  });
+
+  it('should delay calls beyond the requests-per-minute limit', async () => {
+    const onQueued = jest.fn();
+    const limiter = new RateLimiter({ 'gemini-2.0-flash': { requestsPerMinute: 2 } }, { onQueued });
+    (await limiter.acquire('gemini-2.0-flash'))();
+    (await limiter.acquire('gemini-2.0-flash'))();
+
+    let started = false;
+    const third = limiter.acquire('gemini-2.0-flash').then(() => { started = true; });
+    expect(onQueued).toHaveBeenCalledWith({ model: 'gemini-2.0-flash', tokens: 0, queueLength: 1 });
+
+    jest.advanceTimersByTime(59000);
+    await flush();
+    expect(started).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+    await third;
+    expect(started).toBe(true);
+  });
+
+  it('should delay calls beyond the tokens-per-minute limit', async () => {
+    const limiter = new RateLimiter({ 'gemini-2.0-flash': { tokensPerMinute: 1000 } });
+    (await limiter.acquire('gemini-2.0-flash', 800))();
+
+    let started = false;
+    const next = limiter.acquire('gemini-2.0-flash', 300).then(() => { started = true; });
+    await flush();
+    expect(started).toBe(false);
+
+    jest.advanceTimersByTime(60000);
+    await next;
+    expect(started).toBe(true);
+  });
+
+  it('should use the actual token count reported on release', async () => {
+    const limiter = new RateLimiter({ 'gemini-2.0-flash': { tokensPerMinute: 1000 } });
+    const release = await limiter.acquire('gemini-2.0-flash', 900);
+    release(100);
+
+    await expect(limiter.acquire('gemini-2.0-flash', 500)).resolves.toBeInstanceOf(Function);
+  });
+
+  it('should start queued calls in arrival order', async () => {
+    const limiter = new RateLimiter({ 'gemini-2.0-flash': { maxConcurrency: 1 } });
+    const order: number[] = [];
+    const release = await limiter.acquire('gemini-2.0-flash');
+
+    const waiting = [1, 2, 3].map(n => limiter.acquire('gemini-2.0-flash').then(done => {
+      order.push(n);
+      done();
+    }));
+    release();
+    await Promise.all(waiting);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('should drop an aborted call from the queue', async () => {
+    const limiter = new RateLimiter({ 'gemini-2.0-flash': { maxConcurrency: 1 } });
+    const release = await limiter.acquire('gemini-2.0-flash');
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire('gemini-2.0-flash', 0, controller.signal);
+    const next = limiter.acquire('gemini-2.0-flash');
+    controller.abort();
+    release();
+
+    await expect(aborted).rejects.toBeInstanceOf(GeminiAbortError);
+    await expect(next).resolves.toBeInstanceOf(Function);
+  });
+
+  describe('rateLimitInterceptor', () => {
+    it('should estimate tokens only for models with a token limit', async () => {
+      const limiter = new RateLimiter({ 'gemini-2.0-flash': { tokensPerMinute: 1000 } });
+      const estimateTokens = jest.fn().mockResolvedValue(10);
+      const interceptor = rateLimitInterceptor(limiter, estimateTokens);
+      const next = jest.fn().mockResolvedValue({ text: 'ok' });
+
+      await interceptor(
+        { service: 'textGeneration', operation: 'models.generateContent', args: [{ model: 'gemini-2.0-flash', contents: 'Hi' }] },
+        next
+      );
+      await interceptor(
+        { service: 'tokenCounter', operation: 'models.countTokens', args: [{ model: 'gemini-2.0-flash', contents: 'Hi' }] },
+        next
+      );
+
+      expect(estimateTokens).toHaveBeenCalledTimes(1);
+      expect(estimateTokens).toHaveBeenCalledWith('gemini-2.0-flash', { model: 'gemini-2.0-flash', contents: 'Hi' });
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hold a stream\'s slot until the stream is read to the end', async () => {
+      const limiter = new RateLimiter({ 'gemini-2.0-flash': { maxConcurrency: 1, tokensPerMinute: 1000 } });
+      // Two estimates of 600 tokens would not fit in a minute together
+      const interceptor = rateLimitInterceptor(limiter, jest.fn().mockResolvedValue(600));
+      const stream = async function* () {
+        yield { text: 'Hello' };
+        yield { text: ' there', usageMetadata: { promptTokenCount: 5 } };
+      };
+      const next = jest.fn().mockImplementation(async () => stream());
+      const call = { service: 'textGeneration', operation: 'models.generateContentStream', args: [{ model: 'gemini-2.0-flash', contents: 'Hi' }] };
+
+      const first = await interceptor(call, next);
+      let secondStarted = false;
+      const second = interceptor(call, next).then(response => {
+        secondStarted = true;
+        return response;
+      });
+      await flush();
+      expect(secondStarted).toBe(false);
+
+      const chunks = [];
+      for await (const chunk of first) {
+        chunks.push(chunk);
+      }
+      expect(chunks).toHaveLength(2);
+      // The slot is free again and the first stream's tokens were corrected to its reported 5
+      await second;
+      expect(secondStarted).toBe(true);
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count the prompt once per call across budgets and retries', async () => {
+      jest.useRealTimers();
+      const gemini = new MockGeminiClient({
+        retry: { initialDelayMs: 1 },
+        rateLimits: { 'gemini-2.0-flash': { tokensPerMinute: 100000 } },
+        budgets: { budgets: [{ maxTokens: 100000 }] }
+      });
+      gemini.backend
+        .reply({}, { error: { status: 503 } }, { times: 1 })
+        .reply({}, { text: 'Answer' });
+
+      await gemini.textGeneration.generate('Hi', { maxOutputTokens: 10 });
+
+      expect(gemini.backend.requestsFor('models.generateContent')).toHaveLength(2);
+      expect(gemini.backend.requestsFor('models.countTokens')).toHaveLength(1);
+    });
+  });
+});
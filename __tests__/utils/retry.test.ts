@@ -0,0 +1,95 @@
+import { withRetry, getErrorStatus, getRetryAfterMs, getRetryDelay, isRetryableError, retryInterceptor } from '../../src/utils/retry';
+
+const apiError = (status: number, body = '{}') =>
+  new Error(`got status: ${status} Status. ${body}`);
+
+describe('retry', () => {
+  describe('getErrorStatus', () => {
+    it('should read the status from @google/genai error messages', () => {
+      expect(getErrorStatus(apiError(503))).toBe(503);
+    });
+
+    it('should read a numeric status property', () => {
+      expect(getErrorStatus({ status: 429 })).toBe(429);
+    });
+
+    it('should return undefined for errors without a status', () => {
+      expect(getErrorStatus(new Error('boom'))).toBeUndefined();
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('should read a Retry-After header in seconds', () => {
+      expect(getRetryAfterMs({ headers: { 'retry-after': '2' } })).toBe(2000);
+    });
+
+    it('should read a RetryInfo retryDelay from the error body', () => {
+      const error = apiError(429, '{"error":{"details":[{"retryDelay":"7s"}]}}');
+      expect(getRetryAfterMs(error)).toBe(7000);
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry quota and overload errors only', () => {
+      expect(isRetryableError(apiError(429))).toBe(true);
+      expect(isRetryableError(apiError(503))).toBe(true);
+      expect(isRetryableError(apiError(400))).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should grow exponentially up to the cap', () => {
+      const policy = { initialDelayMs: 100, backoffMultiplier: 2, maxDelayMs: 300, jitter: false };
+      expect(getRetryDelay(1, policy)).toBe(100);
+      expect(getRetryDelay(2, policy)).toBe(200);
+      expect(getRetryDelay(3, policy)).toBe(300);
+    });
+
+    it('should wait at least as long as the server hint', () => {
+      const policy = { initialDelayMs: 100, jitter: false };
+      expect(getRetryDelay(1, policy, { headers: { 'retry-after': '1' } })).toBe(1000);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry until the operation succeeds', async () => {
+      const operation = jest.fn()
+        .mockRejectedValueOnce(apiError(503))
+        .mockResolvedValueOnce('ok');
+      const onRetry = jest.fn();
+      await expect(withRetry(operation, { initialDelayMs: 1, onRetry }, { operation: 'models.generateContent' })).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, operation: 'models.generateContent' }));
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const operation = jest.fn().mockRejectedValue(apiError(429));
+      await expect(withRetry(operation, { maxAttempts: 3, initialDelayMs: 1 })).rejects.toThrow('429');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry non-transient errors', async () => {
+      const operation = jest.fn().mockRejectedValue(apiError(400));
+      await expect(withRetry(operation, { initialDelayMs: 1 })).rejects.toThrow('400');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retryInterceptor', () => {
+    it('should send file uploads once unless non-idempotent retries are enabled', async () => {
+      const call = { service: 'files' as const, operation: 'files.upload', args: [{}] };
+
+      const next = jest.fn().mockRejectedValueOnce(apiError(503));
+      await expect(retryInterceptor({ initialDelayMs: 1 })(call, next)).rejects.toThrow('503');
+      expect(next).toHaveBeenCalledTimes(1);
+
+      const retried = jest.fn().mockRejectedValueOnce(apiError(503)).mockResolvedValueOnce('ok');
+      await expect(retryInterceptor({ initialDelayMs: 1, retryNonIdempotent: true })(call, retried)).resolves.toBe('ok');
+      expect(retried).toHaveBeenCalledTimes(2);
+
+      const generate = jest.fn().mockRejectedValueOnce(apiError(503)).mockResolvedValueOnce('ok');
+      await expect(retryInterceptor({ initialDelayMs: 1 })({ ...call, operation: 'models.generateContent' }, generate)).resolves.toBe('ok');
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { MockGeminiClient } from '../../src/utils/mockGemini';
+import { GeminiSafetyBlockedError } from '../../src/utils/errors';
+import { safetyInterceptor } from '../../src/utils/safety';
+
+describe('safety settings', () => {
+  let gemini: MockGeminiClient;
+
+  beforeEach(() => {
+    gemini = new MockGeminiClient({
+      safetySettings: [
+        { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+        { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_LOW_AND_ABOVE' },
+      ],
+    });
+  });
+
+  it('should merge the client defaults with the settings of a call', async () => {
+    gemini.backend.reply({}, { text: 'Hi' });
+
+    await gemini.textGeneration.generate('Hi', {
+      safetySettings: [{ category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' }],
+    });
+    await gemini.chat.createChat().sendMessage('Hi');
+
+    const [call, turn] = gemini.backend.requestsFor('models.generateContent');
+    expect(call.config.safetySettings).toEqual([
+      { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_LOW_AND_ABOVE' },
+      { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
+    ]);
+    expect(turn.config.safetySettings).toEqual(gemini.safetySettings);
+  });
+
+  it('should raise GeminiSafetyBlockedError for a blocked prompt', async () => {
+    const safetyRatings = [{ category: 'HARM_CATEGORY_HARASSMENT', probability: 'HIGH', blocked: true } as const];
+    gemini.backend.reply({}, { promptFeedback: { blockReason: 'SAFETY', safetyRatings } });
+
+    const error = await gemini.textGeneration.generate('Something rude').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GeminiSafetyBlockedError);
+    expect(error.message).toContain('Prompt blocked: SAFETY (HARM_CATEGORY_HARASSMENT: HIGH)');
+    expect(error.blockReason).toBe('SAFETY');
+    expect(error.safetyRatings).toEqual(safetyRatings);
+  });
+
+  it('should raise GeminiSafetyBlockedError for a blocked response', async () => {
+    gemini.backend.reply({}, { text: '', finishReason: 'RECITATION' });
+
+    await expect(gemini.documentUnderstanding.processDocument('Recite the lyrics', { fileUri: 'files/doc', mimeType: 'application/pdf' })).rejects.toMatchObject({
+      name: 'GeminiSafetyBlockedError',
+      finishReason: 'RECITATION',
+    });
+  });
+
+  it('should keep the usable candidates when only some are blocked', async () => {
+    gemini.backend.reply({}, { text: '', finishReason: 'SAFETY', candidates: ['A polite answer'] });
+
+    const response = await gemini.textGeneration.generate('Something borderline', { candidateCount: 2 });
+
+    expect(response.candidates).toEqual([
+      { index: 0, text: '', finishReason: 'SAFETY', blocked: true },
+      { index: 1, text: 'A polite answer', finishReason: 'STOP' },
+    ]);
+  });
+
+  it('should raise GeminiSafetyBlockedError once every candidate is blocked', async () => {
+    const blocked = (index: number, finishReason: string) => ({ index, finishReason, content: { parts: [] } });
+    const call = (candidateCount: number) => ({
+      service: 'textGeneration',
+      operation: 'models.generateContent',
+      args: [{ model: 'gemini-2.0-flash', contents: 'Hi', config: { candidateCount } }],
+    });
+    const next = jest.fn().mockResolvedValue({ candidates: [blocked(0, 'SAFETY'), blocked(1, 'RECITATION')] });
+
+    await expect(safetyInterceptor()(call(2), next)).rejects.toMatchObject({
+      name: 'GeminiSafetyBlockedError',
+      message: expect.stringContaining('All 2 candidates blocked: SAFETY'),
+      finishReason: 'SAFETY',
+    });
+
+    // In a stream, candidates blocked in different chunks add up
+    const chunks = [{ candidates: [blocked(1, 'SAFETY')] }, { candidates: [{ index: 0, content: { parts: [{ text: 'Hi' }] } }] }, { candidates: [blocked(0, 'SAFETY')] }];
+    const stream = await safetyInterceptor()({ ...call(2), operation: 'models.generateContentStream' }, async () => (async function* () {
+      yield* chunks;
+    })());
+    const received: any[] = [];
+    await expect((async () => {
+      for await (const chunk of stream) {
+        received.push(chunk);
+      }
+    })()).rejects.toBeInstanceOf(GeminiSafetyBlockedError);
+    expect(received).toEqual(chunks.slice(0, 2));
+  });
+
+  it('should fail a stream at the blocked chunk', async () => {
+    gemini.backend.reply({}, { chunks: ['Once upon', ' a time'], finishReason: 'SAFETY' });
+
+    const stream = await gemini.textGeneration.streamGenerate('Tell a story');
+    const received: string[] = [];
+    const reading = (async () => {
+      for await (const event of stream) {
+        if (event.type === 'text-delta') {
+          received.push(event.text);
+        }
+      }
+    })();
+
+    await expect(reading).rejects.toBeInstanceOf(GeminiSafetyBlockedError);
+    expect(received).toEqual(['Once upon']);
+  });
+
+  it('should report the finish reason and safety ratings of completed responses', async () => {
+    const safetyRatings = [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'LOW' } as const];
+    gemini.backend.reply({}, { text: 'Hi', safetyRatings });
+
+    const response = await gemini.textGeneration.generate('Hi');
+    const streamed = await (await gemini.textGeneration.streamGenerate('Hi')).finalResponse();
+
+    expect(response).toMatchObject({ finishReason: 'STOP', safetyRatings });
+    expect(streamed).toMatchObject({ finishReason: 'STOP', safetyRatings });
+  });
+});
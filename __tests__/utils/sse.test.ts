@@ -0,0 +1,118 @@
+import { GeminiStream } from '../../src/utils/geminiStream';
+import { serverSentEventStream, toServerSentEvents } from '../../src/utils/sse';
+
+const chunks = [
+  { candidates: [{ content: { parts: [{ text: 'Hello' }] } }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 1, totalTokenCount: 4 } },
+  { candidates: [{ content: { parts: [{ text: ', world' }] } }], usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 5, totalTokenCount: 8 } }
+];
+
+async function* source(items: any[], options: { delay?: number; error?: Error } = {}) {
+  for (const item of items) {
+    if (options.delay) {
+      await new Promise(resolve => setTimeout(resolve, options.delay));
+    }
+    yield item;
+  }
+  if (options.error) {
+    throw options.error;
+  }
+}
+
+async function readAll(body: ReadableStream<Uint8Array>): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    text += decoder.decode(result.value);
+  }
+  return text;
+}
+
+describe('serverSentEventStream', () => {
+  it('should send deltas, then the final usage and a done event', async () => {
+    const body = serverSentEventStream(new GeminiStream(source(chunks)), { heartbeatInterval: 0 });
+
+    expect(await readAll(body)).toBe([
+      'event: text-delta\ndata: {"text":"Hello"}\n\n',
+      'event: text-delta\ndata: {"text":", world"}\n\n',
+      'event: usage\ndata: {"promptTokenCount":3,"candidatesTokenCount":5,"totalTokenCount":8}\n\n',
+      'event: done\ndata: {"text":"Hello, world","usageMetadata":{"promptTokenCount":3,"candidatesTokenCount":5,"totalTokenCount":8}}\n\n'
+    ].join(''));
+  });
+
+  it('should use a custom done payload', async () => {
+    const body = serverSentEventStream(new GeminiStream(source(chunks)), {
+      heartbeatInterval: 0,
+      done: response => ({ length: response.text.length })
+    });
+
+    expect(await readAll(body)).toContain('event: done\ndata: {"length":12}\n\n');
+  });
+
+  it('should send failures as error events', async () => {
+    const stream = new GeminiStream(source(chunks.slice(0, 1), { error: new Error('got status: 503 Service Unavailable. {}') }));
+
+    const text = await readAll(serverSentEventStream(stream, { heartbeatInterval: 0 }));
+
+    expect(text).toContain('event: text-delta');
+    expect(text).toMatch(/event: error\ndata: \{"name":"GeminiServerError","message":".*503.*","status":503\}\n\n$/);
+    expect(text).not.toContain('event: done');
+  });
+
+  it('should send heartbeats while waiting for the model', async () => {
+    const text = await readAll(serverSentEventStream(new GeminiStream(source(chunks, { delay: 30 })), { heartbeatInterval: 5 }));
+
+    expect(text).toContain(': heartbeat\n\n');
+    expect(text).toContain('event: done');
+  });
+
+  it('should stop reading the model when the client disconnects', async () => {
+    const controller = new AbortController();
+    let read = 0;
+    async function* slow() {
+      for (const chunk of chunks) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        read++;
+        yield chunk;
+      }
+    }
+    const reader = serverSentEventStream(new GeminiStream(slow()), { signal: controller.signal, heartbeatInterval: 0 }).getReader();
+
+    const first = await reader.read();
+    expect(new TextDecoder().decode(first.value)).toContain('Hello');
+    controller.abort();
+
+    expect((await reader.read()).done).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(read).toBe(1);
+  });
+});
+
+describe('toServerSentEvents', () => {
+  const OriginalResponse = (globalThis as any).Response;
+
+  beforeAll(() => {
+    // jest's node environment does not expose the fetch API classes
+    (globalThis as any).Response = class {
+      constructor(public body: ReadableStream<Uint8Array>, public init: { headers: Record<string, string> }) {}
+    };
+  });
+
+  afterAll(() => {
+    (globalThis as any).Response = OriginalResponse;
+  });
+
+  it('should return an event-stream response', async () => {
+    const response: any = toServerSentEvents(new GeminiStream(source(chunks)), {
+      heartbeatInterval: 0,
+      headers: { 'X-Request-Id': 'abc' }
+    });
+
+    expect(response.init.headers).toEqual(expect.objectContaining({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Request-Id': 'abc'
+    }));
+    expect(await readAll(response.body)).toContain('event: done');
+  });
+});
@@ -0,0 +1,181 @@
+import * as http from 'http';
+import GeminiClient from '../../src';
+import { GeminiStandInServer } from '../../src/utils/standInServer';
+
+// The client must reach the server through the real SDK, which jest.setup.js and __mocks__ replace
+jest.unmock('@google/genai');
+jest.unmock('fs');
+jest.unmock('stream');
+
+interface HttpResult {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  text: string;
+  json: () => any;
+}
+
+/**
+ * Minimal HTTP client (jest replaces the global fetch with a mock)
+ */
+function send(url: string, options: { method?: string; body?: any; headers?: Record<string, string> } = {}): Promise<HttpResult> {
+  const body = options.body === undefined || typeof options.body === 'string' ? options.body : JSON.stringify(options.body);
+  return new Promise((resolve, reject) => {
+    const request = http.request(url, { method: options.method ?? (body === undefined ? 'GET' : 'POST'), headers: options.headers }, response => {
+      const chunks: Buffer[] = [];
+      response.on('data', chunk => chunks.push(chunk));
+      response.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf8');
+        resolve({ status: response.statusCode ?? 0, headers: response.headers, text, json: () => JSON.parse(text) });
+      });
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+describe('GeminiStandInServer', () => {
+  let server: GeminiStandInServer;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new GeminiStandInServer({
+      fixtures: {
+        replies: [
+          { promptPattern: 'weather', reply: { functionCalls: [{ name: 'get_weather', args: { city: 'Paris' } }] } },
+          { prompt: 'Fail', reply: { error: { status: 429 } } },
+          { reply: { text: 'Hello from the stand-in', chunks: ['Hello ', 'from the stand-in'] } }
+        ]
+      }
+    });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const contents = (text: string) => ({ contents: [{ role: 'user', parts: [{ text }] }] });
+
+  it('should answer generateContent from fixtures and record the request', async () => {
+    const result = await send(`${url}/v1beta/models/gemini-2.0-flash:generateContent`, {
+      body: { ...contents('Hi'), generationConfig: { temperature: 0 } }
+    });
+
+    expect(result.status).toBe(200);
+    expect(result.json().candidates[0].content.parts).toEqual([{ text: 'Hello from the stand-in' }]);
+    expect(server.backend.requestsFor('models.generateContent')[0]).toEqual(expect.objectContaining({
+      model: 'gemini-2.0-flash',
+      config: { temperature: 0 }
+    }));
+  });
+
+  it('should stream chunks as server-sent events', async () => {
+    const result = await send(`${url}/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse`, { body: contents('Hi') });
+
+    expect(result.headers['content-type']).toContain('text/event-stream');
+    const chunks = result.text.split('\r\n\r\n').filter(Boolean).map(event => JSON.parse(event.replace(/^data: /, '')));
+    expect(chunks.map(chunk => chunk.candidates[0].content.parts[0].text)).toEqual(['Hello ', 'from the stand-in']);
+    expect(chunks[1].usageMetadata.totalTokenCount).toBeGreaterThan(0);
+  });
+
+  it('should answer with the scripted error status and API error body', async () => {
+    const result = await send(`${url}/v1beta/models/gemini-2.0-flash:generateContent`, { body: contents('Fail') });
+
+    expect(result.status).toBe(429);
+    expect(result.json()).toEqual({ error: { code: 429, message: 'Too Many Requests', status: 'RESOURCE_EXHAUSTED' } });
+  });
+
+  it('should count tokens and list models', async () => {
+    const tokens = await send(`${url}/v1beta/models/gemini-2.0-flash:countTokens`, { body: contents('Hello there') });
+    const models = await send(`${url}/v1beta/models`);
+
+    expect(tokens.json().totalTokens).toBeGreaterThan(0);
+    expect(models.json().models).toEqual(expect.arrayContaining([expect.objectContaining({ name: 'models/gemini-2.0-flash' })]));
+  });
+
+  it('should upload files with the resumable protocol and serve get, list and delete', async () => {
+    server.backend.fileStates('PROCESSING', 'ACTIVE');
+
+    const start = await send(`${url}/upload/v1beta/files`, {
+      body: { file: { mimeType: 'text/plain', displayName: 'notes.txt' } },
+      headers: { 'X-Goog-Upload-Protocol': 'resumable', 'X-Goog-Upload-Command': 'start' }
+    });
+    const uploadUrl = start.headers['x-goog-upload-url'] as string;
+    const upload = await send(uploadUrl, { body: 'file contents', headers: { 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': '0' } });
+
+    expect(upload.headers['x-goog-upload-status']).toBe('final');
+    const { file } = upload.json();
+    expect(file).toEqual(expect.objectContaining({ displayName: 'notes.txt', mimeType: 'text/plain', state: 'PROCESSING' }));
+    expect((await send(`${url}/v1beta/${file.name}`)).json().state).toBe('ACTIVE');
+    expect((await send(`${url}/v1beta/files`)).json().files).toHaveLength(1);
+    expect((await send(`${url}/v1beta/${file.name}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await send(`${url}/v1beta/${file.name}`)).status).toBe(404);
+  });
+
+  it('should run long-running video operations in the REST shape', async () => {
+    server.backend.videoOperation({ polls: 2, videos: ['https://example.com/video.mp4'] });
+
+    const operation = (await send(`${url}/v1beta/models/veo-2.0-generate-001:predictLongRunning`, {
+      body: { instances: [{ prompt: 'A cat' }], parameters: { aspectRatio: '16:9' } }
+    })).json();
+    expect(operation.done).toBe(false);
+    expect(server.backend.requestsFor('models.generateVideos')[0]).toEqual(expect.objectContaining({ prompt: 'A cat' }));
+
+    expect((await send(`${url}/v1beta/${operation.name}`)).json().done).toBe(false);
+    expect((await send(`${url}/v1beta/${operation.name}`)).json()).toEqual({
+      name: operation.name,
+      done: true,
+      response: { generateVideoResponse: { generatedSamples: [{ video: { uri: 'https://example.com/video.mp4' }, encoding: 'video/mp4' }] } }
+    });
+  });
+
+  it('should be scriptable over HTTP by another process', async () => {
+    await send(`${url}/_stand-in/reset`, { method: 'POST' });
+    await send(`${url}/_stand-in/fixtures`, { body: { replies: [{ model: 'gemini-2.5-flash', reply: { text: 'Scripted remotely' } }] } });
+
+    const result = await send(`${url}/v1beta/models/gemini-2.5-flash:generateContent`, { body: contents('Hi') });
+    const requests = (await send(`${url}/_stand-in/requests`)).json().requests;
+
+    expect(result.json().candidates[0].content.parts[0].text).toBe('Scripted remotely');
+    expect(requests.map((entry: any) => entry.operation)).toEqual(['models.generateContent']);
+  });
+
+  it('should answer unknown routes with 404', async () => {
+    const result = await send(`${url}/v1beta/tunedModels`);
+
+    expect(result.status).toBe(404);
+    expect(result.json().error.status).toBe('NOT_FOUND');
+  });
+
+  describe('with a GeminiClient', () => {
+    // jest.setup.js replaces fetch and its classes with jest-fetch-mock's; the SDK needs
+    // Node's own, with web streams, taken from the realm that Buffer comes from
+    const nodeGlobals = new (Buffer.constructor as FunctionConstructor)('return globalThis')();
+    const fetchGlobals = ['fetch', 'Headers', 'Request', 'Response'] as const;
+    const mocks = Object.fromEntries(fetchGlobals.map(name => [name, (globalThis as any)[name]]));
+
+    beforeAll(() => {
+      for (const name of fetchGlobals) {
+        (globalThis as any)[name] = nodeGlobals[name];
+      }
+    });
+
+    afterAll(() => {
+      Object.assign(globalThis, mocks);
+    });
+
+    it('should serve generate, stream, upload and listModels through the SDK', async () => {
+      const gemini = new GeminiClient({ apiKey: 'stand-in', apiEndpoint: url, retry: false });
+
+      const response = await gemini.textGeneration.generate('Hi');
+      const streamed = await (await gemini.textGeneration.streamGenerate('Hi')).finalResponse();
+      const file = await gemini.files.upload({ file: new Blob(['file contents'], { type: 'text/plain' }), config: { mimeType: 'text/plain', displayName: 'notes.txt' } });
+      const models = await gemini.listModels();
+
+      expect(response.text).toBe('Hello from the stand-in');
+      expect(streamed.text).toBe('Hello from the stand-in');
+      expect(file).toEqual(expect.objectContaining({ displayName: 'notes.txt', mimeType: 'text/plain', state: 'ACTIVE' }));
+      expect(models.find(model => model.name === 'gemini-2.0-flash')?.supportedGenerationMethods).toEqual(expect.arrayContaining(['generateContent', 'countTokens']));
+    });
+  });
+});
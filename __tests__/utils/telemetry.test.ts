@@ -0,0 +1,204 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import GeminiClient, { TextGenerationService } from '../../src';
+import { __mocks__ as genaiMocks } from '@google/genai';
+import { TelemetryAttributeValue } from '../../src/types';
+
+const { mockGenerateContent, mockGenerateContentStream, mockFilesGet } = genaiMocks;
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: Record<string, TelemetryAttributeValue>;
+  parent?: RecordedSpan;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * In-memory tracer and meter, propagating the active span like the OpenTelemetry context manager
+ */
+const createInMemoryTelemetry = () => {
+  const spans: RecordedSpan[] = [];
+  const metrics: Array<{ name: string; value: number; attributes?: Record<string, TelemetryAttributeValue> }> = [];
+  const active = new AsyncLocalStorage<RecordedSpan>();
+
+  const tracer = {
+    startActiveSpan: (name: string, options: any, fn: (span: any) => any) => {
+      const span: RecordedSpan = { name, kind: options.kind, attributes: { ...options.attributes }, parent: active.getStore(), ended: false };
+      spans.push(span);
+      return active.run(span, () => fn({
+        setAttribute: (key: string, value: TelemetryAttributeValue) => { span.attributes[key] = value; },
+        setStatus: (status: { code: number; message?: string }) => { span.status = status; },
+        recordException: () => undefined,
+        end: () => { span.ended = true; }
+      }));
+    }
+  };
+  const instrument = (name: string) => ({
+    add: (value: number, attributes?: Record<string, TelemetryAttributeValue>) => metrics.push({ name, value, attributes }),
+    record: (value: number, attributes?: Record<string, TelemetryAttributeValue>) => metrics.push({ name, value, attributes })
+  });
+  const meter = { createCounter: instrument, createHistogram: instrument };
+
+  return { tracer, meter, spans, metrics };
+};
+
+describe('telemetry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGenerateContent.mockReset();
+    mockFilesGet.mockReset();
+    mockGenerateContentStream.mockReset();
+  });
+
+  it('should create a span per service call with GenAI attributes', async () => {
+    const telemetry = createInMemoryTelemetry();
+    const client = new GeminiClient({ apiKey: 'mock-api-key', telemetry });
+    mockGenerateContent.mockResolvedValue({
+      text: 'Hi',
+      modelVersion: 'gemini-2.0-flash-001',
+      candidates: [{ finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 7, totalTokenCount: 12 }
+    });
+
+    await client.textGeneration.generate('Hello', { temperature: 0.2 });
+
+    const [serviceSpan, callSpan] = telemetry.spans;
+    expect(serviceSpan).toMatchObject({
+      name: 'textGeneration.generate',
+      ended: true,
+      attributes: {
+        'gen_ai.system': 'gemini',
+        'gen_ai.request.model': 'gemini-2.0-flash',
+        'gen_ai.usage.input_tokens': 5,
+        'gen_ai.usage.output_tokens': 7,
+        'gen_ai.response.finish_reasons': ['STOP']
+      }
+    });
+    expect(callSpan).toMatchObject({
+      name: 'generate_content gemini-2.0-flash',
+      parent: serviceSpan,
+      ended: true,
+      attributes: {
+        'gen_ai.operation.name': 'generate_content',
+        'gen_ai.request.temperature': 0.2,
+        'gen_ai.response.model': 'gemini-2.0-flash-001',
+        'gen_ai.usage.input_tokens': 5
+      }
+    });
+  });
+
+  it('should record request, latency and token metrics', async () => {
+    const telemetry = createInMemoryTelemetry();
+    const client = new GeminiClient({ apiKey: 'mock-api-key', telemetry: { meter: telemetry.meter } });
+    mockGenerateContent.mockResolvedValue({ text: 'Hi', usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 7 } });
+
+    await client.textGeneration.generate('Hello');
+
+    const names = telemetry.metrics.map(metric => metric.name);
+    expect(names).toEqual(expect.arrayContaining([
+      'gen_ai.client.requests',
+      'gen_ai.client.operation.duration',
+      'gen_ai.client.token.usage'
+    ]));
+    expect(telemetry.metrics).toContainEqual({
+      name: 'gen_ai.client.tokens',
+      value: 7,
+      attributes: expect.objectContaining({ 'gen_ai.token.type': 'output', 'gen_ai.request.model': 'gemini-2.0-flash' })
+    });
+  });
+
+  it('should give each polling request a child span', async () => {
+    const telemetry = createInMemoryTelemetry();
+    const client = new GeminiClient({ apiKey: 'mock-api-key', telemetry });
+    mockFilesGet
+      .mockResolvedValueOnce({ name: 'files/abc', state: 'PROCESSING' })
+      .mockResolvedValueOnce({ name: 'files/abc', state: 'ACTIVE' });
+
+    await client.files.waitForFileState('files/abc', 'ACTIVE', 5, 1);
+
+    const pollSpan = telemetry.spans.find(span => span.name === 'files.waitForFileState');
+    const polls = telemetry.spans.filter(span => span.parent === pollSpan);
+    expect(polls).toHaveLength(2);
+    expect(polls.every(poll => poll.name === 'files.get' && poll.ended)).toBe(true);
+  });
+
+  it('should mark failed calls with the error type', async () => {
+    const telemetry = createInMemoryTelemetry();
+    const client = new GeminiClient({ apiKey: 'mock-api-key', retry: false, telemetry });
+    mockGenerateContent.mockRejectedValue(new Error('got status: 400 Bad Request. {}'));
+
+    await expect(client.textGeneration.generate('Hello')).rejects.toThrow('400');
+
+    expect(telemetry.spans).toHaveLength(2);
+    for (const span of telemetry.spans) {
+      expect(span.status).toEqual(expect.objectContaining({ code: 2 }));
+      expect(span.attributes['error.type']).toBe('400');
+    }
+    expect(telemetry.metrics).toContainEqual(expect.objectContaining({
+      name: 'gen_ai.client.requests',
+      attributes: expect.objectContaining({ 'error.type': '400' })
+    }));
+  });
+
+  it('should trace public API methods only', async () => {
+    const telemetry = createInMemoryTelemetry();
+    const client = new GeminiClient({ apiKey: 'mock-api-key', telemetry });
+    mockGenerateContent
+      .mockResolvedValueOnce({ text: 'Once upon', candidates: [{ finishReason: 'MAX_TOKENS', content: { parts: [{ text: 'Once upon' }] } }] })
+      .mockResolvedValueOnce({ text: ' a time', candidates: [{ finishReason: 'STOP', content: { parts: [{ text: ' a time' }] } }] });
+
+    client.files.createPartFromUri('files/abc', 'text/plain');
+    client.chat.createChat();
+    await client.textGeneration.generate('Tell a story', { continuation: { maxRounds: 1 } });
+
+    expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    expect(telemetry.spans.filter(span => span.kind === 0).map(span => span.name)).toEqual(['textGeneration.generate']);
+  });
+
+  it('should trace methods that return a promise without being async', async () => {
+    const generate = jest.spyOn(TextGenerationService.prototype, 'generate')
+      .mockImplementation(() => Promise.resolve({ text: 'Hi' }));
+    try {
+      const telemetry = createInMemoryTelemetry();
+      const client = new GeminiClient({ apiKey: 'mock-api-key', telemetry });
+
+      const pending = client.textGeneration.generate('Hello');
+      expect(telemetry.spans).toMatchObject([{ name: 'textGeneration.generate', ended: false }]);
+      await pending;
+
+      expect(telemetry.spans).toMatchObject([{ name: 'textGeneration.generate', ended: true }]);
+    } finally {
+      generate.mockRestore();
+    }
+  });
+
+  it('should end a stream span once the stream has been read', async () => {
+    const telemetry = createInMemoryTelemetry();
+    const client = new GeminiClient({ apiKey: 'mock-api-key', telemetry });
+    mockGenerateContentStream.mockResolvedValue((async function* () {
+      yield { text: 'Hello', candidates: [{ content: { parts: [{ text: 'Hello' }] } }] };
+      yield {
+        text: ' world',
+        candidates: [{ content: { parts: [{ text: ' world' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 3, candidatesTokenCount: 2 }
+      };
+    })());
+
+    const stream = await client.textGeneration.streamGenerate('Hello');
+    const serviceSpan = telemetry.spans.find(span => span.name === 'textGeneration.streamGenerate');
+    expect(serviceSpan?.ended).toBe(false);
+
+    await stream.finalResponse();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(serviceSpan).toMatchObject({
+      ended: true,
+      attributes: {
+        'gen_ai.usage.input_tokens': 3,
+        'gen_ai.usage.output_tokens': 2,
+        'gen_ai.response.finish_reasons': ['STOP']
+      }
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import { estimateRequestTokens, estimateTokensLocally } from '../../src/utils/tokenEstimator';
+
+const inline = (mimeType: string, bytes: Buffer) => ({ inlineData: { mimeType, data: bytes.toString('base64') } });
+
+function png(width: number, height: number): Buffer {
+  const header = Buffer.alloc(24);
+  Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex').copy(header);
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+}
+
+function jpeg(width: number, height: number): Buffer {
+  const app0 = Buffer.concat([Buffer.from([0xff, 0xe0, 0x00, 0x10]), Buffer.from('JFIF\0', 'latin1'), Buffer.alloc(9)]);
+  const sof = Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff]);
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof, Buffer.alloc(8)]);
+}
+
+function wav(seconds: number, byteRate: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'latin1');
+  header.write('WAVE', 8, 'latin1');
+  header.write('fmt ', 12, 'latin1');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt32LE(byteRate, 28);
+  header.write('data', 36, 'latin1');
+  header.writeUInt32LE(seconds * byteRate, 40);
+  return Buffer.concat([header, Buffer.alloc(seconds * byteRate)]);
+}
+
+describe('estimateTokensLocally', () => {
+  it('should count about 4 characters per token, and one token per CJK character', () => {
+    expect(estimateTokensLocally('Hello world!').totalTokens).toBe(3);
+    expect(estimateTokensLocally('你好世界').totalTokens).toBe(4);
+    expect(estimateTokensLocally([
+      { role: 'user', parts: [{ text: 'Hi my name is Bob' }] },
+      { role: 'model', parts: [{ text: 'Hi Bob!' }] }
+    ]).totalTokens).toBe(7);
+  });
+
+  it('should count images per 768x768 tile, read from their headers', () => {
+    expect(estimateTokensLocally([inline('image/png', png(300, 200))])).toEqual({ totalTokens: 258, unsizedParts: 0 });
+    expect(estimateTokensLocally([inline('image/png', png(1000, 500))]).totalTokens).toBe(2 * 258);
+    expect(estimateTokensLocally([inline('image/jpeg', jpeg(1600, 1600))]).totalTokens).toBe(9 * 258);
+    expect(estimateTokensLocally([{ fileData: { mimeType: 'image/png', fileUri: 'files/abc' } }])).toEqual({ totalTokens: 258, unsizedParts: 1 });
+  });
+
+  it('should count audio and video per second', () => {
+    expect(estimateTokensLocally([inline('audio/wav', wav(10, 100))])).toEqual({ totalTokens: 320, unsizedParts: 0 });
+    expect(estimateTokensLocally([{
+      fileData: { mimeType: 'video/mp4', fileUri: 'files/abc' },
+      videoMetadata: { startOffset: '10s', endOffset: '40s' }
+    }])).toEqual({ totalTokens: 30 * 263, unsizedParts: 0 });
+    expect(estimateTokensLocally([{ fileData: { mimeType: 'audio/mpeg', fileUri: 'files/abc' } }])).toEqual({ totalTokens: 0, unsizedParts: 1 });
+  });
+
+  it('should count PDFs per page', () => {
+    const pdf = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Pages /Count 2 >>\n2 0 obj << /Type /Page >>\n3 0 obj <</Type/Page/Parent 1 0 R>>', 'latin1');
+
+    expect(estimateTokensLocally([{ text: 'Summarize' }, inline('application/pdf', pdf)]).totalTokens).toBe(3 + 2 * 258);
+  });
+
+  it('should include the system instruction of a request', () => {
+    expect(estimateRequestTokens({ contents: 'Hello world!', config: { systemInstruction: 'Be brief' } })).toBe(5);
+  });
+});
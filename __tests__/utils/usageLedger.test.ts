@@ -0,0 +1,118 @@
+import { UsageLedger } from '../../src/utils/usageLedger';
+import { MockGeminiClient } from '../../src/utils/mockGemini';
+
+const usage = (promptTokenCount: number, candidatesTokenCount: number, extra: Record<string, number> = {}) => ({
+  promptTokenCount,
+  candidatesTokenCount,
+  totalTokenCount: promptTokenCount + candidatesTokenCount + (extra.thoughtsTokenCount ?? 0),
+  ...extra
+});
+
+describe('UsageLedger', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should price prompt, cached, candidate and thinking tokens', () => {
+    const ledger = new UsageLedger({ prices: { 'custom-model': { input: 2, output: 8, thinking: 16, cachedInput: 1 } } });
+
+    const entry = ledger.record(
+      { service: 'textGeneration', operation: 'models.generateContent', model: 'models/custom-model' },
+      usage(1000, 500, { thoughtsTokenCount: 250, cachedContentTokenCount: 400 })
+    );
+
+    expect(entry).toEqual(expect.objectContaining({
+      model: 'custom-model',
+      promptTokens: 1000,
+      candidatesTokens: 500,
+      thinkingTokens: 250,
+      cachedTokens: 400,
+      totalTokens: 1750
+    }));
+    // 600 * 2 + 400 * 1 + 500 * 8 + 250 * 16 per million tokens
+    expect(entry.cost).toBeCloseTo(0.0096, 10);
+  });
+
+  it('should use the longest matching price prefix and leave unknown models unpriced', () => {
+    const ledger = new UsageLedger();
+
+    expect(ledger.priceOf('gemini-2.0-flash-lite-001')).toEqual({ input: 0.075, output: 0.3 });
+    expect(ledger.priceOf('gemini-2.0-flash-001')?.input).toBe(0.1);
+    const entry = ledger.record({ service: 'chat', operation: 'models.generateContent', model: 'my-tuned-model' }, usage(10, 5));
+    expect(entry.cost).toBeUndefined();
+    expect(ledger.total()).toEqual(expect.objectContaining({ calls: 1, totalTokens: 15, cost: 0, unpricedCalls: 1 }));
+  });
+
+  it('should summarize per period and group, within a time range', () => {
+    jest.useFakeTimers();
+    const ledger = new UsageLedger({ prices: { model: { input: 1, output: 1 } } });
+    const record = (time: string, label: string, tokens: number) => {
+      jest.setSystemTime(new Date(time));
+      ledger.record({ service: 'textGeneration', operation: 'models.generateContent', model: 'model', label }, usage(tokens, 0));
+    };
+    record('2025-06-01T10:00:00Z', 'tenant-a', 100);
+    record('2025-06-01T12:00:00Z', 'tenant-b', 200);
+    record('2025-06-01T23:00:00Z', 'tenant-a', 300);
+    record('2025-06-02T09:00:00Z', 'tenant-a', 400);
+
+    const rows = ledger.summarize({ period: 'day', groupBy: ['label'] });
+
+    expect(rows.map(({ period, label, calls, promptTokens }) => ({ period, label, calls, promptTokens }))).toEqual([
+      { period: '2025-06-01', label: 'tenant-a', calls: 2, promptTokens: 400 },
+      { period: '2025-06-01', label: 'tenant-b', calls: 1, promptTokens: 200 },
+      { period: '2025-06-02', label: 'tenant-a', calls: 1, promptTokens: 400 }
+    ]);
+    expect(rows[0].cost).toBeCloseTo(0.0004, 10);
+    expect(ledger.summarize({ period: 'month' })).toEqual([expect.objectContaining({ period: '2025-06', calls: 4 })]);
+    expect(ledger.total({ since: '2025-06-01T11:00:00Z', until: new Date('2025-06-02T00:00:00Z'), label: 'tenant-a' }).promptTokens).toBe(300);
+  });
+
+  it('should export entries as JSON and CSV', () => {
+    const ledger = new UsageLedger();
+    ledger.record({ service: 'chat', operation: 'models.generateContent', model: 'gemini-2.0-flash', label: 'support, "beta"' }, usage(10, 5));
+
+    const [entry] = JSON.parse(JSON.stringify(ledger));
+    expect(entry).toEqual(expect.objectContaining({ service: 'chat', label: 'support, "beta"', totalTokens: 15 }));
+
+    const [header, row] = ledger.toCSV().trim().split('\n');
+    expect(header).toBe('timestamp,service,operation,model,label,promptTokens,candidatesTokens,thinkingTokens,cachedTokens,totalTokens,cost');
+    expect(row).toBe(`${entry.timestamp},chat,models.generateContent,gemini-2.0-flash,"support, ""beta""",10,5,0,0,15,${entry.cost}`);
+  });
+
+  it('should keep the most recent entries and report each one', () => {
+    const onEntry = jest.fn();
+    const ledger = new UsageLedger({ maxEntries: 2, onEntry });
+
+    for (const tokens of [1, 2, 3]) {
+      ledger.record({ service: 'chat', operation: 'models.generateContent', model: 'gemini-2.0-flash' }, usage(tokens, 0));
+    }
+
+    expect(ledger.entries().map(entry => entry.promptTokens)).toEqual([2, 3]);
+    expect(onEntry).toHaveBeenCalledTimes(3);
+    ledger.clear();
+    expect(ledger.entries()).toEqual([]);
+  });
+});
+
+describe('GeminiClient usage', () => {
+  it('should record every call reaching the API, tagged with the service, model and label', async () => {
+    const gemini = new MockGeminiClient({ cache: true });
+    gemini.backend.reply({}, {
+      text: 'Hello',
+      chunks: ['Hel', 'lo'],
+      usage: { promptTokenCount: 4, candidatesTokenCount: 2, thoughtsTokenCount: 3, totalTokenCount: 9 }
+    });
+
+    await gemini.textGeneration.generate('Hi', { temperature: 0 });
+    await gemini.textGeneration.generate('Hi', { temperature: 0 }); // served from the cache
+    const stream = await gemini.usage.withLabel('tenant-42', () => gemini.chat.createChat().sendMessageStream('Hi'));
+    await stream.finalResponse();
+
+    expect(gemini.usage.entries()).toEqual([
+      expect.objectContaining({ service: 'textGeneration', operation: 'models.generateContent', model: 'gemini-2.0-flash', thinkingTokens: 3 }),
+      expect.objectContaining({ service: 'chat', operation: 'models.generateContentStream', label: 'tenant-42', totalTokens: 9 })
+    ]);
+    expect(gemini.usage.entries()[0].label).toBeUndefined();
+    expect(gemini.usage.total().cost).toBeGreaterThan(0);
+  });
+});
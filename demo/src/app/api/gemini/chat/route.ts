@@ -1,5 +1,6 @@
 export const runtime = "nodejs";
-import GeminiClient from 'gemini-nexus';
+import { toServerSentEvents } from 'gemini-nexus';
+import { createGeminiClient } from '@/lib/gemini';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(req: NextRequest) {
@@ -8,11 +9,15 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Missing apiKey or message' }, { status: 400 });
   }
   try {
-    const gemini = new GeminiClient(apiKey);
+    const gemini = createGeminiClient(apiKey);
     // Use the new createChat signature with options for history
     const chat = gemini.chat.createChat(undefined, { history });
-    const reply = await chat.sendMessage(message);
-    return NextResponse.json({ text: reply.text, history: chat.getHistory() });
+    const stream = await chat.sendMessageStream(message, { signal: req.signal });
+    // The session records the reply once the stream ends
+    return toServerSentEvents(stream, {
+      signal: req.signal,
+      done: response => ({ text: response.text, usageMetadata: response.usageMetadata, history: chat.getHistory() }),
+    });
   } catch (error: any) {
     return NextResponse.json({ error: error.message || 'Unknown error' }, { status: 500 });
   }
@@ -1,5 +1,5 @@
 export const runtime = "nodejs";
-import GeminiClient from 'gemini-nexus';
+import { createGeminiClient } from '@/lib/gemini';
 import { NextRequest, NextResponse } from 'next/server';
 
 
@@ -14,7 +14,7 @@ export async function POST(req: NextRequest) {
       if (!apiKey || !file) {
         return NextResponse.json({ error: 'Missing apiKey or file' }, { status: 400 });
       }
-      const gemini = new GeminiClient(apiKey.toString());
+      const gemini = createGeminiClient(apiKey.toString());
       // file is a File object (from FormData)
       if (!(file instanceof File)) {
         return NextResponse.json({ error: 'Uploaded value is not a file' }, { status: 400 });
@@ -27,7 +27,7 @@ export async function POST(req: NextRequest) {
       if (!apiKey || action !== 'list') {
         return NextResponse.json({ error: 'Missing apiKey or invalid action' }, { status: 400 });
       }
-      const gemini = new GeminiClient(apiKey);
+      const gemini = createGeminiClient(apiKey);
       const files = await gemini.files.list();
       return NextResponse.json(files);
     }
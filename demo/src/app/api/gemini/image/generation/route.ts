@@ -1,5 +1,5 @@
 export const runtime = "nodejs";
-import GeminiClient from 'gemini-nexus';
+import { createGeminiClient } from '@/lib/gemini';
 import { NextRequest, NextResponse } from 'next/server';
 import path from 'path';
 import fs from 'fs/promises';
@@ -10,7 +10,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Missing apiKey or prompt' }, { status: 400 });
   }
   try {
-    const gemini = new GeminiClient(apiKey);
+    const gemini = createGeminiClient(apiKey);
 
     // Generate a unique output path in a temp directory
     const outputDir = path.join(process.cwd(), 'tmp');
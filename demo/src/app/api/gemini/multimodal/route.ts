@@ -1,5 +1,5 @@
 export const runtime = "nodejs";
-import GeminiClient from 'gemini-nexus';
+import { createGeminiClient } from '@/lib/gemini';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(req: NextRequest) {
@@ -8,7 +8,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Missing apiKey, fileName, or prompt' }, { status: 400 });
   }
   try {
-    const gemini = new GeminiClient(apiKey);
+    const gemini = createGeminiClient(apiKey);
     const file = await gemini.files.get(fileName);
     if (!file || !file.uri || !file.mimeType) {
       return NextResponse.json({ error: 'File not found or incomplete metadata' }, { status: 400 });
@@ -1,5 +1,6 @@
 export const runtime = "nodejs";
-import GeminiClient from 'gemini-nexus';
+import { toServerSentEvents } from 'gemini-nexus';
+import { createGeminiClient } from '@/lib/gemini';
 import { NextRequest, NextResponse } from 'next/server';
 
 export async function POST(req: NextRequest) {
@@ -8,9 +9,9 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Missing apiKey or prompt' }, { status: 400 });
   }
   try {
-    const gemini = new GeminiClient(apiKey);
-    const result = await gemini.textGeneration.generateAuto(prompt);
-    return NextResponse.json({ text: result.text });
+    const gemini = createGeminiClient(apiKey);
+    const stream = await gemini.textGeneration.streamGenerate(prompt, { signal: req.signal });
+    return toServerSentEvents(stream, { signal: req.signal });
   } catch (error: any) {
     return NextResponse.json({ error: error.message || 'Unknown error' }, { status: 500 });
   }
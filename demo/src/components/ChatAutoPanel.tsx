@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from 'react';
+import { readServerSentEvents } from '@/lib/sse';
 
 interface ChatMessage {
   role: string;
@@ -22,22 +23,31 @@ export function ChatAutoPanel({ apiKey }: { apiKey: string }) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ apiKey, message, history }),
     });
-    const data = await res.json();
-    setLoading(false);
-    if (data.text) {
-      setHistory([
-        ...history,
-        { role: 'user', parts: [{ text: message }] },
-        { role: 'model', parts: [{ text: data.text }] },
-      ]);
-      setMessage('');
+    if (!res.ok) {
+      setLoading(false);
+      return;
     }
+    const turn = [...history, { role: 'user', parts: [{ text: message }] }];
+    setMessage('');
+    let text = '';
+    for await (const { event, data } of readServerSentEvents(res)) {
+      if (event === 'text-delta') {
+        text += data.text;
+        setHistory([...turn, { role: 'model', parts: [{ text }] }]);
+      } else if (event === 'done') {
+        setHistory(data.history);
+      } else if (event === 'error') {
+        setHistory(history);
+        setMessage(message);
+      }
+    }
+    setLoading(false);
   };
 
   return (
     <div>
       <div className="mb-2 text-sm text-gray-500">
-        Method: <code>gemini.chat.createChat().sendMessage(message)</code>
+        Method: <code>gemini.chat.createChat().sendMessageStream(message)</code>
       </div>
       <div className="mb-2 h-48 overflow-y-auto bg-gray-50 p-2 rounded border">
         {history.length === 0 && <div className="text-gray-400">No messages yet.</div>}
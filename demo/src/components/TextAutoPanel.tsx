@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from 'react';
+import { readServerSentEvents } from '@/lib/sse';
 
 export function TextAutoPanel({ apiKey }: { apiKey: string }) {
   const [prompt, setPrompt] = useState('');
@@ -15,15 +16,31 @@ export function TextAutoPanel({ apiKey }: { apiKey: string }) {
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ apiKey, prompt }),
     });
-    const data = await res.json();
+    if (!res.ok) {
+      const data = await res.json();
+      setLoading(false);
+      setResponse(data.error || 'No response');
+      return;
+    }
+    let text = '';
+    for await (const { event, data } of readServerSentEvents(res)) {
+      if (event === 'text-delta') {
+        text += data.text;
+        setResponse(text);
+      } else if (event === 'error') {
+        setResponse(data.message);
+      }
+    }
     setLoading(false);
-    setResponse(data.text || data.error || 'No response');
+    if (!text) {
+      setResponse(current => current || 'No response');
+    }
   };
 
   return (
     <div>
       <div className="mb-2 text-sm text-gray-500">
-        Method: <code>gemini.textGeneration.generateAuto(prompt)</code>
+        Method: <code>gemini.textGeneration.streamGenerate(prompt)</code>
       </div>
       <textarea
         className="w-full border rounded p-2 mb-2"
@@ -38,7 +55,7 @@ export function TextAutoPanel({ apiKey }: { apiKey: string }) {
       >
         {loading ? 'Loading...' : 'Send'}
       </button>
-      <div className="mt-4 bg-gray-100 p-2 rounded min-h-[60px]">
+      <div className="mt-4 bg-gray-100 p-2 rounded min-h-[60px] whitespace-pre-wrap">
         {response}
       </div>
     </div>
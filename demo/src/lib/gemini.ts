@@ -0,0 +1,11 @@
+import GeminiClient from 'gemini-nexus';
+
+/**
+ * Create the client used by an API route
+ *
+ * Set `GEMINI_API_ENDPOINT` (e.g. `http://127.0.0.1:8080` with `npx gemini-nexus-stand-in`)
+ * to send the demo's calls to a local stand-in instead of the Gemini API.
+ */
+export function createGeminiClient(apiKey: string): GeminiClient {
+  return new GeminiClient({ apiKey, apiEndpoint: process.env.GEMINI_API_ENDPOINT || undefined });
+}
@@ -0,0 +1,39 @@
+export interface ServerSentEvent {
+  event: string;
+  data: any;
+}
+
+/**
+ * Read the events of a `text/event-stream` response as they arrive
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) {
+    return;
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    buffer += decoder.decode(result.value, { stream: true });
+    let end = buffer.indexOf('\n\n');
+    while (end !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      end = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        // Lines starting with ':' are heartbeats
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+      if (data.length > 0) {
+        yield { event, data: JSON.parse(data.join('\n')) };
+      }
+    }
+  }
+}
@@ -160,17 +160,12 @@ async function main() {
       console.log('Image file is now ready:', processedFile.state);
     }
     
-    // Create the multimodal prompt
-    const userContent = gemini.files.createUserContent([
-      gemini.files.createPartFromUri(imageFile.uri, imageFile.mimeType),
-      "Describe this image in detail."
-    ]);
-    
     // Generate content with the multimodal prompt
-    const response = await gemini.models.generateContent({
-      model: "gemini-2.0-flash",
-      contents: userContent
-    });
+    const response = await gemini.documentUnderstanding.processDocument(
+      "Describe this image in detail.",
+      gemini.files.createPartFromUri(imageFile.uri, imageFile.mimeType),
+      { model: "gemini-2.0-flash" }
+    );
     
     console.log('\nImage Description:');
     console.log(response.text);
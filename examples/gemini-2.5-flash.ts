@@ -233,24 +233,19 @@ async function main() {
     const processedFile = await gemini.files.waitForFileState(textFile.name);
     const filePart = gemini.files.createPartFromUri(processedFile.uri, processedFile.mimeType);
     
-    // Create user content
-    const userContent = gemini.files.createUserContent([
-      filePart,
-      "Create a comprehensive study guide based on this text. Include key concepts, examples, and practice questions."
-    ]);
-    
     // Generate response
-    const fileResponse = await gemini.models.generateContent({
-      model: "gemini-2.5-flash-preview-04-17",
-      contents: userContent,
-      generationConfig: {
+    const fileResponse = await gemini.documentUnderstanding.processDocument(
+      "Create a comprehensive study guide based on this text. Include key concepts, examples, and practice questions.",
+      filePart,
+      {
+        model: "gemini-2.5-flash-preview-04-17",
         temperature: 0.2,
         thinkingConfig: { thinkingBudget: 2000 }
       }
-    });
+    );
     
     console.log("File Processing Response:");
-    console.log(fileResponse.response.text());
+    console.log(fileResponse.text);
     
     await waitForConfirmation('Example 5 completed.');
 
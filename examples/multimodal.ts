@@ -60,8 +60,10 @@ async function streamingImageGeneration() {
       }
     );
     
-    for await (const chunk of stream) {
-      process.stdout.write(chunk.text);
+    for await (const event of stream) {
+      if (event.type === 'text-delta') {
+        process.stdout.write(event.text);
+      }
     }
     console.log('\n');
   } catch (error) {
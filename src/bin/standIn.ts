@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import { GeminiStandInServer, StandInFixtures } from '../utils/standInServer';
+
+const USAGE = `Usage: gemini-nexus-stand-in [options]
+
+Start a local HTTP server speaking the Gemini REST API.
+
+Options:
+  -p, --port <port>      Port to listen on (default: 8080)
+  -H, --host <host>      Interface to listen on (default: 127.0.0.1)
+  -f, --fixtures <path>  JSON file with scripted replies, file states and video operations
+  -h, --help             Show this help
+
+Point a client at it with: new GeminiClient({ apiKey: 'stand-in', apiEndpoint: 'http://127.0.0.1:8080' })`;
+
+interface CliOptions {
+  port: number;
+  host: string;
+  fixtures?: string;
+}
+
+function parseArgs(args: string[]): CliOptions | undefined {
+  const options: CliOptions = { port: 8080, host: '127.0.0.1' };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const value = () => {
+      const next = args[++index];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return next;
+    };
+    switch (arg) {
+      case '-p':
+      case '--port':
+        options.port = Number(value());
+        if (!Number.isInteger(options.port) || options.port < 0) {
+          throw new Error(`Invalid port: ${args[index]}`);
+        }
+        break;
+      case '-H':
+      case '--host':
+        options.host = value();
+        break;
+      case '-f':
+      case '--fixtures':
+        options.fixtures = value();
+        break;
+      case '-h':
+      case '--help':
+        return undefined;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+  return options;
+}
+
+async function main(): Promise<void> {
+  let options: CliOptions | undefined;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return;
+  }
+
+  const fixtures: StandInFixtures | undefined = options.fixtures
+    ? JSON.parse(fs.readFileSync(options.fixtures, 'utf8'))
+    : undefined;
+  const server = new GeminiStandInServer({ port: options.port, host: options.host, fixtures });
+  const url = await server.start();
+  console.log(`Gemini stand-in listening on ${url}`);
+
+  const stop = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
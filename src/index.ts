@@ -9,6 +9,21 @@ export { GeminiClient as default } from './services/client';
 // Export utility types and enums
 export * from './utils/config';
 export * from './types';
+export { withRetry, isRetryableError, DEFAULT_RETRY_POLICY } from './utils/retry';
+export * from './utils/errors';
+export { RateLimiter } from './utils/rateLimiter';
+export { MemoryCacheStore, FileCacheStore, getCacheKey } from './utils/cache';
+export { Cassette, CassetteInteraction } from './utils/cassette';
+export { UsageLedger } from './utils/usageLedger';
+export { BudgetGuard } from './utils/budgets';
+export { estimateTokensLocally, TokenEstimate } from './utils/tokenEstimator';
+export { MockGeminiClient, FakeGeminiBackend, MockMatcher, MockReply, MockRequest, MockOperation, MockVideoOperation } from './utils/mockGemini';
+export { GeminiStandInServer, StandInServerOptions, StandInFixtures, StandInReplyFixture } from './utils/standInServer';
+export { createLogger, redact } from './utils/logger';
+export { ModelRegistry, isComplexPrompt } from './utils/modelRegistry';
+export { ModelRouter, isFallbackError } from './utils/modelRouter';
+export { GeminiStream, StreamDestination } from './utils/geminiStream';
+export { toServerSentEvents, serverSentEventStream, formatServerSentEvent, ServerSentEventsOptions } from './utils/sse';
 
 // Export service interfaces - only include what should be public
 export { TextGenerationService } from './services/textGeneration';
@@ -1,10 +1,18 @@
 import { 
   GenerationConfig, 
   GenerationResponse, 
-  AudioTranscriptionResponse
+  AudioTranscriptionResponse,
+  RequestOptions,
+  ServiceTransport
 } from '../types';
 import * as fs from 'fs';
-import { GoogleGenAI } from "@google/genai";
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for audio understanding with Gemini models
@@ -13,11 +21,13 @@ import { GoogleGenAI } from "@google/genai";
  * summarization, and answering questions about audio content.
  */
 export class AudioUnderstandingService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -43,20 +53,65 @@ export class AudioUnderstandingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
       const audioBuffer = fs.readFileSync(audioPath);
       const base64Audio = audioBuffer.toString('base64');
       const contents = [
         { inlineData: { mimeType: 'audio/mpeg', data: base64Audio } },
         { text: prompt }
       ];
-      const response = await ai.models.generateContent({
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config)
+      );
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'audioUnderstanding',
+        method: 'analyzeAudio',
         model: config?.model || this.defaultModel,
-        contents,
+        message: 'Audio analysis failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream the analysis of an audio with a custom prompt
+   * 
+   * @param audioPath - Path to the audio file
+   * @param prompt - Custom prompt for analyzing the audio
+   * @param config - Generation configuration options
+   * @returns Stream of text and usage events
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.audioUnderstanding.streamAnalyzeAudio("/path/to/audio.mp3", "Describe this audio");
+   * await stream.pipe(process.stdout);
+   * ```
+   */
+  async streamAnalyzeAudio(
+    audioPath: string,
+    prompt: string,
+    config?: GenerationConfig
+  ): Promise<GeminiStream> {
+    try {
+      const data = fs.readFileSync(audioPath).toString('base64');
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ inlineData: { mimeType: 'audio/mpeg', data } }, { text: prompt }], config)
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'audioUnderstanding',
+        method: 'streamAnalyzeAudio',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
       });
-      return { text: response.text ?? '', raw: response };
     } catch (error) {
-      throw new Error(`Audio analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'audioUnderstanding',
+        method: 'streamAnalyzeAudio',
+        model: config?.model || this.defaultModel,
+        message: 'Audio analysis stream failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -77,10 +132,12 @@ export class AudioUnderstandingService {
     prompt: string,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
-    const isComplex = prompt.length > 300 || /\b(transcribe|detailed|analyze|summarize|qa|question)\b/i.test(prompt);
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    const response = await this.analyzeAudio(audioPath, prompt, { ...config, model });
-    return { text: response.text ?? '', raw: response };
+    const { response, model } = await this.router.route(
+      'audioUnderstanding',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.analyzeAudio(audioPath, prompt, { ...config, model })
+    );
+    return { text: response.text ?? '', model, ...getSafetyInfo(response), ...getCandidates(response), raw: response };
   }
 
   /**
@@ -118,7 +175,12 @@ export class AudioUnderstandingService {
         raw: response.raw
       };
     } catch (error) {
-      throw new Error(`Audio transcription failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'audioUnderstanding',
+        method: 'transcribeAudio',
+        message: 'Audio transcription failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -154,7 +216,12 @@ export class AudioUnderstandingService {
         config
       );
     } catch (error) {
-      throw new Error(`Audio section transcription failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'audioUnderstanding',
+        method: 'transcribeSection',
+        message: 'Audio section transcription failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -187,7 +254,12 @@ export class AudioUnderstandingService {
         config
       );
     } catch (error) {
-      throw new Error(`Audio question answering failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'audioUnderstanding',
+        method: 'askQuestion',
+        message: 'Audio question answering failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -195,6 +267,7 @@ export class AudioUnderstandingService {
    * Get the number of tokens in an audio file
    * 
    * @param audioPath - Path to the audio file
+   * @param options - Optional request options (e.g. abort signal)
    * @returns Promise with the token count
    * 
    * @example
@@ -205,8 +278,8 @@ export class AudioUnderstandingService {
    * console.log(`Audio contains ${tokenCount} tokens`);
    * ```
    */
-  async countTokens(audioPath: string): Promise<number> {
-    const response = await this.analyzeAudio(audioPath, "Count the number of tokens in this audio file.");
+  async countTokens(audioPath: string, options?: RequestOptions): Promise<number> {
+    const response = await this.analyzeAudio(audioPath, "Count the number of tokens in this audio file.", options);
     return response.text.length;
   }
 }
\ No newline at end of file
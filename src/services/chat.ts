@@ -1,60 +1,107 @@
-import { GoogleGenAI } from "@google/genai";
 import { 
   ChatMessage, 
   GenerationConfig, 
   GenerationResponse, 
-  FunctionDeclaration
+  FunctionDeclaration,
+  RequestOptions,
+  ServiceTransport
 } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { getCandidates, toRequestConfig } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
+import { continueResponse } from '../utils/continuation';
 
 /**
  * Service for multi-turn chat conversations with Gemini models
  */
 export class ChatService {
-  private client: any;
+  private client: ServiceTransport;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport) {
     this.client = client;
   }
 
   /**
    * Create a new chat session
    * 
-   * @param config - Generation configuration options
+   * @param config - Generation configuration options (applies to every turn)
    * @param options - Additional options (e.g., initial chat history)
-   * @returns Chat session object
+   * @returns Chat session object; `sendMessage` and `sendMessageStream` (which returns a `GeminiStream`) accept an optional `{ signal }`
    * 
    * @example
    * ```typescript
    * const chat = gemini.chat.createChat(undefined, { history: myHistory });
    * const response1 = await chat.sendMessage("Hello");
    * console.log(response1.text);
+   * 
+   * // Cancel a single turn
+   * const controller = new AbortController();
+   * const response2 = await chat.sendMessage("Tell me a long story", { signal: controller.signal });
    * ```
    */
   createChat(config?: GenerationConfig, options?: { history?: ChatMessage[] }) {
-    const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-    const chat = ai.chats.create({
+    const chat = this.client.chats.create({
       model: config?.model || this.defaultModel,
       history: options?.history || [],
+      // The signal is given per turn, since a turn may bring its own
+      config: toRequestConfig(config, { abortSignal: undefined }),
     });
     return {
-      sendMessage: async (message: string) => {
+      sendMessage: async (message: string, requestOptions?: RequestOptions) => {
+        const signal = requestOptions?.signal ?? config?.signal;
         try {
-          const response = await chat.sendMessage({ message });
-          return { text: response.text ?? '', raw: response };
+          const messageConfig = signal && { config: { abortSignal: signal } };
+          const response = await chat.sendMessage({ message, ...messageConfig });
+          if (config?.continuation) {
+            // The follow-up turns stay in the history, after the truncated answer they complete
+            return await continueResponse(
+              response,
+              (_answer, followUp, maxOutputTokens) => chat.sendMessage({
+                message: followUp,
+                config: { ...messageConfig?.config, ...(maxOutputTokens !== undefined && { maxOutputTokens }) },
+              }),
+              config
+            );
+          }
+          return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
         } catch (error) {
-          throw new Error(`Failed to send message: ${error instanceof Error ? error.message : String(error)}`);
+          throw toGeminiError(error, {
+            service: 'chat',
+            method: 'sendMessage',
+            model: config?.model || this.defaultModel,
+            message: 'Failed to send message',
+            signal
+          });
         }
       },
-      sendMessageStream: async (message: string) => {
+      sendMessageStream: async (message: string, requestOptions?: RequestOptions): Promise<GeminiStream> => {
+        const signal = requestOptions?.signal ?? config?.signal;
         try {
-          const stream = await chat.sendMessageStream({ message });
-          return stream;
+          const stream = await chat.sendMessageStream({
+            message,
+            ...(signal && { config: { abortSignal: signal } }),
+          });
+          return new GeminiStream(abortableIterable(stream, signal), {
+            service: 'chat',
+            method: 'sendMessageStream',
+            model: config?.model || this.defaultModel,
+            signal
+          });
         } catch (error) {
-          throw new Error(`Failed to stream message: ${error instanceof Error ? error.message : String(error)}`);
+          throw toGeminiError(error, {
+            service: 'chat',
+            method: 'sendMessageStream',
+            model: config?.model || this.defaultModel,
+            message: 'Failed to stream message',
+            signal
+          });
         }
       },
       getHistory: () => chat.getHistory(),
+      getConfig: () => chat.getConfig(),
     };
   }
 
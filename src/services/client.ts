@@ -14,14 +14,42 @@ import { AudioUnderstandingService } from './audioUnderstanding';
 import { CodeExecutionService } from './codeExecution';
 import { SearchGroundingService } from './searchGrounding';
 import { TokenCounterService } from './tokenCounter';
+import { createTransport, interceptTransport, TransportInterceptor } from '../utils/transport';
+import { retryInterceptor } from '../utils/retry';
+import { RateLimiter, rateLimitInterceptor } from '../utils/rateLimiter';
+import { middlewareInterceptor } from '../utils/middleware';
+import { systemInstructionInterceptor } from '../utils/systemInstruction';
+import { safetyInterceptor, safetySettingsInterceptor } from '../utils/safety';
+import { Telemetry, telemetryInterceptor } from '../utils/telemetry';
+import { createLogger, LevelLogger, loggingInterceptor, logServiceCalls, noopLogger } from '../utils/logger';
+import { toGeminiError } from '../utils/errors';
+import { MODEL_TASKS, ModelRegistry, modelValidationInterceptor } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { cacheInterceptor } from '../utils/cache';
+import { Cassette } from '../utils/cassette';
+import { UsageLedger, usageInterceptor } from '../utils/usageLedger';
+import { BudgetGuard, budgetInterceptor } from '../utils/budgets';
+import { estimateRequestTokens } from '../utils/tokenEstimator';
+import { DEFAULT_MODEL_CACHE_TTL_MS } from '../utils/config';
 import * as Types from '../types';
 
 /**
  * Main client for the Gemini API SDK
  */
 export class GeminiClient {
-  private client: any;
+  private client: Types.GeminiTransport;
+  private options: Types.ClientOptions;
   private debug: boolean;
+  private logger: LevelLogger;
+  private secrets: string[];
+  private telemetry?: Telemetry;
+  private modelsTransport: Types.ServiceTransport;
+  private modelCache?: { models: Promise<Types.ModelInfo[]>; expiresAt: number };
+  private rateLimiter?: RateLimiter;
+  private middleware: Types.Middleware[];
+  private cache?: TransportInterceptor;
+  private recordUsage: TransportInterceptor;
+  private checkBudgets?: TransportInterceptor;
   public textGeneration: TextGenerationService;
   public chat: ChatService;
   public multimodal: MultimodalService;
@@ -38,84 +66,299 @@ export class GeminiClient {
   public codeExecution: CodeExecutionService;
   public searchGrounding: SearchGroundingService;
   public tokenCounter: TokenCounterService;
+  /** Capabilities of the known models, used to validate requests and pick models */
+  public models: ModelRegistry;
+  /** Picks models for the `*Auto` methods and falls back when a model fails */
+  public router: ModelRouter;
+  /** Cassette recording or replaying API traffic, when the `cassette` option is set */
+  public cassette?: Cassette;
+  /** Token usage and cost of every API call made by the client */
+  public usage: UsageLedger;
+  /** Spending budgets checked before each call, when the `budgets` option is set */
+  public budgets?: BudgetGuard;
+  /** Default system instruction (persona) for calls that set none; can be changed at any time */
+  public systemInstruction?: Types.SystemInstructionContent;
+  /** Default safety thresholds for calls, per harm category; can be changed at any time */
+  public safetySettings?: Types.SafetySetting[];
 
   /**
    * Create a new GeminiClient
    * 
-   * @param apiKey - Gemini API key for authentication
+   * @param apiKeyOrOptions - Gemini API key, or a full set of client options
    * @param debug - Enable debug logging (default: false)
+   * 
+   * @example
+   * ```typescript
+   * // API key only
+   * const gemini = new GeminiClient('YOUR_API_KEY');
+   * 
+   * // Custom endpoint and per-request timeout
+   * const local = new GeminiClient({
+   *   apiKey: 'YOUR_API_KEY',
+   *   apiEndpoint: 'http://localhost:8080',
+   *   timeout: 30000
+   * });
+   * ```
    */
-  constructor(apiKey: string, debug: boolean = false) {
-    this.client = { apiKey };
-    this.debug = debug;
+  constructor(apiKeyOrOptions: string | Types.ClientOptions, debug: boolean = false) {
+    this.options = typeof apiKeyOrOptions === 'string'
+      ? { apiKey: apiKeyOrOptions, debug }
+      : { debug, ...apiKeyOrOptions };
+    this.debug = this.options.debug ?? false;
+    this.middleware = [...(this.options.middleware ?? [])];
+    this.systemInstruction = this.options.systemInstruction;
+    this.safetySettings = this.options.safetySettings;
+
+    // `debug` is shorthand for logging everything to the console
+    const logger = this.options.logger ?? (this.debug ? console : undefined);
+    this.logger = logger
+      ? createLogger(logger, this.options.logLevel ?? (this.debug ? 'debug' : 'info'))
+      : noopLogger;
+    this.secrets = this.options.apiKey ? [this.options.apiKey] : [];
+
+    if (this.options.telemetry) {
+      this.telemetry = new Telemetry(this.options.telemetry);
+    }
+
+    // One transport is shared by every service; a replaying cassette never creates the live one
+    if (this.options.cassette) {
+      this.cassette = new Cassette(this.options.cassette);
+      this.client = this.cassette.wrap(() => createTransport(this.options));
+    } else {
+      this.client = createTransport(this.options);
+    }
+
+    this.models = new ModelRegistry();
+    (this.options.models ?? []).forEach(model => this.models.register(model));
+    this.router = new ModelRouter(this.models, this.options.router);
+
+    // One cache is shared by every service
+    if (this.options.cache) {
+      this.cache = cacheInterceptor(this.options.cache === true ? {} : this.options.cache);
+    }
+
+    // One ledger records the usage of every service, and budgets count what it records
+    this.usage = new UsageLedger({
+      ...this.options.usage,
+      onEntry: entry => {
+        this.budgets?.record(entry);
+        this.options.usage?.onEntry?.(entry);
+      },
+    });
+    this.recordUsage = usageInterceptor(this.usage);
+    if (this.options.budgets) {
+      this.budgets = new BudgetGuard(this.options.budgets, this.usage, this.models);
+      this.checkBudgets = budgetInterceptor(this.budgets, this.usage, (model, request) => this.estimateTokens(model, request));
+    }
+
+    // Limits are per model, so one limiter is shared by every service
+    if (this.options.rateLimits) {
+      this.rateLimiter = new RateLimiter(this.options.rateLimits);
+    }
     
     // Initialize services
-    this.textGeneration = new TextGenerationService(this.client);
-    this.chat = new ChatService(this.client);
-    this.multimodal = new MultimodalService(this.client);
-    this.imageGeneration = new ImageGenerationService(this.client);
-    this.videoGeneration = new VideoGenerationService(this.client);
-    this.structuredOutput = new StructuredOutputService(this.client);
-    this.thinking = new ThinkingService(this.client);
-    this.functionCalling = new FunctionCallingService(this.client);
-    this.files = new FileService(this.client);
-    this.documentUnderstanding = new DocumentUnderstandingService(this.client);
-    this.imageUnderstanding = new ImageUnderstandingService(this.client);
-    this.videoUnderstanding = new VideoUnderstandingService(this.client);
-    this.audioUnderstanding = new AudioUnderstandingService(this.client);
-    this.codeExecution = new CodeExecutionService(this.client);
-    this.searchGrounding = new SearchGroundingService(this.client);
-    this.tokenCounter = new TokenCounterService(this.client);
-
-    // Patch all services to log if debug is enabled
-    if (this.debug) {
-      for (const key of Object.keys(this)) {
-        const service = (this as any)[key];
-        if (service && typeof service === 'object') {
-          for (const method of Object.getOwnPropertyNames(Object.getPrototypeOf(service))) {
-            if (typeof service[method] === 'function' && method !== 'constructor') {
-              const orig = service[method].bind(service);
-              service[method] = async (...args: any[]) => {
-                console.log(`[GeminiClient DEBUG] Calling ${key}.${method} with:`, ...args);
-                const result = await orig(...args);
-                console.log(`[GeminiClient DEBUG] Result from ${key}.${method}:`, result);
-                return result;
-              };
-            }
-          }
-        }
+    this.textGeneration = new TextGenerationService(this.serviceTransport('textGeneration'), this.router);
+    this.chat = new ChatService(this.serviceTransport('chat'));
+    this.multimodal = new MultimodalService(this.serviceTransport('multimodal'), this.router);
+    this.imageGeneration = new ImageGenerationService(this.serviceTransport('imageGeneration'), this.router);
+    this.videoGeneration = new VideoGenerationService(this.serviceTransport('videoGeneration'));
+    this.structuredOutput = new StructuredOutputService(this.serviceTransport('structuredOutput'), this.router);
+    this.thinking = new ThinkingService(this.serviceTransport('thinking'), this.router);
+    this.functionCalling = new FunctionCallingService(this.serviceTransport('functionCalling'), this.router);
+    this.files = new FileService(this.serviceTransport('files'));
+    this.documentUnderstanding = new DocumentUnderstandingService(this.serviceTransport('documentUnderstanding'), this.router);
+    this.imageUnderstanding = new ImageUnderstandingService(this.serviceTransport('imageUnderstanding'), this.logger, this.router);
+    this.videoUnderstanding = new VideoUnderstandingService(this.serviceTransport('videoUnderstanding'), this.router);
+    this.audioUnderstanding = new AudioUnderstandingService(this.serviceTransport('audioUnderstanding'), this.router);
+    this.codeExecution = new CodeExecutionService(this.serviceTransport('codeExecution'), this.router);
+    this.searchGrounding = new SearchGroundingService(this.serviceTransport('searchGrounding'), this.router);
+    this.tokenCounter = new TokenCounterService(this.serviceTransport('tokenCounter'));
+    this.modelsTransport = this.serviceTransport('models');
+
+    const services: Array<[Types.ServiceName, object]> = [
+      ['textGeneration', this.textGeneration],
+      ['chat', this.chat],
+      ['multimodal', this.multimodal],
+      ['imageGeneration', this.imageGeneration],
+      ['videoGeneration', this.videoGeneration],
+      ['structuredOutput', this.structuredOutput],
+      ['thinking', this.thinking],
+      ['functionCalling', this.functionCalling],
+      ['files', this.files],
+      ['documentUnderstanding', this.documentUnderstanding],
+      ['imageUnderstanding', this.imageUnderstanding],
+      ['videoUnderstanding', this.videoUnderstanding],
+      ['audioUnderstanding', this.audioUnderstanding],
+      ['codeExecution', this.codeExecution],
+      ['searchGrounding', this.searchGrounding],
+      ['tokenCounter', this.tokenCounter],
+    ];
+    for (const [name, service] of services) {
+      // Span per public API method
+      this.telemetry?.traceServiceCalls(service, name);
+      // Arguments and results of every service method
+      if (this.logger.enabled('debug')) {
+        logServiceCalls(service, name, this.logger, this.secrets);
       }
     }
   }
 
   /**
-   * Get available models
+   * Register middleware around every model call made by the client's services
    * 
-   * @returns Promise with list of available models
+   * Middleware runs in registration order, outside retries and rate limits, so a
+   * short-circuited call never reaches the API.
+   * 
+   * @param middleware - Middleware to add
+   * @returns The client, for chaining
+   * 
+   * @example
+   * ```typescript
+   * gemini.use(async ({ service, operation, request }, next) => {
+   *   const started = Date.now();
+   *   const response = await next({ ...request, model: request.model.replace('pro', 'flash') });
+   *   console.log(`${service} ${operation} took ${Date.now() - started}ms`);
+   *   return response;
+   * });
+   * ```
+   */
+  use(middleware: Types.Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Build the transport for one service, applying the client's interceptors
+   * 
+   * @param service - Name of the service
+   * @returns Service transport sharing the client's underlying connection
    */
-  async listModels() {
+  private serviceTransport(service: Types.ServiceName): Types.ServiceTransport {
+    // Client defaults are part of the request every later interceptor sees
+    const interceptors: TransportInterceptor[] = [
+      systemInstructionInterceptor(() => this.systemInstruction),
+      safetySettingsInterceptor(() => this.safetySettings),
+      middlewareInterceptor(() => this.middleware),
+    ];
+
+    if (this.logger !== noopLogger) {
+      interceptors.push(loggingInterceptor(this.logger, this.secrets));
+    }
+    if (this.telemetry) {
+      interceptors.push(telemetryInterceptor(this.telemetry));
+    }
+    // Reject requests the model cannot serve before they are retried or rate limited
+    interceptors.push(modelValidationInterceptor(this.models));
+    // Blocked responses fail, whether they come from the API or the cache
+    interceptors.push(safetyInterceptor());
+    // Cached responses never reach retries or rate limits
+    if (this.cache) {
+      interceptors.push(this.cache);
+    }
+    // Budgets are checked once per call, before retries; cached responses cost nothing
+    if (this.checkBudgets) {
+      interceptors.push(this.checkBudgets);
+    }
+    // Only calls that reach the API use tokens, and retried failures use none
+    interceptors.push(this.recordUsage);
+
+    const serviceRetry = this.options.services?.[service]?.retry;
+    const retry = serviceRetry === undefined ? this.options.retry : serviceRetry;
+    if (retry !== false) {
+      interceptors.push(retryInterceptor({ ...this.options.retry, ...retry }));
+    }
+    if (this.rateLimiter) {
+      interceptors.push(rateLimitInterceptor(this.rateLimiter, (model, request) => this.estimateTokens(model, request)));
+    }
+
+    return interceptTransport(this.client, service, () => interceptors);
+  }
+
+  /**
+   * Estimate the prompt tokens of a request for the rate limiter and budgets
+   * 
+   * Uses the token counting API, falling back to a local estimate if counting fails.
+   */
+  private async estimateTokens(model: string, request: any): Promise<number> {
+    try {
+      const { totalTokens } = await this.tokenCounter.countTokensInContent(request.contents, model, {
+        signal: request.config?.abortSignal
+      });
+      return totalTokens;
+    } catch {
+      return estimateRequestTokens(request);
+    }
+  }
+
+  /**
+   * List the models available to the API key
+   * 
+   * Fetches every page of the models endpoint. Results are cached for
+   * `modelCacheTtlMs` (default: one hour); pass `refresh` to fetch them again.
+   * 
+   * @param options - Page size, cache bypass and abort signal
+   * @returns Promise with the available models and their capabilities
+   * 
+   * @example
+   * ```typescript
+   * const models = await gemini.listModels();
+   * const thinkingModels = models
+   *   .filter(model => model.thinking && model.supportedGenerationMethods.includes('generateContent'))
+   *   .map(model => `${model.name} (${model.inputTokenLimit} input tokens)`);
+   * ```
+   */
+  async listModels(options: Types.ListModelsOptions = {}): Promise<Types.ModelInfo[]> {
+    if (!options.refresh && this.modelCache && this.modelCache.expiresAt > Date.now()) {
+      return this.modelCache.models;
+    }
+
+    // Concurrent callers share one fetch
+    const models = this.fetchModels(options);
+    const cache = { models, expiresAt: Date.now() + (this.options.modelCacheTtlMs ?? DEFAULT_MODEL_CACHE_TTL_MS) };
+    this.modelCache = cache;
+    try {
+      return await models;
+    } catch (error) {
+      if (this.modelCache === cache) {
+        this.modelCache = undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch every page of the models endpoint
+   */
+  private async fetchModels(options: Types.ListModelsOptions): Promise<Types.ModelInfo[]> {
     try {
-      // We need to implement this based on the available models in the API
-      return [
-        'gemini-2.5-pro-preview-05-06',
-        'gemini-2.5-flash-preview-04-17',
-        'gemini-2.0-flash',
-        'gemini-2.0-flash-lite',
-        'gemini-2.0-pro',
-        'gemini-1.5-pro',
-        'gemini-1.5-flash',
-        'gemini-1.5-flash-8b'
-      ];
+      const response = await this.modelsTransport.models.list({
+        config: { pageSize: options.pageSize ?? 100, abortSignal: options.signal }
+      });
+
+      const models: Types.ModelInfo[] = [];
+      let page = response.page;
+      while (true) {
+        for (const model of page) {
+          models.push(toModelInfo(model));
+        }
+        if (!response.hasNextPage()) break;
+        page = await response.nextPage();
+      }
+      return models;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to list models: ${errorMessage}`);
+      throw toGeminiError(error, {
+        service: 'models',
+        method: 'listModels',
+        message: 'Failed to list models',
+        signal: options.signal
+      });
     }
   }
 
   /**
    * Suggest the best model for a given task type
    * @param taskType - Task type (e.g., 'text', 'code', 'image', 'video', 'multimodal', 'chat', 'grounding')
-   * @returns Model name string
+   * @returns First model the router would try for the task, or a general text model for unknown tasks
    * @example
    * ```typescript
    * const model = gemini.suggestModelForTask('code');
@@ -123,26 +366,32 @@ export class GeminiClient {
    * ```
    */
   suggestModelForTask(taskType: string): string {
-    switch (taskType.toLowerCase()) {
-      case 'text':
-        return 'gemini-2.5-pro-preview-05-06';
-      case 'code':
-        return 'gemini-2.5-pro-preview-05-06';
-      case 'image':
-        return 'gemini-2.0-flash-exp-image-generation';
-      case 'video':
-        return 'veo-2.0-generate-001';
-      case 'multimodal':
-        return 'gemini-2.5-flash-preview-04-17';
-      case 'chat':
-        return 'gemini-2.5-pro-preview-05-06';
-      case 'grounding':
-        return 'gemini-1.5-flash';
-      default:
-        return 'gemini-2.0-flash';
-    }
+    const task = MODEL_TASKS.find(name => name.toLowerCase() === taskType.toLowerCase());
+    return this.router.chain(task ?? 'text', { complex: task !== undefined })[0] ?? this.models.select('text');
   }
 }
 
+/**
+ * Normalize a model returned by the models endpoint
+ * 
+ * `@google/genai` exposes `supportedGenerationMethods` as `supportedActions`. Models
+ * without a `thinking` flag are assumed to think if they belong to the 2.5 family.
+ */
+function toModelInfo(model: any): Types.ModelInfo {
+  const resourceName: string = model.name ?? '';
+  const name = resourceName.replace(/^models\//, '');
+  return {
+    name,
+    resourceName,
+    displayName: model.displayName,
+    description: model.description,
+    version: model.version,
+    inputTokenLimit: model.inputTokenLimit,
+    outputTokenLimit: model.outputTokenLimit,
+    supportedGenerationMethods: model.supportedGenerationMethods ?? model.supportedActions ?? [],
+    thinking: typeof model.thinking === 'boolean' ? model.thinking : /^gemini-2\.5-/.test(name),
+  };
+}
+
 // Export all public types for developer use
 export type { Types }; 
\ No newline at end of file
@@ -1,8 +1,15 @@
 import { 
   GenerationConfig, 
   CodeExecutionTool,
-  CodeExecutionResponse
+  CodeExecutionResponse,
+  ServiceTransport
 } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, toRequestConfig } from '../utils/generation';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for code execution with Gemini models
@@ -11,11 +18,13 @@ import {
  * to solve problems, analyze data, and create visualizations.
  */
 export class CodeExecutionService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -41,26 +50,12 @@ export class CodeExecutionService {
     config?: GenerationConfig
   ): Promise<CodeExecutionResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Enable code execution tool
       const tools: CodeExecutionTool[] = [{ codeExecution: {} }];
       
-      const response = await model.generateContent({
-        contents: [{ text: prompt }],
-        config: {
-          tools,
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
-            },
-          }),
-        }
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ text: prompt }], config, { tools })
+      );
 
       // Parse the response to extract code and execution results
       let fullText = '';
@@ -94,7 +89,51 @@ export class CodeExecutionService {
         raw: response
       };
     } catch (error) {
-      throw new Error(`Code execution failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'codeExecution',
+        method: 'execute',
+        model: config?.model || this.defaultModel,
+        message: 'Code execution failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream the response to a problem solved with code execution
+   * 
+   * @param prompt - Text prompt describing the problem to solve
+   * @param config - Generation configuration options
+   * @returns Stream of text and usage events; generated code and its output are on each event's `raw` chunk
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.codeExecution.streamExecute("What is the sum of the first 50 prime numbers?");
+   * await stream.pipe(process.stdout);
+   * ```
+   */
+  async streamExecute(
+    prompt: string,
+    config?: GenerationConfig
+  ): Promise<GeminiStream> {
+    try {
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, prompt, config, { tools: [{ codeExecution: {} }] })
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'codeExecution',
+        method: 'streamExecute',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
+      });
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'codeExecution',
+        method: 'streamExecute',
+        model: config?.model || this.defaultModel,
+        message: 'Code execution stream failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -129,39 +168,26 @@ export class CodeExecutionService {
     config?: GenerationConfig
   ): Promise<CodeExecutionResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Enable code execution tool
       const tools: CodeExecutionTool[] = [{ codeExecution: {} }];
-      
-      const response = await model.generateContent({
-        contents: [
-          {
-            role: 'user',
-            parts: [
-              { 
-                inlineData: {
-                  mimeType,
-                  data: fileData
-                }
-              },
-              { text: prompt }
-            ]
-          }
-        ],
-        config: {
-          tools,
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
+      const contents = [
+        {
+          role: 'user',
+          parts: [
+            { 
+              inlineData: {
+                mimeType,
+                data: fileData
+              }
             },
-          }),
+            { text: prompt }
+          ]
         }
-      });
+      ];
+      
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config, { tools })
+      );
 
       // Parse the response to extract code and execution results
       let fullText = '';
@@ -203,7 +229,13 @@ export class CodeExecutionService {
         raw: response
       };
     } catch (error) {
-      throw new Error(`Code execution with file input failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'codeExecution',
+        method: 'executeWithFileInput',
+        model: config?.model || this.defaultModel,
+        message: 'Code execution with file input failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -248,30 +280,19 @@ export class CodeExecutionService {
       const chat = this.client.chats.create({
         model: config?.model || this.defaultModel,
         history: chatHistory,
-        config: {
-          tools: [{ codeExecution: {} }],
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
-            },
-          }),
-        }
+        config: toRequestConfig(config, { tools: [{ codeExecution: {} }] }),
       });
       
       // Send the message
       const response = await chat.sendMessage({ message: prompt });
       
       // Parse the response to extract code and execution results
-      const fullText = response.text() || '';
+      const fullText = response.text ?? '';
       let generatedCode = '';
       let executionResult = '';
       
       // Extract parts from the response
-      const parts = response.parts() || [];
+      const parts = response.candidates?.[0]?.content?.parts || [];
       
       for (const part of parts) {
         // Executable code parts
@@ -300,7 +321,13 @@ export class CodeExecutionService {
         raw: response
       };
     } catch (error) {
-      throw new Error(`Code execution in chat failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'codeExecution',
+        method: 'executeInChat',
+        model: config?.model || this.defaultModel,
+        message: 'Code execution in chat failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -319,8 +346,11 @@ export class CodeExecutionService {
     prompt: string,
     config?: GenerationConfig
   ): Promise<CodeExecutionResponse> {
-    const isComplex = prompt.length > 300 || /\b(analyze|explain|visualize|complex|data|plot|chart|summarize|compare)\b/i.test(prompt);
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    return this.execute(prompt, { ...config, model });
+    const { response, model } = await this.router.route(
+      'code',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.execute(prompt, { ...config, model })
+    );
+    return { ...response, model };
   }
 } 
\ No newline at end of file
@@ -3,9 +3,16 @@ import {
   GenerationResponse, 
   DocumentProcessingOptions,
   FilePart,
-  InlineData
+  InlineData,
+  ServiceTransport
 } from '../types';
-import { GoogleGenAI } from "@google/genai";
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for document understanding with Gemini models
@@ -14,11 +21,13 @@ import { GoogleGenAI } from "@google/genai";
  * including both text and visual elements like charts, tables, and diagrams.
  */
 export class DocumentUnderstandingService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -53,18 +62,62 @@ export class DocumentUnderstandingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
       const contents: any[] = [
         { text: prompt },
         document
       ];
-      const response = await ai.models.generateContent({
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config)
+      );
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'documentUnderstanding',
+        method: 'processDocument',
         model: config?.model || this.defaultModel,
-        contents,
+        message: 'Document processing failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream the response to a prompt about a document
+   * 
+   * @param prompt - Text prompt for processing the document
+   * @param document - Document to process (file reference or inline data)
+   * @param config - Generation configuration options
+   * @returns Stream of text and usage events
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.documentUnderstanding.streamProcessDocument("Summarize this paper", filePart);
+   * await stream.pipe(process.stdout);
+   * ```
+   */
+  async streamProcessDocument(
+    prompt: string,
+    document: FilePart | InlineData,
+    config?: GenerationConfig
+  ): Promise<GeminiStream> {
+    try {
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ text: prompt }, document], config)
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'documentUnderstanding',
+        method: 'streamProcessDocument',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
       });
-      return { text: response.text ?? '', raw: response };
     } catch (error) {
-      throw new Error(`Document processing failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'documentUnderstanding',
+        method: 'streamProcessDocument',
+        model: config?.model || this.defaultModel,
+        message: 'Document processing stream failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -107,50 +160,31 @@ export class DocumentUnderstandingService {
     config?: Omit<GenerationConfig, 'documentProcessing'>
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
-      // Create contents array with prompt and document
+      // The API has no document processing settings: the options are asked for in the prompt
       const contents: any[] = [
-        { text: prompt },
-        // Handle both document types
-        // const docContent = this.createDocumentContent(document); // Method does not exist, so comment out or remove
+        { text: [prompt, ...describeDocumentOptions(documentOptions)].join('\n') },
+        document
       ];
       
-      const response = await model.generateContent({
-        contents,
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-          ...(config.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        }),
-        ...(config?.tools && {
-          tools: config.tools
-        }),
-        ...(config?.toolConfig && {
-          toolConfig: config.toolConfig
-        }),
-        documentProcessing: documentOptions
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config)
+      );
 
-      const responseText = response.response?.text() || '';
-      
       return {
-        text: responseText,
+        text: response.text ?? '',
         functionCalls: response.functionCalls,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Document processing with options failed: ${errorMessage}`);
+      throw toGeminiError(error, {
+        service: 'documentUnderstanding',
+        method: 'processDocumentWithOptions',
+        model: config?.model || this.defaultModel,
+        message: 'Document processing with options failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -200,11 +234,25 @@ export class DocumentUnderstandingService {
     document: FilePart | InlineData,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
-    // Heuristic: use Pro for long/complex prompts or large files
-    const isComplex = prompt.length > 300;
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    return this.processDocument(prompt, document, { ...config, model });
+    const { response, model } = await this.router.route(
+      'document',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.processDocument(prompt, document, { ...config, model })
+    );
+    return { ...response, model };
   }
 }
 
+/**
+ * Turn document processing options into instructions for the model
+ */
+function describeDocumentOptions(options: DocumentProcessingOptions): string[] {
+  return [
+    ...(options.extractText ? ['Work from the full text of the document.'] : []),
+    ...(options.preserveLayout ? ['Preserve the layout of the document (headings, tables, columns) in your answer.'] : []),
+    ...(options.includeImages ? ['Take the images, charts and diagrams of the document into account.'] : []),
+    ...(options.pageLimit ? [`Only consider the first ${options.pageLimit} pages of the document.`] : []),
+  ];
+}
+
 // End of file
\ No newline at end of file
@@ -6,9 +6,17 @@ import {
   FileGetOptions,
   FileListOptions,
   FileListResponse,
-  FileDeleteOptions
+  FileDeleteOptions,
+  ServiceTransport
 } from '../types';
-import { GoogleGenAI } from "@google/genai";
+import {
+  GeminiError,
+  GeminiFileProcessingError,
+  GeminiInvalidArgumentError,
+  GeminiTimeoutError,
+  toGeminiError
+} from '../utils/errors';
+import { sleep } from '../utils/abort';
 
 /**
  * Service for managing files with the Gemini API
@@ -17,9 +25,9 @@ import { GoogleGenAI } from "@google/genai";
  * Files are stored for 48 hours and can be used for multimodal prompts.
  */
 export class FileService {
-  private client: any;
+  private client: ServiceTransport;
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport) {
     this.client = client;
   }
 
@@ -47,7 +55,6 @@ export class FileService {
    */
   async upload(options: FileUploadOptions): Promise<FileMetadata> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
       let fileData: string | Blob;
       if (typeof options.file === 'string') {
         fileData = options.file;
@@ -55,7 +62,10 @@ export class FileService {
         if (typeof Blob !== 'undefined') {
           fileData = new Blob([options.file]);
         } else {
-          throw new Error('Buffer uploads require Blob support in this environment.');
+          throw new GeminiInvalidArgumentError('Buffer uploads require Blob support in this environment.', {
+            service: 'files',
+            method: 'upload'
+          });
         }
       } else {
         fileData = options.file as Blob;
@@ -63,12 +73,18 @@ export class FileService {
       const mimeType = options.config?.mimeType || 'application/octet-stream';
       const config = {
         displayName: options.config?.displayName || 'uploaded_file',
-        mimeType: mimeType
+        mimeType: mimeType,
+        abortSignal: options.signal
       };
-      const response = await ai.files.upload({ file: fileData, config });
-      return this.normalizeFileResponse(response);
+      const response = await this.client.files.upload({ file: fileData, config });
+      return this._normalizeFileResponse(response);
     } catch (error) {
-      throw new Error(`File upload failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'files',
+        method: 'upload',
+        message: 'File upload failed',
+        signal: options.signal
+      });
     }
   }
 
@@ -89,12 +105,18 @@ export class FileService {
   async get(options: FileGetOptions): Promise<FileMetadata> {
     try {
       const response = await this.client.files.get({
-        name: options.name
+        name: options.name,
+        config: { abortSignal: options.signal },
       });
       
-      return this.normalizeFileResponse(response);
+      return this._normalizeFileResponse(response);
     } catch (error) {
-      throw new Error(`File get failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'files',
+        method: 'get',
+        message: 'File get failed',
+        signal: options.signal
+      });
     }
   }
 
@@ -129,7 +151,7 @@ export class FileService {
   async list(options?: FileListOptions): Promise<FileListResponse> {
     try {
       const response = await this.client.files.list({
-        config: options?.config
+        config: { ...options?.config, abortSignal: options?.signal }
       });
       
       // Initialize result array
@@ -140,7 +162,7 @@ export class FileService {
       while (true) {
         // Add files from current page
         for (const file of page) {
-          files.push(this.normalizeFileResponse(file));
+          files.push(this._normalizeFileResponse(file));
         }
         
         // Check if there are more pages
@@ -155,7 +177,12 @@ export class FileService {
         nextPageToken: response.nextPageToken || undefined
       };
     } catch (error) {
-      throw new Error(`File list failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'files',
+        method: 'list',
+        message: 'File list failed',
+        signal: options?.signal
+      });
     }
   }
 
@@ -175,10 +202,16 @@ export class FileService {
   async delete(options: FileDeleteOptions): Promise<void> {
     try {
       await this.client.files.delete({
-        name: options.name
+        name: options.name,
+        config: { abortSignal: options.signal },
       });
     } catch (error) {
-      throw new Error(`File delete failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'files',
+        method: 'delete',
+        message: 'File delete failed',
+        signal: options.signal
+      });
     }
   }
 
@@ -196,11 +229,9 @@ export class FileService {
    *   config: { mimeType: "audio/mpeg" }
    * });
    * 
-   * const response = await gemini.textGeneration.generate(
-   *   [
-   *     gemini.files.createPartFromUri(myfile.uri, myfile.mimeType),
-   *     "Describe this audio clip"
-   *   ]
+   * const response = await gemini.documentUnderstanding.processDocument(
+   *   "Describe this audio clip",
+   *   gemini.files.createPartFromUri(myfile.uri, myfile.mimeType)
    * );
    * ```
    */
@@ -261,11 +292,7 @@ export class FileService {
    *   gemini.files.createPartFromUri(myfile.uri, myfile.mimeType),
    *   "Describe this audio clip"
    * ]);
-   * 
-   * const response = await gemini.models.generateContent({
-   *   model: "gemini-2.0-flash",
-   *   contents: userContent
-   * });
+   * // { role: 'user', parts: [{ fileData: { fileUri, mimeType } }, { text: 'Describe this audio clip' }] }
    * ```
    */
   createUserContent(parts: Array<string | any>): any {
@@ -290,6 +317,7 @@ export class FileService {
    * @param targetState - The target state to wait for (defaults to ACTIVE)
    * @param maxAttempts - Maximum number of polling attempts
    * @param intervalMs - Polling interval in milliseconds
+   * @param signal - Optional abort signal that stops polling
    * @returns Promise with the file metadata when the target state is reached
    * 
    * @example
@@ -310,12 +338,13 @@ export class FileService {
     name: string, 
     targetState: string = 'ACTIVE', 
     maxAttempts: number = 30, 
-    intervalMs: number = 5000
+    intervalMs: number = 5000,
+    signal?: AbortSignal
   ): Promise<FileMetadata> {
     let attempt = 0;
     
     while (attempt < maxAttempts) {
-      const file = await this.get({ name });
+      const file = await this.get({ name, signal });
       
       // Check if file has reached the target state
       if (file.state === targetState) {
@@ -324,21 +353,28 @@ export class FileService {
       
       // Check if file has failed
       if (file.state === 'FAILED') {
-        throw new Error(`File processing failed: ${name}`);
+        throw new GeminiFileProcessingError(`File processing failed: ${name}`, {
+          service: 'files',
+          method: 'waitForFileState',
+          fileName: name
+        });
       }
       
       // Wait before next polling attempt
-      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      await sleep(intervalMs, signal);
       attempt++;
     }
     
-    throw new Error(`Timeout waiting for file ${name} to reach state ${targetState}`);
+    throw new GeminiTimeoutError(`Timeout waiting for file ${name} to reach state ${targetState}`, {
+      service: 'files',
+      method: 'waitForFileState'
+    });
   }
 
   /**
    * Normalize the file response object to match our interface
    */
-  private normalizeFileResponse(file: any): FileMetadata {
+  private _normalizeFileResponse(file: any): FileMetadata {
     // Ensure name is always a string
     return {
       ...file,
@@ -349,7 +385,7 @@ export class FileService {
   /**
    * Try to guess the MIME type from a filename
    */
-  private guessMimeType(fileName: string): string {
+  private _guessMimeType(fileName: string): string {
     const extension = path.extname(fileName).toLowerCase();
     
     const mimeTypes: Record<string, string> = {
@@ -386,7 +422,9 @@ export class FileService {
    */
   async uploadAndWait(options: FileUploadOptions): Promise<FileMetadata> {
     const file = await this.upload(options);
-    if (!file.name) throw new Error('Uploaded file is missing a name.');
-    return this.waitForFileState(file.name, 'ACTIVE');
+    if (!file.name) {
+      throw new GeminiError('Uploaded file is missing a name.', { service: 'files', method: 'uploadAndWait' });
+    }
+    return this.waitForFileState(file.name, 'ACTIVE', undefined, undefined, options.signal);
   }
 } 
\ No newline at end of file
@@ -4,8 +4,16 @@ import {
   FunctionDeclaration, 
   FunctionCall, 
   FunctionResponse,
-  FunctionCallingMode} from '../types';
-import { GoogleGenAI } from "@google/genai";
+  FunctionCallingMode,
+  ServiceTransport
+} from '../types';
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates, toRequestConfig, toWireToolConfig } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for function calling capabilities with Gemini models
@@ -15,11 +23,13 @@ import { GoogleGenAI } from "@google/genai";
  * parameters to execute real-world actions.
  */
 export class FunctionCallingService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -65,32 +75,62 @@ export class FunctionCallingService {
     config?: Omit<GenerationConfig, 'tools' | 'toolConfig'>
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const response = await ai.models.generateContent({
-        model: config?.model || this.defaultModel,
-        contents: prompt,
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-          ...(config.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        })
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, prompt, config, { tools: [{ functionDeclarations }] })
+      );
       const functionCalls = (response.functionCalls || []).map((fc: any) => ({
         name: fc.name ?? '',
         args: fc.args || {}
       })) as import('../types').FunctionCall[];
-      return { text: response.text ?? '', functionCalls, raw: response };
+      return { text: response.text ?? '', functionCalls, ...getSafetyInfo(response), ...getCandidates(response), raw: response };
     } catch (error) {
-      throw new Error(`Function calling generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'functionCalling',
+        method: 'generate',
+        model: config?.model || this.defaultModel,
+        message: 'Function calling generation failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream a response that may call the declared functions
+   * 
+   * @param prompt - Text prompt for generation
+   * @param functionDeclarations - Functions the model may call
+   * @param config - Generation configuration options
+   * @returns Stream of text, function-call and usage events
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.functionCalling.streamGenerate("What's the temperature in London?", [weatherFn]);
+   * const { functionCalls } = await stream.finalResponse();
+   * ```
+   */
+  async streamGenerate(
+    prompt: string,
+    functionDeclarations: FunctionDeclaration[],
+    config?: Omit<GenerationConfig, 'tools' | 'toolConfig'>
+  ): Promise<GeminiStream> {
+    try {
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, prompt, config, { tools: [{ functionDeclarations }] })
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'functionCalling',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
+      });
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'functionCalling',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        message: 'Function calling stream generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -121,44 +161,32 @@ export class FunctionCallingService {
     config?: Omit<GenerationConfig, 'tools' | 'toolConfig'>
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
-      const response = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-          ...(config.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        }),
-        tools: [{
-          functionDeclarations: functionDeclarations
-        }],
-        toolConfig: {
-          functionCallingConfig: {
-            mode: mode,
-            ...(allowedFunctionNames && { allowedFunctionNames })
-          }
-        }
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ role: 'user', parts: [{ text: prompt }] }], config, {
+          tools: [{ functionDeclarations }],
+          toolConfig: toWireToolConfig({ functionCallingConfig: { mode, ...(allowedFunctionNames && { allowedFunctionNames }) } }),
+        })
+      );
+      const functionCalls = (response.functionCalls || []).map((fc: any) => ({
+        name: fc.name ?? '',
+        args: fc.args || {}
+      })) as import('../types').FunctionCall[];
 
-      const responseText = response.response?.text() || '';
-      
       return {
-        text: responseText,
-        functionCalls: response.functionCalls,
+        text: response.text ?? '',
+        functionCalls,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Function calling generation with mode failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'functionCalling',
+        method: 'generateWithMode',
+        model: config?.model || this.defaultModel,
+        message: 'Function calling generation with mode failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -215,19 +243,25 @@ export class FunctionCallingService {
       // Create a history with the prompt, function call, and function response
       const contents = [
         { role: 'user', parts: [{ text: prompt }] },
-        { role: 'model', parts: [{ text: '', functionCall: functionCall } as any] },
-        { role: 'user', parts: [{ text: '', functionResponse: functionResponse } as any] }
+        { role: 'model', parts: [{ functionCall }] },
+        { role: 'user', parts: [{ functionResponse }] }
       ];
-      // Use config if provided (for future extensibility)
-      // TODO: Implement real API call using contents and config
-      return {
-        text: "Function response processed",
-        functionCalls: [],
-        raw: { contents, config }
-      };
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config, { tools: [{ functionDeclarations }] })
+      );
+      const functionCalls = (response.functionCalls || []).map((fc: any) => ({
+        name: fc.name ?? '',
+        args: fc.args || {}
+      })) as import('../types').FunctionCall[];
+      return { text: response.text ?? '', functionCalls, ...getSafetyInfo(response), ...getCandidates(response), raw: response };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Function response handling failed: ${errorMessage}`);
+      throw toGeminiError(error, {
+        service: 'functionCalling',
+        method: 'sendFunctionResponse',
+        model: config?.model || this.defaultModel,
+        message: 'Function response handling failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -273,6 +307,9 @@ export class FunctionCallingService {
   /**
    * Handle function response by adding it to the chat history
    * 
+   * The new chat keeps the function declarations and tool config of the chat it continues,
+   * so the model can call further functions.
+   * 
    * @param functionName - Name of the function that was called
    * @param functionResponse - Response from the function call
    * @param chat - Chat session to update
@@ -293,17 +330,21 @@ export class FunctionCallingService {
         { role: 'model', parts: [{ text: '', functionCall: { name: functionName, args: {} } }] as any },
         { role: 'user', parts: [{ text: '', functionResponse: { name: functionName, response: { result: functionResponse } } }] as any }
       ];
-      // Use config if provided (for future extensibility)
       // Create a new chat with the updated history
-      const newChat = this.client.chat({
-        model: this.defaultModel,
+      const { tools, toolConfig } = chat.getConfig?.() ?? {};
+      const newChat = this.client.chats.create({
+        model: config?.model || this.defaultModel,
         history: updatedHistory,
-        ...(config && { config })
+        config: toRequestConfig(config, { ...(tools && { tools }), ...(toolConfig && { toolConfig }) }),
       });
       return newChat;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Function response handling failed: ${errorMessage}`);
+      throw toGeminiError(error, {
+        service: 'functionCalling',
+        method: 'handleFunctionResponse',
+        message: 'Function response handling failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -324,17 +365,19 @@ export class FunctionCallingService {
     functionDeclarations: FunctionDeclaration[],
     config?: Omit<GenerationConfig, 'tools' | 'toolConfig'>
   ): Promise<GenerationResponse> {
-    const isComplex = prompt.length > 300 || functionDeclarations.length > 2;
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    const response = await this.client.models.generateContent({
-      model,
-      contents: prompt
-    });
+    const isComplex = isComplexPrompt(prompt) || functionDeclarations.length > 2;
+    const { response, model } = await this.router.route(
+      'functionCalling',
+      { complex: isComplex, model: config?.model },
+      async (model) => this.client.models.generateContent(
+        buildGenerateRequest(model, prompt, config, { tools: [{ functionDeclarations }] })
+      )
+    );
     // Map functionCalls to your own type, ensuring name is always a string
     const functionCalls = (response.functionCalls || []).map((fc: any) => ({
       name: fc.name ?? '',
       args: fc.args || {}
     })) as import('../types').FunctionCall[];
-    return { text: response.text ?? '', functionCalls, raw: response };
+    return { text: response.text ?? '', functionCalls, model, ...getSafetyInfo(response), ...getCandidates(response), raw: response };
   }
 } 
\ No newline at end of file
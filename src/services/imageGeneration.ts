@@ -1,16 +1,21 @@
 import * as fs from 'fs';
-import { GenerationConfig } from '../types';
+import { GenerationConfig, ServiceTransport } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest } from '../utils/generation';
+import { ModelRouter } from '../utils/modelRouter';
 
 /**
  * Service for image generation using Gemini and Imagen models
  */
 export class ImageGenerationService {
-  private client: any;
+  private client: ServiceTransport;
   private defaultGeminiModel = 'gemini-2.0-flash-exp-image-generation';
   private defaultImagenModel = 'imagen-3.0-generate-002';
+  private router: ModelRouter;
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -38,19 +43,9 @@ export class ImageGenerationService {
     try {
       const model = config?.model || this.defaultGeminiModel;
       
-      const response = await this.client.models.generateContent({
-        model,
-        contents: prompt,
-        config: {
-          responseModalities: ["TEXT", "IMAGE"],
-          ...(config && {
-            temperature: config.temperature,
-            maxOutputTokens: config.maxOutputTokens,
-            topK: config.topK,
-            topP: config.topP,
-          }),
-        },
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(model, prompt, config, { responseModalities: ["TEXT", "IMAGE"] })
+      );
 
       let imageData = null;
       let textData = null;
@@ -73,7 +68,12 @@ export class ImageGenerationService {
         }
       };
     } catch (error) {
-      throw new Error(`Gemini image generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageGeneration',
+        method: 'generateWithGemini',
+        message: 'Gemini image generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -120,19 +120,9 @@ export class ImageGenerationService {
         },
       ];
 
-      const response = await this.client.models.generateContent({
-        model,
-        contents,
-        config: {
-          responseModalities: ["TEXT", "IMAGE"],
-          ...(config && {
-            temperature: config.temperature,
-            maxOutputTokens: config.maxOutputTokens,
-            topK: config.topK,
-            topP: config.topP,
-          }),
-        },
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(model, contents, config, { responseModalities: ["TEXT", "IMAGE"] })
+      );
 
       let imageData2 = null;
       let textData = null;
@@ -155,7 +145,12 @@ export class ImageGenerationService {
         }
       };
     } catch (error) {
-      throw new Error(`Gemini image editing failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageGeneration',
+        method: 'editWithGemini',
+        message: 'Gemini image editing failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -181,20 +176,23 @@ export class ImageGenerationService {
     prompt: string,
     outputDirectory: string,
     options?: {
+      model?: string;
       numberOfImages?: number;
       aspectRatio?: "1:1" | "3:4" | "4:3" | "9:16" | "16:9";
       personGeneration?: "DONT_ALLOW" | "ALLOW_ADULT";
       baseFilename?: string;
+      signal?: AbortSignal;
     }
   ): Promise<string[]> {
     try {
-      const model = this.defaultImagenModel;
+      const model = options?.model || this.defaultImagenModel;
       const baseFilename = options?.baseFilename || 'imagen';
       
       const response = await this.client.models.generateImages({
         model,
         prompt,
         config: {
+          abortSignal: options?.signal,
           numberOfImages: options?.numberOfImages || 1,
           aspectRatio: options?.aspectRatio || "1:1",
           personGeneration: options?.personGeneration || "ALLOW_ADULT",
@@ -219,7 +217,12 @@ export class ImageGenerationService {
 
       return imagePaths;
     } catch (error) {
-      throw new Error(`Imagen image generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageGeneration',
+        method: 'generateWithImagen',
+        message: 'Imagen image generation failed',
+        signal: options?.signal
+      });
     }
   }
 
@@ -228,7 +231,7 @@ export class ImageGenerationService {
    * @param prompt - Text prompt describing the image
    * @param outputPath - Path to save the generated image
    * @param config - Optional configuration parameters
-   * @returns Promise with the generated image path and model response
+   * @returns Promise with the generated image path, model response and the model that produced the image
    * @example
    * ```typescript
    * const result = await gemini.imageGeneration.generateAuto("A futuristic cityscape at sunset", "./output/city.png");
@@ -239,24 +242,28 @@ export class ImageGenerationService {
     prompt: string,
     outputPath: string,
     config?: GenerationConfig
-  ): Promise<{ imagePath: string; response: any }> {
+  ): Promise<{ imagePath: string; response: any; model: string }> {
     // Use Imagen for photorealistic, Gemini for multimodal/creative
     const isPhoto = /photo(realistic|graphy|realism|portrait|macro|hdr)/i.test(prompt);
-    const model = config?.model || (isPhoto ? this.defaultImagenModel : this.defaultGeminiModel);
-    if (isPhoto) {
-      // Map config to Imagen options
-      const imagenOptions = {
-        numberOfImages: 1,
-        aspectRatio: (config as any)?.aspectRatio || "1:1",
-        personGeneration: (config as any)?.personGeneration || "ALLOW_ADULT",
-        baseFilename: (config as any)?.baseFilename || undefined,
-      };
-      const imagePaths = await this.generateWithImagen(prompt, outputPath, imagenOptions);
-      return { imagePath: imagePaths[0], response: { imagePaths } };
-    } else {
+    const task = isPhoto ? { method: 'generateImages', outputModalities: ['image' as const] } : 'image' as const;
+    const { response, model } = await this.router.route(task, { model: config?.model }, async (model) => {
+      if (isPhoto) {
+        // Map config to Imagen options
+        const imagenOptions = {
+          model,
+          numberOfImages: 1,
+          aspectRatio: (config as any)?.aspectRatio || "1:1",
+          personGeneration: (config as any)?.personGeneration || "ALLOW_ADULT",
+          baseFilename: (config as any)?.baseFilename || undefined,
+          signal: config?.signal,
+        };
+        const imagePaths = await this.generateWithImagen(prompt, outputPath, imagenOptions);
+        return { imagePath: imagePaths[0], response: { imagePaths } };
+      }
       // Use Gemini
-      return this.generateWithGemini(prompt, outputPath, config);
-    }
+      return this.generateWithGemini(prompt, outputPath, { ...config, model });
+    });
+    return { ...response, model };
   }
 
   /**
@@ -4,10 +4,19 @@ import {
   ObjectDetectionResponse, 
   SegmentationResponse,
   DetectedObject,
-  SegmentedObject
+  SegmentedObject,
+  ServiceTransport,
+  Logger
 } from '../types';
 import * as fs from 'fs';
-import { GoogleGenAI } from "@google/genai";
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { describeError, noopLogger } from '../utils/logger';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for image understanding with Gemini models
@@ -16,11 +25,15 @@ import { GoogleGenAI } from "@google/genai";
  * segmentation, and specialized image understanding tasks.
  */
 export class ImageUnderstandingService {
-  private client: any;
+  private client: ServiceTransport;
   private defaultModel = 'gemini-2.5-flash';
+  private logger: Logger;
+  private router: ModelRouter;
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, logger: Logger = noopLogger, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.logger = logger;
+    this.router = router;
   }
 
   /**
@@ -47,8 +60,6 @@ export class ImageUnderstandingService {
     config?: GenerationConfig
   ): Promise<ObjectDetectionResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Read the image file
       const imageBuffer = fs.readFileSync(imagePath);
       const base64Image = imageBuffer.toString('base64');
@@ -58,8 +69,9 @@ export class ImageUnderstandingService {
       const detectionPrompt = "Detect the all of the prominent items in the image. " +
         "The box_2d should be [ymin, xmin, ymax, xmax] normalized to 0-1000.";
       
-      const response = await model.generateContent({
-        contents: [
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [
           {
             role: 'user',
             parts: [
@@ -73,18 +85,10 @@ export class ImageUnderstandingService {
             ]
           }
         ],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+        config
+      ));
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       // Parse the response to extract objects
       // This is a simple implementation that assumes the response contains valid JSON
@@ -95,7 +99,12 @@ export class ImageUnderstandingService {
         try {
           objects = JSON.parse(objectsMatch[0]);
         } catch (e) {
-          console.warn('Failed to parse object detection results:', e);
+          this.logger.warn('Failed to parse object detection results', {
+            service: 'imageUnderstanding',
+            method: 'detectObjects',
+            model: config?.model || this.defaultModel,
+            error: describeError(e)
+          });
         }
       }
       
@@ -105,7 +114,13 @@ export class ImageUnderstandingService {
         raw: response
       };
     } catch (error) {
-      throw new Error(`Object detection failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageUnderstanding',
+        method: 'detectObjects',
+        model: config?.model || this.defaultModel,
+        message: 'Object detection failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -137,8 +152,6 @@ export class ImageUnderstandingService {
     config?: GenerationConfig
   ): Promise<SegmentationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Read the image file
       const imageBuffer = fs.readFileSync(imagePath);
       const base64Image = imageBuffer.toString('base64');
@@ -151,8 +164,9 @@ export class ImageUnderstandingService {
         "bounding box in the key \"box_2d\", the segmentation mask in key \"mask\", and " +
         "the text label in the key \"label\". Use descriptive labels.";
       
-      const response = await model.generateContent({
-        contents: [
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [
           {
             role: 'user',
             parts: [
@@ -166,18 +180,10 @@ export class ImageUnderstandingService {
             ]
           }
         ],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+        config
+      ));
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       // Parse the response to extract segmentation masks
       const segmentsMatch = responseText.match(/\[\s*{.*}\s*\]/s);
@@ -187,7 +193,12 @@ export class ImageUnderstandingService {
         try {
           segments = JSON.parse(segmentsMatch[0]);
         } catch (e) {
-          console.warn('Failed to parse segmentation results:', e);
+          this.logger.warn('Failed to parse segmentation results', {
+            service: 'imageUnderstanding',
+            method: 'segmentObjects',
+            model: config?.model || this.defaultModel,
+            error: describeError(e)
+          });
         }
       }
       
@@ -197,7 +208,13 @@ export class ImageUnderstandingService {
         raw: response
       };
     } catch (error) {
-      throw new Error(`Image segmentation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageUnderstanding',
+        method: 'segmentObjects',
+        model: config?.model || this.defaultModel,
+        message: 'Image segmentation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -223,15 +240,14 @@ export class ImageUnderstandingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Read the image file
       const imageBuffer = fs.readFileSync(imagePath);
       const base64Image = imageBuffer.toString('base64');
       const mimeType = this._getMimeType(imagePath);
       
-      const response = await model.generateContent({
-        contents: [
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [
           {
             role: 'user',
             parts: [
@@ -245,25 +261,25 @@ export class ImageUnderstandingService {
             ]
           }
         ],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+        config
+      ));
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       return {
         text: responseText ?? '',
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Text extraction failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageUnderstanding',
+        method: 'extractText',
+        model: config?.model || this.defaultModel,
+        message: 'Text extraction failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -291,20 +307,65 @@ export class ImageUnderstandingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
       const imageBuffer = fs.readFileSync(imagePath);
       const base64Image = imageBuffer.toString('base64');
       const contents = [
         { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
         { text: prompt }
       ];
-      const response = await ai.models.generateContent({
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config)
+      );
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'imageUnderstanding',
+        method: 'analyzeImage',
+        model: config?.model || this.defaultModel,
+        message: 'Image analysis failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream the analysis of an image with a custom prompt
+   * 
+   * @param imagePath - Path to the image file
+   * @param prompt - Custom prompt for analyzing the image
+   * @param config - Generation configuration options
+   * @returns Stream of text and usage events
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.imageUnderstanding.streamAnalyzeImage("/path/to/image.jpg", "Describe this image");
+   * await stream.pipe(process.stdout);
+   * ```
+   */
+  async streamAnalyzeImage(
+    imagePath: string,
+    prompt: string,
+    config?: GenerationConfig
+  ): Promise<GeminiStream> {
+    try {
+      const data = fs.readFileSync(imagePath).toString('base64');
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ inlineData: { mimeType: 'image/jpeg', data } }, { text: prompt }], config)
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'imageUnderstanding',
+        method: 'streamAnalyzeImage',
         model: config?.model || this.defaultModel,
-        contents,
+        signal: config?.signal
       });
-      return { text: response.text ?? '', raw: response };
     } catch (error) {
-      throw new Error(`Image analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'imageUnderstanding',
+        method: 'streamAnalyzeImage',
+        model: config?.model || this.defaultModel,
+        message: 'Image analysis stream failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -325,9 +386,12 @@ export class ImageUnderstandingService {
     prompt: string,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
-    const isComplex = prompt.length > 300 || /\b(segment|detect|analyze|describe|qa|question|object|mask)\b/i.test(prompt);
-    const model = config?.model || (isComplex ? 'gemini-2.5-flash-preview-04-17' : this.defaultModel);
-    return this.analyzeImage(imagePath, prompt, { ...config, model });
+    const { response, model } = await this.router.route(
+      'imageUnderstanding',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.analyzeImage(imagePath, prompt, { ...config, model })
+    );
+    return { ...response, model };
   }
 
   /**
@@ -1,16 +1,24 @@
-import { GenerationConfig, GenerationResponse } from '../types';
+import { GenerationConfig, GenerationResponse, ServiceTransport } from '../types';
 import * as fs from 'fs';
-import { GoogleGenAI } from "@google/genai";
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for multimodal content generation with Gemini models
  */
 export class MultimodalService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -36,19 +44,25 @@ export class MultimodalService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
       const imageBuffer = fs.readFileSync(imagePath);
       const base64Image = imageBuffer.toString('base64');
-      const response = await ai.models.generateContent({
-        model: config?.model || this.defaultModel,
-        contents: [
-          { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [
+          { inlineData: { mimeType: this._getMimeType(imagePath), data: base64Image } },
           { text: prompt }
         ],
-      });
-      return { text: response.text ?? '', raw: response };
+        config
+      ));
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
     } catch (error) {
-      throw new Error(`Image-based generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'multimodal',
+        method: 'generateFromImage',
+        model: config?.model || this.defaultModel,
+        message: 'Image-based generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -78,8 +92,6 @@ export class MultimodalService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Handle if imageData is a URL or base64
       const isUrl = imageData.startsWith('http');
       let image;
@@ -92,36 +104,38 @@ export class MultimodalService {
         image = await this.client.files.upload({
           file: Buffer.from(imageData, 'base64'),
           mimeType,
+          config: { abortSignal: config?.signal },
         });
       }
       
-      const response = await model.generateContent({
-        contents: [{
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [{
           role: 'user',
           parts: [
             { text: prompt },
             { fileData: { mimeType, fileUri: image.uri } }
           ]
         }],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+        config
+      ));
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       return {
         text: responseText,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Image data generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'multimodal',
+        method: 'generateFromImageData',
+        model: config?.model || this.defaultModel,
+        message: 'Image data generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -131,7 +145,7 @@ export class MultimodalService {
    * @param prompt - Text prompt for generation
    * @param imagePath - Path to the image file
    * @param config - Generation configuration options
-   * @returns AsyncIterable of response chunks
+   * @returns Stream of text, function-call, thought and usage events
    * 
    * @example
    * ```typescript
@@ -139,47 +153,48 @@ export class MultimodalService {
    *   "Describe this image in detail",
    *   "/path/to/image.jpg"
    * );
-   * for await (const chunk of stream) {
-   *   console.log(chunk.text);
-   * }
+   * await stream.pipe(process.stdout);
    * ```
    */
   async streamGenerateFromImage(
     prompt: string, 
     imagePath: string,
     config?: GenerationConfig
-  ): Promise<AsyncIterable<any>> {
+  ): Promise<GeminiStream> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Upload the image file
       const image = await this.client.files.upload({
         file: fs.readFileSync(imagePath),
         mimeType: this._getMimeType(imagePath),
+        config: { abortSignal: config?.signal },
       });
       
-      const response = await model.generateContentStream({
-        contents: [{
+      const stream = await this.client.models.generateContentStream(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [{
           role: 'user',
           parts: [
             { text: prompt },
             { fileData: { mimeType: this._getMimeType(imagePath), fileUri: image.uri } }
           ]
         }],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+        config
+      ));
 
-      return response.stream;
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'multimodal',
+        method: 'streamGenerateFromImage',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
+      });
     } catch (error) {
-      throw new Error(`Stream image-based generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'multimodal',
+        method: 'streamGenerateFromImage',
+        model: config?.model || this.defaultModel,
+        message: 'Stream image-based generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -222,8 +237,11 @@ export class MultimodalService {
     imagePath: string,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
-    const isComplex = prompt.length > 300 || /\b(analyze|describe|qa|question|detailed|compare|summarize)\b/i.test(prompt);
-    const model = config?.model || (isComplex ? 'gemini-2.5-flash-preview-04-17' : this.defaultModel);
-    return this.generateFromImage(prompt, imagePath, { ...config, model });
+    const { response, model } = await this.router.route(
+      'multimodal',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.generateFromImage(prompt, imagePath, { ...config, model })
+    );
+    return { ...response, model };
   }
 } 
\ No newline at end of file
@@ -2,8 +2,16 @@ import {
   GenerationConfig, 
   GenerationResponse, 
   DynamicRetrievalConfigMode, 
-  DynamicRetrievalConfig
+  DynamicRetrievalConfig,
+  ServiceTransport
 } from '../types';
+import { GeminiInvalidArgumentError, toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates, toRequestConfig } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for Google Search grounding with Gemini models
@@ -13,11 +21,13 @@ import {
  * to enable more factual responses.
  */
 export class SearchGroundingService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -49,26 +59,15 @@ export class SearchGroundingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
       // Configure Google Search as a tool
-      const response = await model.generateContent({
-        contents: [{ text: prompt }],
-        config: {
-          tools: [{ googleSearch: {} }],
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
-            },
-          }),
-        }
-      });
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [{ text: prompt }],
+        config,
+        { tools: [{ googleSearch: {} }] }
+      ));
       
-      const text = response.text();
+      const text = response.text ?? '';
       
       // Extract grounding metadata if present
       const groundingMetadata = response.candidates?.[0]?.groundingMetadata || null;
@@ -76,10 +75,57 @@ export class SearchGroundingService {
       return {
         text,
         groundingMetadata,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Google Search grounding generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'searchGrounding',
+        method: 'generate',
+        model: config?.model || this.defaultModel,
+        message: 'Google Search grounding generation failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream a response grounded with Google Search
+   * 
+   * @param prompt - Text prompt for generation
+   * @param config - Generation configuration options
+   * @returns Stream of text and usage events; the final response carries the grounding metadata
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.searchGrounding.streamGenerate("Who won Euro 2024?");
+   * await stream.pipe(process.stdout, { end: false });
+   * console.log(gemini.searchGrounding.getWebSearchQueries(await stream.finalResponse()));
+   * ```
+   */
+  async streamGenerate(
+    prompt: string,
+    config?: GenerationConfig
+  ): Promise<GeminiStream> {
+    try {
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, prompt, config, { tools: [{ googleSearch: {} }] })
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'searchGrounding',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
+      });
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'searchGrounding',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        message: 'Search grounding stream generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -116,29 +162,22 @@ export class SearchGroundingService {
       // Ensure a compatible model is used - only works with 1.5 models
       const modelName = config?.model || 'gemini-1.5-flash';
       if (!modelName.includes('1.5')) {
-        throw new Error('Google Search retrieval is only compatible with Gemini 1.5 models');
+        throw new GeminiInvalidArgumentError('Google Search retrieval is only compatible with Gemini 1.5 models', {
+          service: 'searchGrounding',
+          method: 'generateWithRetrieval',
+          model: modelName
+        });
       }
       
-      const model = this.client.models.get(modelName);
-      
       // Configure Google Search retrieval
-      const response = await model.generateContent({
-        contents: [{ text: prompt }],
-        config: {
-          tools: [{ googleSearchRetrieval: {} }],
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
-            },
-          }),
-        }
-      });
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        modelName,
+        [{ text: prompt }],
+        config,
+        { tools: [{ googleSearchRetrieval: {} }] }
+      ));
       
-      const text = response.text();
+      const text = response.text ?? '';
       
       // Extract grounding metadata if present
       const groundingMetadata = response.candidates?.[0]?.groundingMetadata || null;
@@ -146,10 +185,17 @@ export class SearchGroundingService {
       return {
         text,
         groundingMetadata,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Google Search retrieval generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'searchGrounding',
+        method: 'generateWithRetrieval',
+        message: 'Google Search retrieval generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -189,38 +235,27 @@ export class SearchGroundingService {
       // Ensure a compatible model is used - only works with Gemini 1.5 Flash
       const modelName = config?.model || 'gemini-1.5-flash';
       if (modelName !== 'gemini-1.5-flash') {
-        throw new Error('Dynamic retrieval is only compatible with gemini-1.5-flash model');
+        throw new GeminiInvalidArgumentError('Dynamic retrieval is only compatible with gemini-1.5-flash model', {
+          service: 'searchGrounding',
+          method: 'generateWithDynamicRetrieval',
+          model: modelName
+        });
       }
       
-      const model = this.client.models.get(modelName);
-      
       // Configure dynamic retrieval
       const dynamicRetrievalConfig: DynamicRetrievalConfig = {
         dynamicThreshold,
         mode: DynamicRetrievalConfigMode.MODE_DYNAMIC
       };
       
-      const response = await model.generateContent({
-        contents: [{ text: prompt }],
-        config: {
-          tools: [{
-            googleSearchRetrieval: {
-              dynamicRetrievalConfig
-            }
-          }],
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
-            },
-          }),
-        }
-      });
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        modelName,
+        [{ text: prompt }],
+        config,
+        { tools: [{ googleSearchRetrieval: { dynamicRetrievalConfig } }] }
+      ));
       
-      const text = response.text();
+      const text = response.text ?? '';
       
       // Extract grounding metadata if present
       const groundingMetadata = response.candidates?.[0]?.groundingMetadata || null;
@@ -228,10 +263,17 @@ export class SearchGroundingService {
       return {
         text,
         groundingMetadata,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Dynamic retrieval generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'searchGrounding',
+        method: 'generateWithDynamicRetrieval',
+        message: 'Dynamic retrieval generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -274,24 +316,13 @@ export class SearchGroundingService {
       const chat = this.client.chats.create({
         model: config?.model || this.defaultModel,
         history: chatHistory,
-        config: {
-          tools: [{ googleSearch: {} }],
-          ...(config && {
-            generationConfig: {
-              maxOutputTokens: config.maxOutputTokens,
-              temperature: config.temperature,
-              topK: config.topK,
-              topP: config.topP,
-              stopSequences: config.stopSequences,
-            },
-          }),
-        }
+        config: toRequestConfig(config, { tools: [{ googleSearch: {} }] })
       });
       
       // Send the message
       const response = await chat.sendMessage({ message: prompt });
       
-      const text = response.text() || '';
+      const text = response.text ?? '';
       
       // Extract grounding metadata if present
       const groundingMetadata = response.candidates?.[0]?.groundingMetadata || null;
@@ -299,10 +330,18 @@ export class SearchGroundingService {
       return {
         text,
         groundingMetadata,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Google Search grounding in chat failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'searchGrounding',
+        method: 'generateInChat',
+        model: config?.model || this.defaultModel,
+        message: 'Google Search grounding in chat failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -367,18 +406,11 @@ export class SearchGroundingService {
     prompt: string,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
-    // Use 1.5-flash for grounding, 2.0-flash for general, 2.5 for complex
-    const isComplex = prompt.length > 300 || /\b(latest|recent|news|search|find|lookup)\b/i.test(prompt);
-    let model = config?.model;
-    if (!model) {
-      if (/\b(search|lookup|ground|fact|news|recent)\b/i.test(prompt)) {
-        model = 'gemini-1.5-flash';
-      } else if (isComplex) {
-        model = 'gemini-2.5-flash-preview-04-17';
-      } else {
-        model = this.defaultModel;
-      }
-    }
-    return this.generate(prompt, { ...config, model });
+    const { response, model } = await this.router.route(
+      'grounding',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.generate(prompt, { ...config, model })
+    );
+    return { ...response, model };
   }
 } 
\ No newline at end of file
@@ -1,15 +1,21 @@
-import { GenerationConfig, SchemaType, JsonSchema } from '../types';
-import { GoogleGenAI } from "@google/genai";
+import { GenerationConfig, SchemaType, JsonSchema, ServiceTransport } from '../types';
+import { GeminiParseError, toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, GenerateRequest } from '../utils/generation';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { continueResponse } from '../utils/continuation';
 
 /**
  * Service for generating structured output with Gemini models
  */
 export class StructuredOutputService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -34,27 +40,13 @@ export class StructuredOutputService {
     config?: GenerationConfig
   ): Promise<T> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
-      const response = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-          ...(config.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        }),
-      });
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [{ role: 'user', parts: [{ text: prompt }] }],
+        config
+      ));
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       try {
         // Extract JSON from the response (handle potential text around JSON)
@@ -75,10 +67,19 @@ export class StructuredOutputService {
         }
       } catch (parseError) {
         const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-        throw new Error(`Failed to parse JSON from response: ${errorMessage}\nOriginal response: ${responseText}`);
+        throw new GeminiParseError(`Failed to parse JSON from response: ${errorMessage}\nOriginal response: ${responseText}`, {
+          text: responseText,
+          cause: parseError
+        });
       }
     } catch (error) {
-      throw new Error(`Structured output generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'structuredOutput',
+        method: 'generateWithSchemaInPrompt',
+        model: config?.model || this.defaultModel,
+        message: 'Structured output generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -121,36 +122,35 @@ export class StructuredOutputService {
     try {
       const model = config?.model || this.defaultModel;
       
-      const response = await this.client.models.generateContent({
+      const request = buildGenerateRequest(
         model,
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: schema,
-          ...(config && {
-            temperature: config.temperature,
-            maxOutputTokens: config.maxOutputTokens,
-            topK: config.topK,
-            topP: config.topP,
-          }),
-          ...(config?.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        },
-      });
+        [{ role: 'user', parts: [{ text: prompt }] }],
+        config,
+        { responseMimeType: 'application/json', responseSchema: schema }
+      );
+      const response = await this.client.models.generateContent(request);
 
-      const responseText = response.text;
+      const responseText = config?.continuation
+        ? (await this._continueJson(request, response, config)).text
+        : response.text;
       
       try {
         return JSON.parse(responseText);
       } catch (parseError) {
         const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-        throw new Error(`Failed to parse JSON from response: ${errorMessage}\nOriginal response: ${responseText}`);
+        throw new GeminiParseError(`Failed to parse JSON from response: ${errorMessage}\nOriginal response: ${responseText}`, {
+          text: responseText,
+          cause: parseError
+        });
       }
     } catch (error) {
-      throw new Error(`Structured output generation with schema failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'structuredOutput',
+        method: 'generateWithSchema',
+        model: config?.model || this.defaultModel,
+        message: 'Structured output generation with schema failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -184,25 +184,9 @@ export class StructuredOutputService {
         enum: options
       };
       
-      const response = await this.client.models.generateContent({
-        model,
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: schema,
-          ...(config && {
-            temperature: config.temperature,
-            maxOutputTokens: config.maxOutputTokens,
-            topK: config.topK,
-            topP: config.topP,
-          }),
-          ...(config?.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        },
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(model, [{ role: 'user', parts: [{ text: prompt }] }], config, { responseMimeType: 'application/json', responseSchema: schema })
+      );
 
       const responseText = response.text;
       
@@ -214,7 +198,13 @@ export class StructuredOutputService {
         return responseText.trim().replace(/^"|"$/g, '');
       }
     } catch (error) {
-      throw new Error(`Enum-constrained generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'structuredOutput',
+        method: 'generateWithEnum',
+        model: config?.model || this.defaultModel,
+        message: 'Enum-constrained generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -244,25 +234,9 @@ export class StructuredOutputService {
         type: SchemaType.BOOLEAN
       };
       
-      const response = await this.client.models.generateContent({
-        model,
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: {
-          responseMimeType: 'application/json',
-          responseSchema: schema,
-          ...(config && {
-            temperature: config.temperature,
-            maxOutputTokens: config.maxOutputTokens,
-            topK: config.topK,
-            topP: config.topP,
-          }),
-          ...(config?.thinkingConfig && {
-            thinkingConfig: {
-              thinkingBudget: config.thinkingConfig.thinkingBudget,
-            },
-          }),
-        },
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(model, [{ role: 'user', parts: [{ text: prompt }] }], config, { responseMimeType: 'application/json', responseSchema: schema })
+      );
 
       const responseText = response.text;
       
@@ -273,24 +247,54 @@ export class StructuredOutputService {
         const text = responseText.trim().toLowerCase();
         if (text === 'true') return true;
         if (text === 'false') return false;
-        throw new Error(`Failed to parse boolean from response: ${responseText}`);
+        throw new GeminiParseError(`Failed to parse boolean from response: ${responseText}`, {
+          text: responseText,
+          cause: parseError
+        });
       }
     } catch (error) {
-      throw new Error(`Boolean generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'structuredOutput',
+        method: 'generateBoolean',
+        model: config?.model || this.defaultModel,
+        message: 'Boolean generation failed',
+        signal: config?.signal
+      });
     }
   }
 
-  async generateStructured(prompt: string, schema: JsonSchema, config?: GenerationConfig): Promise<any> {
+  /**
+   * Generate JSON output matching a schema
+   *
+   * @param prompt - Text prompt for generating content
+   * @param schema - JSON schema defining the structure of the response
+   * @param config - Optional configuration parameters
+   * @returns Promise with the parsed JSON result
+   */
+  async generateStructured<T = any>(prompt: string, schema: JsonSchema, config?: GenerationConfig): Promise<T> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const response = await ai.models.generateContent({
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, prompt, config, { responseMimeType: 'application/json', responseSchema: schema })
+      );
+      const responseText = response.text ?? '';
+
+      try {
+        return JSON.parse(responseText);
+      } catch (parseError) {
+        const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
+        throw new GeminiParseError(`Failed to parse JSON from response: ${errorMessage}\nOriginal response: ${responseText}`, {
+          text: responseText,
+          cause: parseError
+        });
+      }
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'structuredOutput',
+        method: 'generateStructured',
         model: config?.model || this.defaultModel,
-        contents: prompt,
-        config: {},
+        message: 'Structured output generation failed',
+        signal: config?.signal
       });
-      return response.text;
-    } catch (error) {
-      throw new Error(`Structured output generation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -312,8 +316,40 @@ export class StructuredOutputService {
     schema: JsonSchema,
     config?: GenerationConfig
   ): Promise<T> {
-    const isComplex = prompt.length > 300 || (schema && schema.type === 'object');
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    return this.generateWithSchema(prompt, schema, { ...config, model });
+    const isComplex = isComplexPrompt(prompt) || (schema && schema.type === 'object');
+    const { response } = await this.router.route(
+      'structured',
+      { complex: isComplex, model: config?.model },
+      model => this.generateWithSchema<T>(prompt, schema, { ...config, model })
+    );
+    return response;
+  }
+
+  /**
+   * Complete JSON cut off at `maxOutputTokens` with "continue" turns, as set by `config.continuation`
+   *
+   * Follow-up turns ask for the rest of the raw text, so they are sent without the
+   * response schema, which would make the model start a new JSON value.
+   */
+  private _continueJson(request: GenerateRequest, response: any, config: GenerationConfig) {
+    return continueResponse(
+      response,
+      (answer, message, maxOutputTokens) => this.client.models.generateContent({
+        model: request.model,
+        contents: [
+          ...request.contents,
+          { role: 'model', parts: [{ text: answer }] },
+          { role: 'user', parts: [{ text: message }] },
+        ],
+        config: {
+          ...request.config,
+          responseMimeType: undefined,
+          responseSchema: undefined,
+          ...(maxOutputTokens !== undefined && { maxOutputTokens }),
+        },
+      }),
+      config,
+      'json'
+    );
   }
-} 
\ No newline at end of file
+}
@@ -1,15 +1,24 @@
-import { GoogleGenAI } from "@google/genai";
-import { GenerationConfig, GenerationResponse } from '../types';
+import { GenerationConfig, GenerationResponse, ServiceTransport, SystemInstructionContent } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, GenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
+import { continueResponse } from '../utils/continuation';
 
 /**
  * Service for text generation with Gemini models
  */
 export class TextGenerationService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -27,29 +36,32 @@ export class TextGenerationService {
    */
   async generate(prompt: string, config?: GenerationConfig): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const response = await ai.models.generateContent({
+      const request = buildGenerateRequest(config?.model || this.defaultModel, prompt, config);
+      const response = await this.client.models.generateContent(request);
+      if (config?.continuation) {
+        return await this._continueText(request, response, config);
+      }
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'textGeneration',
+        method: 'generate',
         model: config?.model || this.defaultModel,
-        contents: prompt,
-        config: config ? {
-          maxOutputTokens: config.maxOutputTokens,
-          temperature: config.temperature,
-          topK: config.topK,
-          topP: config.topP,
-          stopSequences: config.stopSequences,
-        } : undefined,
+        message: 'Text generation failed',
+        signal: config?.signal
       });
-      return { text: response.text ?? '', raw: response };
-    } catch (error) {
-      throw new Error(`Text generation failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
    * Generate text with system instructions
    * 
+   * The instructions are sent as the request's `systemInstruction`, apart from the
+   * user prompt, so the prompt cannot override them by imitating them. Equivalent
+   * to `generate(prompt, { ...config, systemInstruction })`.
+   * 
    * @param prompt - Text prompt for generation
-   * @param systemInstruction - System instructions to guide the model
+   * @param systemInstruction - System instructions to guide the model: text, parts or a `{ parts }` content
    * @param config - Generation configuration options
    * @returns Promise with the generated text
    * 
@@ -64,27 +76,24 @@ export class TextGenerationService {
    */
   async generateWithSystemInstructions(
     prompt: string, 
-    systemInstruction: string,
+    systemInstruction: SystemInstructionContent,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const fullPrompt = `${systemInstruction}\n${prompt}`;
-      const response = await ai.models.generateContent({
+      const request = buildGenerateRequest(config?.model || this.defaultModel, prompt, config, { systemInstruction });
+      const response = await this.client.models.generateContent(request);
+      if (config?.continuation) {
+        return await this._continueText(request, response, config);
+      }
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'textGeneration',
+        method: 'generateWithSystemInstructions',
         model: config?.model || this.defaultModel,
-        contents: fullPrompt,
-        config: config ? {
-          maxOutputTokens: config.maxOutputTokens,
-          temperature: config.temperature,
-          topK: config.topK,
-          topP: config.topP,
-          stopSequences: config.stopSequences,
-        } : undefined,
+        message: 'Text generation with system instructions failed',
+        signal: config?.signal
       });
-      return { text: response.text ?? '', raw: response };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Text generation with system instructions failed: ${errorMessage}`);
     }
   }
 
@@ -93,34 +102,38 @@ export class TextGenerationService {
    * 
    * @param prompt - Text prompt for generation
    * @param config - Generation configuration options
-   * @returns AsyncIterable of response chunks
+   * @returns Stream of text, function-call, thought and usage events
    * 
    * @example
    * ```typescript
    * const stream = await gemini.textGeneration.streamGenerate("Explain how AI works");
-   * for await (const chunk of stream) {
-   *   console.log(chunk.text);
+   * for await (const event of stream) {
+   *   if (event.type === 'text-delta') {
+   *     process.stdout.write(event.text);
+   *   }
    * }
+   * console.log((await stream.finalResponse()).usageMetadata);
    * ```
    */
-  async streamGenerate(prompt: string, config?: GenerationConfig): Promise<AsyncIterable<any>> {
+  async streamGenerate(prompt: string, config?: GenerationConfig): Promise<GeminiStream> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const stream = await ai.models.generateContentStream({
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, prompt, config)
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'textGeneration',
+        method: 'streamGenerate',
         model: config?.model || this.defaultModel,
-        contents: prompt,
-        config: config ? {
-          maxOutputTokens: config.maxOutputTokens,
-          temperature: config.temperature,
-          topK: config.topK,
-          topP: config.topP,
-          stopSequences: config.stopSequences,
-        } : undefined,
+        signal: config?.signal
       });
-      return stream;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(`Stream text generation failed: ${errorMessage}`);
+      throw toGeminiError(error, {
+        service: 'textGeneration',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        message: 'Stream text generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -136,9 +149,30 @@ export class TextGenerationService {
    * ```
    */
   async generateAuto(prompt: string, config?: GenerationConfig): Promise<GenerationResponse> {
-    // Simple heuristic: use Pro for long/complex prompts, Flash for short/simple
-    const isComplex = prompt.length > 300 || /\b(explain|analyze|compare|summarize|step by step|detailed)\b/i.test(prompt);
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    return this.generate(prompt, { ...config, model });
+    const { response, model } = await this.router.route(
+      'text',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.generate(prompt, { ...config, model })
+    );
+    return { ...response, model };
+  }
+
+  /**
+   * Complete a response cut off at `maxOutputTokens` with "continue" turns, as set by `config.continuation`
+   */
+  private _continueText(request: GenerateRequest, response: any, config: GenerationConfig) {
+    return continueResponse(
+      response,
+      (answer, message, maxOutputTokens) => this.client.models.generateContent({
+        ...request,
+        contents: [
+          { role: 'user', parts: [{ text: request.contents }] },
+          { role: 'model', parts: [{ text: answer }] },
+          { role: 'user', parts: [{ text: message }] },
+        ],
+        config: { ...request.config, ...(maxOutputTokens !== undefined && { maxOutputTokens }) },
+      }),
+      config
+    );
   }
-} 
\ No newline at end of file
+}
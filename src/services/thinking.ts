@@ -1,4 +1,11 @@
-import { GenerationConfig, GenerationResponse, ThinkingConfig } from '../types';
+import { GenerationConfig, GenerationResponse, ThinkingConfig, ServiceTransport } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for working with Gemini's thinking capabilities
@@ -7,11 +14,13 @@ import { GenerationConfig, GenerationResponse, ThinkingConfig } from '../types';
  * during response generation, improving handling of complex tasks.
  */
 export class ThinkingService {
-  private client: any;
+  private client: ServiceTransport;
   private defaultModel = 'gemini-2.5-flash-preview-04-17';
+  private router: ModelRouter;
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -37,28 +46,73 @@ export class ThinkingService {
     config?: Omit<GenerationConfig, 'thinkingConfig'> & { thinkingConfig?: ThinkingConfig }
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      const thinkingConfig: ThinkingConfig = config?.thinkingConfig || { thinkingBudget };
-      const response = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-        thinkingConfig,
-      });
-      const responseText = response.response?.text() || '';
+      const thinkingConfig: ThinkingConfig = { thinkingBudget, ...config?.thinkingConfig };
+      this.router.models.validate(config?.model || this.defaultModel, { thinkingBudget: thinkingConfig.thinkingBudget });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ role: 'user', parts: [{ text: prompt }] }], config, { thinkingConfig })
+      );
+      const responseText = response.text ?? '';
       return {
         text: responseText,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Thinking generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'thinking',
+        method: 'generate',
+        model: config?.model || this.defaultModel,
+        message: 'Thinking generation failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream a response with thinking enabled
+   * 
+   * @param prompt - Text prompt for generation
+   * @param thinkingBudget - Token budget for thinking (0-24576)
+   * @param config - Additional generation configuration; set `thinkingConfig.includeThoughts` to receive `thought` events
+   * @returns Stream of text, thought and usage events
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.thinking.streamGenerate("Prove that there are infinitely many primes", 2048, {
+   *   thinkingConfig: { includeThoughts: true }
+   * });
+   * for await (const event of stream) {
+   *   if (event.type === 'thought') console.log('[thinking]', event.text);
+   *   if (event.type === 'text-delta') process.stdout.write(event.text);
+   * }
+   * ```
+   */
+  async streamGenerate(
+    prompt: string,
+    thinkingBudget: number = 1024,
+    config?: Omit<GenerationConfig, 'thinkingConfig'> & { thinkingConfig?: ThinkingConfig }
+  ): Promise<GeminiStream> {
+    try {
+      const thinkingConfig: ThinkingConfig = { thinkingBudget, ...config?.thinkingConfig };
+      this.router.models.validate(config?.model || this.defaultModel, { thinkingBudget: thinkingConfig.thinkingBudget });
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ role: 'user', parts: [{ text: prompt }] }], config, { thinkingConfig })
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'thinking',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
+      });
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'thinking',
+        method: 'streamGenerate',
+        model: config?.model || this.defaultModel,
+        message: 'Thinking stream generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -103,8 +157,9 @@ export class ThinkingService {
     prompt: string,
     config?: Omit<GenerationConfig, 'thinkingConfig'>
   ): Promise<GenerationResponse> {
-    // Use the maximum allowed thinking budget (24576 tokens)
-    return this.generate(prompt, 24576, config);
+    // Use the largest budget the model accepts
+    const maxBudget = this.router.models.get(config?.model || this.defaultModel)?.thinking?.maxBudget ?? 24576;
+    return this.generate(prompt, maxBudget, config);
   }
 
   /**
@@ -129,29 +184,34 @@ export class ThinkingService {
     try {
       // Not specifying a thinking budget allows the model to automatically
       // determine how much thinking to use
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
-      const response = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+      const { response, model } = await this.router.route(
+        'thinking',
+        { complex: isComplexPrompt(prompt), model: config?.model },
+        async (modelName) => {
+          this.router.models.validate(modelName, { thinking: true });
+          return this.client.models.generateContent(
+            buildGenerateRequest(modelName, [{ role: 'user', parts: [{ text: prompt }] }], config)
+          );
+        }
+      );
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       return {
         text: responseText,
+        model,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`Auto thinking generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'thinking',
+        method: 'generateAuto',
+        model: config?.model,
+        message: 'Auto thinking generation failed',
+        signal: config?.signal
+      });
     }
   }
 } 
\ No newline at end of file
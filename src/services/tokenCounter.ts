@@ -1,5 +1,9 @@
-import { GoogleGenAI } from "@google/genai";
-import { UsageMetadata } from '../types';
+import { UsageMetadata, RequestOptions, ServiceTransport, LocalTokenCount, LocalTokenCountOptions } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { MODEL_CAPABILITIES } from '../utils/config';
+import { estimateTokensLocally } from '../utils/tokenEstimator';
+
+const DEFAULT_LOCAL_COUNT_MARGIN = 0.1;
 
 /**
  * Service for counting tokens in content used with Gemini models
@@ -8,10 +12,10 @@ import { UsageMetadata } from '../types';
  * which is useful for understanding costs and ensuring you stay within model limits.
  */
 export class TokenCounterService {
-  private client: any;
+  private client: ServiceTransport;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport) {
     this.client = client;
   }
 
@@ -20,6 +24,7 @@ export class TokenCounterService {
    * 
    * @param text - The text to count tokens for
    * @param modelName - Optional model name to use for counting
+   * @param options - Optional request options (e.g. abort signal)
    * @returns Promise with the token count result
    * 
    * @example
@@ -33,17 +38,23 @@ export class TokenCounterService {
    */
   async countTokensInText(
     text: string,
-    modelName?: string
+    modelName?: string,
+    options?: RequestOptions
   ): Promise<{ totalTokens: number }> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const response = await ai.models.countTokens({
+      const response = await this.client.models.countTokens({
         model: modelName || this.defaultModel,
         contents: text,
+        config: { abortSignal: options?.signal, cache: options?.cache },
       });
       return { totalTokens: response.totalTokens ?? 0 };
     } catch (error) {
-      throw new Error(`Token counting failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'tokenCounter',
+        method: 'countTokensInText',
+        message: 'Token counting failed',
+        signal: options?.signal
+      });
     }
   }
 
@@ -52,6 +63,7 @@ export class TokenCounterService {
    * 
    * @param content - The content to count tokens for (can include text, images, audio, video)
    * @param modelName - Optional model name to use for counting
+   * @param options - Optional request options (e.g. abort signal)
    * @returns Promise with the token count result
    * 
    * @example
@@ -76,19 +88,26 @@ export class TokenCounterService {
    */
   async countTokensInContent(
     content: any[],
-    modelName?: string
+    modelName?: string,
+    options?: RequestOptions
   ): Promise<{ totalTokens: number }> {
     try {
       const model = modelName || this.defaultModel;
       
       const response = await this.client.models.countTokens({
         model,
-        contents: Array.isArray(content) ? content : [content]
+        contents: Array.isArray(content) ? content : [content],
+        config: { abortSignal: options?.signal, cache: options?.cache },
       });
       
       return { totalTokens: response.totalTokens ?? 0 };
     } catch (error) {
-      throw new Error(`Token counting failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'tokenCounter',
+        method: 'countTokensInContent',
+        message: 'Token counting failed',
+        signal: options?.signal
+      });
     }
   }
 
@@ -97,6 +116,7 @@ export class TokenCounterService {
    * 
    * @param chatHistory - The chat history to count tokens for
    * @param modelName - Optional model name to use for counting
+   * @param options - Optional request options (e.g. abort signal)
    * @returns Promise with the token count result
    * 
    * @example
@@ -112,19 +132,88 @@ export class TokenCounterService {
    */
   async countTokensInChatHistory(
     chatHistory: Array<{role: string, parts: Array<{text?: string}>}>,
-    modelName?: string
+    modelName?: string,
+    options?: RequestOptions
   ): Promise<{ totalTokens: number }> {
     try {
       const model = modelName || this.defaultModel;
       
       const response = await this.client.models.countTokens({
         model,
-        contents: chatHistory
+        contents: chatHistory,
+        config: { abortSignal: options?.signal, cache: options?.cache },
       });
       
       return { totalTokens: response.totalTokens ?? 0 };
     } catch (error) {
-      throw new Error(`Token counting failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'tokenCounter',
+        method: 'countTokensInChatHistory',
+        message: 'Token counting failed',
+        signal: options?.signal
+      });
+    }
+  }
+
+  /**
+   * Estimate tokens in content without calling the API
+   * 
+   * Takes the same content as `countTokensInContent`. Text counts about 4 characters
+   * per token; images, audio, video and PDFs use the documented per-tile, per-second
+   * and per-page rates, with sizes read from inline data. With `accuracy: 'accurate'`,
+   * the content is counted with the API instead when the estimate comes within
+   * `margin` of `limit` or media sizes could not be read.
+   * 
+   * @param content - The content to count tokens for (text, parts or chat turns)
+   * @param modelName - Optional model name, used for its context window and API counts
+   * @param options - Accuracy mode, limit and margin, and request options for API counts
+   * @returns Promise with the token count and where it came from
+   * 
+   * @example
+   * ```typescript
+   * const { totalTokens } = await gemini.tokenCounter.countTokensLocal(history);
+   * 
+   * // Exact count only when the prompt may not fit
+   * const count = await gemini.tokenCounter.countTokensLocal(content, 'gemini-2.0-flash', {
+   *   accuracy: 'accurate',
+   *   limit: 32000
+   * });
+   * ```
+   */
+  async countTokensLocal(
+    content: any,
+    modelName?: string,
+    options: LocalTokenCountOptions = {}
+  ): Promise<LocalTokenCount> {
+    const estimate = estimateTokensLocally(content);
+    const local: LocalTokenCount = { ...estimate, source: 'local' };
+    if (options.accuracy !== 'accurate') {
+      return local;
+    }
+
+    const model = modelName || this.defaultModel;
+    const limit = options.limit
+      ?? MODEL_CAPABILITIES.find(entry => entry.name === model.replace(/^models\//, ''))?.contextWindow;
+    const nearLimit = limit !== undefined
+      && estimate.totalTokens >= limit * (1 - (options.margin ?? DEFAULT_LOCAL_COUNT_MARGIN));
+    if (!nearLimit && estimate.unsizedParts === 0) {
+      return local;
+    }
+
+    try {
+      const response = await this.client.models.countTokens({
+        model,
+        contents: typeof content === 'string' || Array.isArray(content) ? content : [content],
+        config: { abortSignal: options.signal, cache: options.cache },
+      });
+      return { totalTokens: response.totalTokens ?? 0, source: 'api', unsizedParts: estimate.unsizedParts };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'tokenCounter',
+        method: 'countTokensLocal',
+        message: 'Token counting failed',
+        signal: options.signal
+      });
     }
   }
 
@@ -160,7 +249,9 @@ export class TokenCounterService {
     return {
       totalTokenCount: usageMetadata.totalTokenCount || 0,
       promptTokenCount: usageMetadata.promptTokenCount || 0,
-      candidatesTokenCount: usageMetadata.candidatesTokenCount || 0
+      candidatesTokenCount: usageMetadata.candidatesTokenCount || 0,
+      ...(usageMetadata.thoughtsTokenCount !== undefined && { thoughtsTokenCount: usageMetadata.thoughtsTokenCount }),
+      ...(usageMetadata.cachedContentTokenCount !== undefined && { cachedContentTokenCount: usageMetadata.cachedContentTokenCount })
     };
   }
 } 
\ No newline at end of file
@@ -2,19 +2,21 @@ import * as fs from 'fs';
 import { createWriteStream } from 'fs';
 import fetch from 'node-fetch';
 import { Readable } from 'stream';
-import { GenerationConfig } from '../types';
-import { GoogleGenAI } from "@google/genai";
+import { GenerationConfig, ServiceTransport } from '../types';
+import { toGeminiError } from '../utils/errors';
+import { buildGenerateRequest } from '../utils/generation';
+import { sleep } from '../utils/abort';
 
 /**
  * Service for video generation using Veo models
  */
 export class VideoGenerationService {
-  private client: any;
+  private client: ServiceTransport;
   private defaultVeoModel = 'veo-2.0-generate-001';
   private defaultImagenModel = 'imagen-3.0-generate-002';
   private pollingIntervalMs = 10000; // 10 seconds
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport) {
     this.client = client;
   }
 
@@ -47,6 +49,7 @@ export class VideoGenerationService {
       negativePrompt?: string;
       enhancePrompt?: boolean;
       apiKey?: string; // Optional API key for direct download
+      signal?: AbortSignal; // Cancels generation, polling and download
     }
   ): Promise<string[]> {
     try {
@@ -55,6 +58,7 @@ export class VideoGenerationService {
         model: this.defaultVeoModel,
         prompt,
         config: {
+          abortSignal: config?.signal,
           personGeneration: config?.personGeneration || 'dont_allow',
           aspectRatio: config?.aspectRatio || '16:9',
           numberOfVideos: config?.numberOfVideos || 1,
@@ -66,9 +70,10 @@ export class VideoGenerationService {
 
       // Poll until operation is complete
       while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, this.pollingIntervalMs));
+        await sleep(this.pollingIntervalMs, config?.signal);
         operation = await this.client.operations.getVideosOperation({
-          operation
+          operation,
+          config: { abortSignal: config?.signal },
         });
       }
 
@@ -102,7 +107,7 @@ export class VideoGenerationService {
           
           // Download and save the video
           if (uri) {
-            const response = await fetch(uri);
+            const response = await fetch(uri, { signal: config?.signal });
             if (response.body) {
               const writer = createWriteStream(filePath);
               Readable.fromWeb(response.body as any).pipe(writer);
@@ -121,7 +126,12 @@ export class VideoGenerationService {
       
       return videoPaths;
     } catch (error) {
-      throw new Error(`Video generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoGeneration',
+        method: 'generateFromText',
+        message: 'Video generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -156,6 +166,7 @@ export class VideoGenerationService {
       negativePrompt?: string;
       enhancePrompt?: boolean;
       apiKey?: string; // Optional API key for direct download
+      signal?: AbortSignal; // Cancels generation, polling and download
     }
   ): Promise<string[]> {
     try {
@@ -173,6 +184,7 @@ export class VideoGenerationService {
           mimeType
         },
         config: {
+          abortSignal: config?.signal,
           aspectRatio: config?.aspectRatio || '16:9',
           numberOfVideos: config?.numberOfVideos || 1,
           durationSeconds: config?.durationSeconds || 5,
@@ -183,9 +195,10 @@ export class VideoGenerationService {
 
       // Poll until operation is complete
       while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, this.pollingIntervalMs));
+        await sleep(this.pollingIntervalMs, config?.signal);
         operation = await this.client.operations.getVideosOperation({
-          operation
+          operation,
+          config: { abortSignal: config?.signal },
         });
       }
 
@@ -219,7 +232,7 @@ export class VideoGenerationService {
           
           // Download and save the video
           if (uri) {
-            const response = await fetch(uri);
+            const response = await fetch(uri, { signal: config?.signal });
             if (response.body) {
               const writer = createWriteStream(filePath);
               Readable.fromWeb(response.body as any).pipe(writer);
@@ -238,7 +251,12 @@ export class VideoGenerationService {
       
       return videoPaths;
     } catch (error) {
-      throw new Error(`Video generation from image failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoGeneration',
+        method: 'generateFromImage',
+        message: 'Video generation from image failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -275,6 +293,7 @@ export class VideoGenerationService {
       negativePrompt?: string;
       enhancePrompt?: boolean;
       apiKey?: string; // Optional API key for direct download
+      signal?: AbortSignal; // Cancels generation, polling and download
       saveImage?: boolean; // Whether to save the generated image
       imageOutputPath?: string; // Path to save the generated image
     }
@@ -285,6 +304,7 @@ export class VideoGenerationService {
         model: this.defaultImagenModel,
         prompt,
         config: {
+          abortSignal: config?.signal,
           numberOfImages: 1,
           aspectRatio: (config?.aspectRatio === '9:16' ? '9:16' : '16:9') as any
         }
@@ -321,6 +341,7 @@ export class VideoGenerationService {
             mimeType: 'image/png'
           },
           config: {
+            abortSignal: config?.signal,
             aspectRatio: config?.aspectRatio || '16:9',
             numberOfVideos: config?.numberOfVideos || 1,
             durationSeconds: config?.durationSeconds || 5,
@@ -331,9 +352,10 @@ export class VideoGenerationService {
 
         // Poll until operation is complete
         while (!operation.done) {
-          await new Promise(resolve => setTimeout(resolve, this.pollingIntervalMs));
+          await sleep(this.pollingIntervalMs, config?.signal);
           operation = await this.client.operations.getVideosOperation({
-            operation
+            operation,
+            config: { abortSignal: config?.signal },
           });
         }
 
@@ -367,7 +389,7 @@ export class VideoGenerationService {
             
             // Download and save the video
             if (uri) {
-              const response = await fetch(uri);
+              const response = await fetch(uri, { signal: config?.signal });
               if (response.body) {
                 const writer = createWriteStream(filePath);
                 Readable.fromWeb(response.body as any).pipe(writer);
@@ -389,7 +411,12 @@ export class VideoGenerationService {
         throw new Error('Failed to generate image with Imagen');
       }
     } catch (error) {
-      throw new Error(`Combined image-to-video generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoGeneration',
+        method: 'generateFromImagenToVideo',
+        message: 'Combined image-to-video generation failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -417,14 +444,17 @@ export class VideoGenerationService {
 
   async generateVideo(prompt: string, config?: GenerationConfig): Promise<any> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
-      const response = await ai.models.generateContent({
-        model: config?.model || this.defaultVeoModel,
-        contents: prompt,
-      });
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultVeoModel, prompt, config)
+      );
       return response;
     } catch (error) {
-      throw new Error(`Video generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoGeneration',
+        method: 'generateVideo',
+        message: 'Video generation failed',
+        signal: config?.signal
+      });
     }
   }
 } 
\ No newline at end of file
@@ -4,10 +4,17 @@ import {
   TranscriptionResponse,
   VideoAnalysisResponse,
   TranscriptEntry,
-  VideoScene
+  VideoScene,
+  ServiceTransport
 } from '../types';
 import * as fs from 'fs';
-import { GoogleGenAI } from "@google/genai";
+import { GeminiFileProcessingError, GeminiTimeoutError, toGeminiError } from '../utils/errors';
+import { buildGenerateRequest, getCandidates } from '../utils/generation';
+import { getSafetyInfo } from '../utils/safety';
+import { isComplexPrompt } from '../utils/modelRegistry';
+import { ModelRouter } from '../utils/modelRouter';
+import { abortableIterable, sleep } from '../utils/abort';
+import { GeminiStream } from '../utils/geminiStream';
 
 /**
  * Service for video understanding with Gemini models
@@ -16,11 +23,13 @@ import { GoogleGenAI } from "@google/genai";
  * scene analysis, and answering questions about video content.
  */
 export class VideoUnderstandingService {
-  private client: any;
+  private client: ServiceTransport;
+  private router: ModelRouter;
   private defaultModel = 'gemini-2.0-flash';
 
-  constructor(client: any) {
+  constructor(client: ServiceTransport, router: ModelRouter = new ModelRouter()) {
     this.client = client;
+    this.router = router;
   }
 
   /**
@@ -46,20 +55,65 @@ export class VideoUnderstandingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const ai = new GoogleGenAI({ apiKey: this.client.apiKey });
       const videoBuffer = fs.readFileSync(videoPath);
       const base64Video = videoBuffer.toString('base64');
       const contents = [
         { inlineData: { mimeType: 'video/mp4', data: base64Video } },
         { text: prompt }
       ];
-      const response = await ai.models.generateContent({
+      const response = await this.client.models.generateContent(
+        buildGenerateRequest(config?.model || this.defaultModel, contents, config)
+      );
+      return { text: response.text ?? '', ...getSafetyInfo(response), ...getCandidates(response), raw: response };
+    } catch (error) {
+      throw toGeminiError(error, {
+        service: 'videoUnderstanding',
+        method: 'analyzeVideo',
         model: config?.model || this.defaultModel,
-        contents,
+        message: 'Video analysis failed',
+        signal: config?.signal
+      });
+    }
+  }
+
+  /**
+   * Stream the analysis of a video with a custom prompt
+   * 
+   * @param videoPath - Path to the video file
+   * @param prompt - Custom prompt for analyzing the video
+   * @param config - Generation configuration options
+   * @returns Stream of text and usage events
+   * 
+   * @example
+   * ```typescript
+   * const stream = await gemini.videoUnderstanding.streamAnalyzeVideo("/path/to/video.mp4", "Describe this video");
+   * await stream.pipe(process.stdout);
+   * ```
+   */
+  async streamAnalyzeVideo(
+    videoPath: string,
+    prompt: string,
+    config?: GenerationConfig
+  ): Promise<GeminiStream> {
+    try {
+      const data = fs.readFileSync(videoPath).toString('base64');
+      const stream = await this.client.models.generateContentStream(
+        buildGenerateRequest(config?.model || this.defaultModel, [{ inlineData: { mimeType: 'video/mp4', data } }, { text: prompt }], config)
+      );
+      return new GeminiStream(abortableIterable(stream, config?.signal), {
+        service: 'videoUnderstanding',
+        method: 'streamAnalyzeVideo',
+        model: config?.model || this.defaultModel,
+        signal: config?.signal
       });
-      return { text: response.text ?? '', raw: response };
     } catch (error) {
-      throw new Error(`Video analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoUnderstanding',
+        method: 'streamAnalyzeVideo',
+        model: config?.model || this.defaultModel,
+        message: 'Video analysis stream failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -102,7 +156,12 @@ export class VideoUnderstandingService {
         raw: response.raw
       };
     } catch (error) {
-      throw new Error(`Video transcription failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoUnderstanding',
+        method: 'transcribeVideo',
+        message: 'Video transcription failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -145,7 +204,12 @@ export class VideoUnderstandingService {
         raw: response.raw
       };
     } catch (error) {
-      throw new Error(`Video scene analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoUnderstanding',
+        method: 'analyzeScenes',
+        message: 'Video scene analysis failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -181,7 +245,12 @@ export class VideoUnderstandingService {
         config
       );
     } catch (error) {
-      throw new Error(`Video question at timestamp failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoUnderstanding',
+        method: 'questionAtTimestamp',
+        message: 'Video question at timestamp failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -210,10 +279,9 @@ export class VideoUnderstandingService {
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
     try {
-      const model = this.client.models.get(config?.model || this.defaultModel);
-      
-      const response = await model.generateContent({
-        contents: [
+      const response = await this.client.models.generateContent(buildGenerateRequest(
+        config?.model || this.defaultModel,
+        [
           {
             role: 'user',
             parts: [
@@ -226,25 +294,25 @@ export class VideoUnderstandingService {
             ]
           }
         ],
-        ...(config && {
-          generationConfig: {
-            maxOutputTokens: config.maxOutputTokens,
-            temperature: config.temperature,
-            topK: config.topK,
-            topP: config.topP,
-            stopSequences: config.stopSequences,
-          },
-        }),
-      });
+        config
+      ));
 
-      const responseText = response.response?.text() || '';
+      const responseText = response.text ?? '';
       
       return {
         text: responseText,
+        ...getSafetyInfo(response),
+        ...getCandidates(response),
         raw: response
       };
     } catch (error) {
-      throw new Error(`YouTube video analysis failed: ${error instanceof Error ? error.message : String(error)}`);
+      throw toGeminiError(error, {
+        service: 'videoUnderstanding',
+        method: 'analyzeYouTubeVideo',
+        model: config?.model || this.defaultModel,
+        message: 'YouTube video analysis failed',
+        signal: config?.signal
+      });
     }
   }
 
@@ -265,35 +333,46 @@ export class VideoUnderstandingService {
     prompt: string,
     config?: GenerationConfig
   ): Promise<GenerationResponse> {
-    const isComplex = prompt.length > 300 || /\b(transcribe|detailed|analyze|summarize|qa|question|scene)\b/i.test(prompt);
-    const model = config?.model || (isComplex ? 'gemini-2.5-pro-preview-05-06' : this.defaultModel);
-    return this.analyzeVideo(videoPath, prompt, { ...config, model });
+    const { response, model } = await this.router.route(
+      'videoUnderstanding',
+      { complex: isComplexPrompt(prompt), model: config?.model },
+      model => this.analyzeVideo(videoPath, prompt, { ...config, model })
+    );
+    return { ...response, model };
   }
 
   /**
    * Helper method to wait for file processing to complete
    * @private
    */
-  private async _waitForFileProcessing(fileName: string, maxAttempts = 30, intervalMs = 5000): Promise<void> {
+  private async _waitForFileProcessing(
+    fileName: string,
+    maxAttempts = 30,
+    intervalMs = 5000,
+    signal?: AbortSignal
+  ): Promise<void> {
     let attempts = 0;
     
     while (attempts < maxAttempts) {
-      const fileInfo = await this.client.files.get({ name: fileName });
+      const fileInfo = await this.client.files.get({ name: fileName, config: { abortSignal: signal } });
       
       if (fileInfo.state === 'PROCESSED') {
         return;
       }
       
       if (fileInfo.state === 'FAILED') {
-        throw new Error('File processing failed');
+        throw new GeminiFileProcessingError('File processing failed', {
+          service: 'videoUnderstanding',
+          fileName
+        });
       }
       
       // Wait before trying again
-      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      await sleep(intervalMs, signal);
       attempts++;
     }
     
-    throw new Error('Timed out waiting for file processing');
+    throw new GeminiTimeoutError('Timed out waiting for file processing', { service: 'videoUnderstanding' });
   }
 
   /**
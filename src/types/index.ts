@@ -1,11 +1,737 @@
+/**
+ * Transport surface used by all services to reach the Gemini API.
+ *
+ * The default transport is a single `@google/genai` client shared by every
+ * service; any object exposing the same namespaces can be supplied instead.
+ */
+export interface GeminiTransport {
+  /** Model operations (generateContent, countTokens, generateImages, ...) */
+  models: any;
+  /** File API operations */
+  files: any;
+  /** Long-running operation polling */
+  operations: any;
+}
+
+/**
+ * Transport handed to each service.
+ *
+ * Every call is routed through the client's interceptors (retry, ...), and chat
+ * sessions are built on top of `models` so that chat traffic is intercepted too.
+ */
+export interface ServiceTransport extends GeminiTransport {
+  /** Chat session factory */
+  chats: {
+    create(params: { model: string; history?: any[]; config?: any }): any;
+  };
+}
+
+/**
+ * Names of the services exposed by GeminiClient ('models' is the client's own model discovery)
+ */
+export type ServiceName =
+  | 'textGeneration'
+  | 'chat'
+  | 'multimodal'
+  | 'imageGeneration'
+  | 'videoGeneration'
+  | 'structuredOutput'
+  | 'thinking'
+  | 'functionCalling'
+  | 'files'
+  | 'documentUnderstanding'
+  | 'imageUnderstanding'
+  | 'videoUnderstanding'
+  | 'audioUnderstanding'
+  | 'codeExecution'
+  | 'searchGrounding'
+  | 'tokenCounter'
+  | 'models';
+
+/**
+ * Information passed to `RetryPolicy.onRetry` before each retry
+ */
+export interface RetryEvent {
+  /** Service that issued the call */
+  service?: ServiceName;
+  /** Transport operation being retried (e.g. 'models.generateContent') */
+  operation?: string;
+  /** Number of the attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  /** Error raised by the failed attempt */
+  error: unknown;
+}
+
+/**
+ * Retry policy for transient API failures (quota, overload, network errors)
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after each attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Randomize delays so concurrent callers do not retry in lockstep (default: true) */
+  jitter?: boolean;
+  /** HTTP status codes that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryableStatusCodes?: number[];
+  /** Wait at least as long as the server's Retry-After / RetryInfo hint (default: true) */
+  respectRetryAfter?: boolean;
+  /** Also retry file uploads and video generation, which may take effect twice (default: false) */
+  retryNonIdempotent?: boolean;
+  /** Callback invoked before each retry */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Client-side limits for one model
+ */
+export interface RateLimit {
+  /** Maximum requests started per rolling minute */
+  requestsPerMinute?: number;
+  /** Maximum tokens (prompt + response) per rolling minute */
+  tokensPerMinute?: number;
+  /** Maximum requests in flight at the same time */
+  maxConcurrency?: number;
+}
+
+/**
+ * Information passed to `RateLimiter` `onQueued` callbacks when a call has to wait
+ */
+export interface RateLimitEvent {
+  /** Model whose limit delayed the call */
+  model: string;
+  /** Estimated tokens of the queued call */
+  tokens: number;
+  /** Number of calls waiting for this model, including this one */
+  queueLength: number;
+}
+
+/**
+ * Storage for cached responses
+ *
+ * Values are JSON strings, so any key-value store (Redis, Memcached, a database
+ * table) can back the cache with a thin adapter.
+ */
+export interface CacheStore {
+  /** Get a stored value, or undefined if it is missing or expired */
+  get(key: string): Promise<string | undefined>;
+  /** Store a value, expiring after `ttlMs` milliseconds when given */
+  set(key: string, value: string, ttlMs?: number): Promise<void>;
+  /** Remove a value */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Response cache settings
+ */
+export interface CacheOptions {
+  /** Where responses are kept (default: an in-memory LRU store of 1000 entries) */
+  store?: CacheStore;
+  /** How long responses are kept in milliseconds (default: until the store evicts them) */
+  ttlMs?: number;
+  /** Also cache requests whose temperature is not 0 (unset means the API's 1.0), whose responses vary between calls (default: false) */
+  cacheNonZeroTemperature?: boolean;
+}
+
+/**
+ * Whether a cassette captures live API traffic or serves it back
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * Record/replay settings
+ */
+export interface CassetteOptions {
+  /** JSON file holding the recorded interactions */
+  path: string;
+  /** 'record' calls the API and captures each request and response; 'replay' serves them from the file without network (default: 'replay') */
+  mode?: CassetteMode;
+}
+
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  /** Prompt tokens */
+  input: number;
+  /** Response tokens */
+  output: number;
+  /** Thinking tokens (default: the output price) */
+  thinking?: number;
+  /** Prompt tokens served from a context cache (default: the input price) */
+  cachedInput?: number;
+}
+
+/**
+ * Usage ledger settings
+ */
+export interface UsageOptions {
+  /** Prices keyed by model name or name prefix, merged over `MODEL_PRICES` */
+  prices?: Record<string, ModelPrice>;
+  /** Entries kept before the oldest are dropped (default: 10000) */
+  maxEntries?: number;
+  /** Called with every recorded entry, e.g. to persist it */
+  onEntry?: (entry: UsageEntry) => void;
+}
+
+/**
+ * Token usage of one API call, as recorded by the usage ledger
+ */
+export interface UsageEntry {
+  /** When the call completed (ISO 8601, UTC) */
+  timestamp: string;
+  /** Service that made the call */
+  service: ServiceName;
+  /** Transport operation (e.g. 'models.generateContent') */
+  operation: string;
+  /** Model the request targeted */
+  model: string;
+  /** Caller-supplied label (e.g. a tenant or feature), see `UsageLedger.withLabel` */
+  label?: string;
+  promptTokens: number;
+  candidatesTokens: number;
+  thinkingTokens: number;
+  /** Prompt tokens served from a context cache (included in `promptTokens`) */
+  cachedTokens: number;
+  totalTokens: number;
+  /** Cost in US dollars; undefined when the model has no price */
+  cost?: number;
+}
+
+/**
+ * Field usage entries can be grouped by
+ */
+export type UsageGroup = 'service' | 'model' | 'label';
+
+/**
+ * Period usage entries can be summarized per (UTC)
+ */
+export type UsagePeriod = 'hour' | 'day' | 'month';
+
+/**
+ * Which usage entries to include
+ */
+export interface UsageFilter {
+  /** Entries at or after this time */
+  since?: Date | string;
+  /** Entries before this time */
+  until?: Date | string;
+  service?: ServiceName;
+  model?: string;
+  label?: string;
+}
+
+/**
+ * How to summarize usage entries
+ */
+export interface UsageSummaryOptions extends UsageFilter {
+  /** Fields to group by (default: none, one row per period) */
+  groupBy?: UsageGroup[];
+  /** Period to group by (default: none) */
+  period?: UsagePeriod;
+}
+
+/**
+ * Usage totals of a group of entries
+ */
+export interface UsageSummary {
+  /** Start of the period (e.g. '2025-06-01' for a day, '2025-06' for a month), when grouped by period */
+  period?: string;
+  service?: ServiceName;
+  model?: string;
+  label?: string;
+  calls: number;
+  promptTokens: number;
+  candidatesTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  totalTokens: number;
+  /** Cost in US dollars of the priced calls */
+  cost: number;
+  /** Calls to models without a price, not included in `cost` */
+  unpricedCalls: number;
+}
+
+/**
+ * Token or cost allowance enforced before calls are sent
+ */
+export interface Budget {
+  /** Name used in errors and callbacks (default: a description of the limits) */
+  name?: string;
+  /** Most tokens (prompt, response and thinking) the calls may use */
+  maxTokens?: number;
+  /** Most the calls may cost, in US dollars */
+  maxCost?: number;
+  /** Window the allowance renews per (UTC); the lifetime of the client when omitted */
+  period?: UsagePeriod;
+  /** Only count and guard calls with this label (see `UsageLedger.withLabel`) */
+  label?: string;
+  /** Give every label its own allowance (calls without a label share one) */
+  perLabel?: boolean;
+  /** Fraction of the allowance at which `onWarning` is called (default: 0.8) */
+  warnAt?: number;
+  /** Refuse the call, or send it to the cheaper `downgradeTo` model if that fits (default: 'block') */
+  action?: 'block' | 'downgrade';
+  /** Model used by the 'downgrade' action */
+  downgradeTo?: string;
+}
+
+/**
+ * Tokens and cost, spent or estimated
+ */
+export interface BudgetAmount {
+  tokens: number;
+  /** Cost in US dollars */
+  cost: number;
+}
+
+/**
+ * Budget crossing reported to `BudgetOptions.onWarning` and `onExceeded`
+ */
+export interface BudgetEvent {
+  budget: Budget;
+  /** Name of the budget */
+  name: string;
+  /** 'warn' when usage reached `warnAt`, else what happened to the call */
+  action: 'warn' | 'block' | 'downgrade';
+  /** Window the usage belongs to (e.g. '2025-06-01'), when the budget has a period */
+  window?: string;
+  /** Label of the call */
+  label?: string;
+  /** Model the call targeted */
+  model: string;
+  /** Model the call was sent to instead, for 'downgrade' */
+  downgradedTo?: string;
+  /** Usage of the window so far, including calls in flight */
+  spent: BudgetAmount;
+  /** Estimated usage of the call, for 'block' and 'downgrade' */
+  estimate?: BudgetAmount;
+}
+
+/**
+ * Current usage of a budget, per window and label
+ */
+export interface BudgetStatus {
+  budget: Budget;
+  name: string;
+  window?: string;
+  label?: string;
+  spent: BudgetAmount;
+  /** Tokens and cost left; undefined for limits the budget does not set */
+  remaining: { tokens?: number; cost?: number };
+}
+
+/**
+ * Spending budgets checked before each generateContent call
+ */
+export interface BudgetOptions {
+  budgets: Budget[];
+  /**
+   * How prompt tokens are estimated before a call: 'api' counts them with the token
+   * counting API (falling back to 'local' if it fails), 'local' estimates them
+   * offline with `estimateTokensLocally` (default: 'api')
+   */
+  estimate?: 'api' | 'local';
+  /**
+   * Response tokens reserved for a call without `maxOutputTokens`, at most the
+   * model's output token limit (default: 8192). The reservation is corrected
+   * from the response's usage once the call completes.
+   */
+  defaultMaxOutputTokens?: number;
+  /** Called once per budget, window and label when usage reaches `warnAt` */
+  onWarning?: (event: BudgetEvent) => void;
+  /** Called when a call is blocked or downgraded */
+  onExceeded?: (event: BudgetEvent) => void;
+}
+
+/**
+ * Severity of a log event, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log message
+ */
+export interface LogEvent {
+  /** Service that produced the event */
+  service?: ServiceName;
+  /** Service method (e.g. 'generate') */
+  method?: string;
+  /** Transport operation (e.g. 'models.generateContent') */
+  operation?: string;
+  /** Model the call targeted */
+  model?: string;
+  /** Duration of the call in milliseconds, including retries */
+  latencyMs?: number;
+  /** Token usage reported by the API */
+  usage?: {
+    promptTokens?: number;
+    responseTokens?: number;
+    totalTokens?: number;
+  };
+  /** Number of retries before the call settled */
+  retries?: number;
+  /** Error that ended the call */
+  error?: {
+    name: string;
+    message: string;
+    status?: number;
+  };
+  /** Any further fields (redacted arguments, results, parse errors) */
+  [key: string]: unknown;
+}
+
+/**
+ * Logger receiving the client's structured events
+ *
+ * Adapt pino, winston or any other logger by forwarding each level.
+ */
+export interface Logger {
+  debug(message: string, event?: LogEvent): void;
+  info(message: string, event?: LogEvent): void;
+  warn(message: string, event?: LogEvent): void;
+  error(message: string, event?: LogEvent): void;
+}
+
+/**
+ * Attribute value accepted by OpenTelemetry spans and metrics
+ */
+export type TelemetryAttributeValue = string | number | boolean | string[] | number[];
+
+/**
+ * Span as exposed by `@opentelemetry/api`
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: any): unknown;
+  end(): void;
+}
+
+/**
+ * Tracer as exposed by `@opentelemetry/api` (e.g. `trace.getTracer('gemini-nexus')`)
+ */
+export interface TelemetryTracer {
+  startActiveSpan(
+    name: string,
+    options: { kind?: number; attributes?: Record<string, TelemetryAttributeValue> },
+    fn: (span: TelemetrySpan) => any
+  ): any;
+}
+
+/**
+ * Meter as exposed by `@opentelemetry/api` (e.g. `metrics.getMeter('gemini-nexus')`)
+ */
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: Record<string, TelemetryAttributeValue>): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: Record<string, TelemetryAttributeValue>): void;
+  };
+}
+
+/**
+ * OpenTelemetry instrumentation; the SDK does not depend on `@opentelemetry/api`,
+ * pass the tracer and meter of your own setup
+ */
+export interface TelemetryOptions {
+  /** Tracer creating a span per service method and per API call */
+  tracer?: TelemetryTracer;
+  /** Meter recording request, latency and token metrics */
+  meter?: TelemetryMeter;
+}
+
+/**
+ * Request passed to a model call (the `@google/genai` request parameters)
+ */
+export interface ModelRequest {
+  /** Model the request targets */
+  model: string;
+  /** Prompt contents */
+  contents?: any;
+  /** Request configuration (generation parameters, tools, abort signal) */
+  config?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * A model call seen by middleware
+ */
+export interface MiddlewareContext {
+  /** Service that issued the call */
+  service: ServiceName;
+  /** Transport operation (e.g. 'models.generateContent', 'models.countTokens') */
+  operation: string;
+  /** Outgoing request */
+  request: ModelRequest;
+}
+
+/**
+ * Function wrapped around every model call of a client
+ *
+ * Call `next` (optionally with a rewritten request) to continue the chain and return
+ * its response, possibly rewritten, or return a result without calling `next` to
+ * short-circuit the call. For streaming operations the response is the chunk iterator.
+ */
+export type Middleware = (
+  context: MiddlewareContext,
+  next: (request?: ModelRequest) => Promise<any>
+) => Promise<any>;
+
+/**
+ * Per-service overrides of client-level options
+ */
+export interface ServiceOptions {
+  /** Retry policy for this service, or `false` to disable retries */
+  retry?: RetryPolicy | false;
+}
+
 /**
  * Client options for initializing the Gemini SDK
  */
 export interface ClientOptions {
+  /** Gemini API key for authentication */
+  apiKey?: string;
   /** Base URL for API requests */
   apiEndpoint?: string;
+  /** API version segment appended to the endpoint (e.g. 'v1beta') */
+  apiVersion?: string;
   /** Timeout for API requests in milliseconds */
   timeout?: number;
+  /** Additional HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /** Log every call and result to the console at debug level (shorthand for `logger: console, logLevel: 'debug'`) */
+  debug?: boolean;
+  /** Logger receiving structured events; nothing is logged when omitted */
+  logger?: Logger;
+  /** Least severe level passed to the logger (default: 'info', or 'debug' with `debug`) */
+  logLevel?: LogLevel;
+  /** Custom transport used instead of the default `@google/genai` client */
+  transport?: GeminiTransport;
+  /** Retry policy applied to every service, or `false` to disable retries */
+  retry?: RetryPolicy | false;
+  /** Per-service overrides, keyed by service name */
+  services?: Partial<Record<ServiceName, ServiceOptions>>;
+  /** Extra or updated entries for the model registry (see `GeminiClient.models`) */
+  models?: ModelCapabilities[];
+  /** Policy and fallback chains used by the `*Auto` methods to pick models */
+  router?: RouterOptions;
+  /** How long `listModels` results are cached, in milliseconds (default: 3600000) */
+  modelCacheTtlMs?: number;
+  /** Per-model request, token and concurrency limits, keyed by model name ('*' for all other models) */
+  rateLimits?: Record<string, RateLimit>;
+  /** OpenTelemetry tracer and meter; nothing is instrumented when omitted */
+  telemetry?: TelemetryOptions;
+  /** Middleware wrapped around every model call, outermost first (more can be added with `use`) */
+  middleware?: Middleware[];
+  /** Cache for generateContent, embedContent and countTokens responses; `true` uses an in-memory store */
+  cache?: boolean | CacheOptions;
+  /** Record API traffic to a cassette file, or replay it offline (see `GeminiClient.cassette`) */
+  cassette?: CassetteOptions;
+  /** Prices and retention of the usage ledger (see `GeminiClient.usage`) */
+  usage?: UsageOptions;
+  /** Token and cost budgets that block or downgrade calls before they exceed them (see `GeminiClient.budgets`) */
+  budgets?: BudgetOptions;
+  /** Default system instruction (persona) for generateContent calls that set none (see `GeminiClient.systemInstruction`) */
+  systemInstruction?: SystemInstructionContent;
+  /** Default blocking thresholds per harm category for generateContent calls; per-call settings win per category */
+  safetySettings?: SafetySetting[];
+}
+
+/**
+ * Per-call options accepted by every service method
+ */
+export interface RequestOptions {
+  /** Signal that cancels the call: in-flight HTTP requests, polling loops and streams */
+  signal?: AbortSignal;
+  /** With a client cache: `false` skips it for this call, `true` caches the call even with a temperature above zero */
+  cache?: boolean;
+}
+
+/**
+ * Options for `TokenCounterService.countTokensLocal`
+ */
+export interface LocalTokenCountOptions extends RequestOptions {
+  /**
+   * 'fast' (default) never calls the API; 'accurate' counts with the API when the
+   * estimate is near `limit` or the content holds media of unknown size
+   */
+  accuracy?: 'fast' | 'accurate';
+  /** Token limit the estimate is checked against (default: the model's context window) */
+  limit?: number;
+  /** How close to `limit` an estimate is near it, as a fraction of the limit (default: 0.1) */
+  margin?: number;
+}
+
+/**
+ * Token count computed by `TokenCounterService.countTokensLocal`
+ */
+export interface LocalTokenCount {
+  totalTokens: number;
+  /** 'local' for an estimate, 'api' when the count came from the token counting API */
+  source: 'local' | 'api';
+  /** Media parts whose size could not be read locally and were guessed */
+  unsizedParts: number;
+}
+
+/**
+ * Model returned by `GeminiClient.listModels`
+ */
+export interface ModelInfo {
+  /** Model ID used in requests (e.g. 'gemini-2.0-flash') */
+  name: string;
+  /** Resource name (e.g. 'models/gemini-2.0-flash') */
+  resourceName: string;
+  /** Human-readable name */
+  displayName?: string;
+  /** Description of the model */
+  description?: string;
+  /** Model version */
+  version?: string;
+  /** Maximum number of input tokens */
+  inputTokenLimit?: number;
+  /** Maximum number of output tokens */
+  outputTokenLimit?: number;
+  /** API methods the model supports (e.g. 'generateContent', 'countTokens', 'embedContent') */
+  supportedGenerationMethods: string[];
+  /** Whether the model supports thinking */
+  thinking: boolean;
+}
+
+/**
+ * Input or output modality of a model
+ */
+export type ModelModality = 'text' | 'image' | 'audio' | 'video' | 'pdf';
+
+/**
+ * Tool or feature a model may support
+ */
+export type ModelTool = 'functionCalling' | 'codeExecution' | 'googleSearch' | 'googleSearchRetrieval' | 'structuredOutput';
+
+/**
+ * Relative price of a model, cheapest first
+ */
+export type PricingTier = 'lite' | 'standard' | 'premium';
+
+/**
+ * Task a model can be selected for
+ */
+export type ModelTask =
+  | 'text'
+  | 'chat'
+  | 'code'
+  | 'multimodal'
+  | 'grounding'
+  | 'structured'
+  | 'functionCalling'
+  | 'thinking'
+  | 'image'
+  | 'video'
+  | 'imageUnderstanding'
+  | 'audioUnderstanding'
+  | 'videoUnderstanding'
+  | 'document';
+
+/**
+ * Capabilities of one model, as recorded in the model registry
+ */
+export interface ModelCapabilities {
+  /** Model ID (e.g. 'gemini-2.0-flash') */
+  name: string;
+  /** Maximum number of input tokens */
+  contextWindow: number;
+  /** Maximum number of output tokens */
+  outputTokenLimit: number;
+  /** API methods the model serves (e.g. 'generateContent', 'generateImages') */
+  methods: string[];
+  /** Accepted input modalities */
+  inputModalities: ModelModality[];
+  /** Produced output modalities */
+  outputModalities: ModelModality[];
+  /** Thinking budget range, for models that think */
+  thinking?: {
+    minBudget: number;
+    maxBudget: number;
+    /** Whether a budget of 0 turns thinking off */
+    canDisable: boolean;
+  };
+  /** Supported tools and features */
+  tools: ModelTool[];
+  /** Pricing tier */
+  tier: PricingTier;
+  /** Older model that is still accepted but never selected automatically */
+  legacy?: boolean;
+}
+
+/**
+ * What a request needs from a model
+ */
+export interface ModelRequirements {
+  /** API method (default: 'generateContent') */
+  method?: string;
+  /** Modalities present in the input */
+  inputModalities?: ModelModality[];
+  /** Modalities requested in the output */
+  outputModalities?: ModelModality[];
+  /** Tools and features used */
+  tools?: ModelTool[];
+  /** Whether the model must think */
+  thinking?: boolean;
+  /** Requested thinking budget */
+  thinkingBudget?: number;
+}
+
+/**
+ * How the model router orders the models it tries
+ *
+ * - `balanced`: standard models first, premium ones first for complex prompts
+ * - `cost`: cheapest pricing tier first
+ * - `latency`: models without thinking first, then the cheapest (fastest) tier
+ * - `quality`: premium models first
+ */
+export type RoutingPolicy = 'balanced' | 'cost' | 'latency' | 'quality';
+
+/**
+ * Information passed to `RouterOptions.onFallback` before trying the next model
+ */
+export interface FallbackEvent {
+  /** Task being routed, if the call named one */
+  task?: ModelTask;
+  /** Model that failed */
+  model: string;
+  /** Model tried next */
+  nextModel: string;
+  /** Error raised by the failed model */
+  error: unknown;
+}
+
+/**
+ * Configuration of the model router used by the `*Auto` methods
+ */
+export interface RouterOptions {
+  /** Order in which suitable models are tried (default: 'balanced') */
+  policy?: RoutingPolicy;
+  /** Ordered fallback chain per task, e.g. `{ code: ['gemini-2.5-pro-preview-05-06', 'gemini-2.0-flash'] }`; overrides the policy */
+  fallbacks?: Partial<Record<ModelTask, string[]>>;
+  /** Callback invoked before each fallback */
+  onFallback?: (event: FallbackEvent) => void;
+}
+
+/**
+ * Options for `GeminiClient.listModels`
+ */
+export interface ListModelsOptions extends RequestOptions {
+  /** Number of models fetched per page (default: 100) */
+  pageSize?: number;
+  /** Bypass the cache and fetch the list again */
+  refresh?: boolean;
 }
 
 /**
@@ -14,6 +740,8 @@ export interface ClientOptions {
 export interface ThinkingConfig {
   /** Token budget for thinking (0-24576). Setting to 0 disables thinking. */
   thinkingBudget?: number;
+  /** Include thought summaries in the response (streamed as `thought` events) */
+  includeThoughts?: boolean;
 }
 
 /**
@@ -218,7 +946,7 @@ export interface FileUploadConfig {
 /**
  * Options for uploading a file
  */
-export interface FileUploadOptions {
+export interface FileUploadOptions extends RequestOptions {
   /** The file to upload (Blob, Buffer, file path) */
   file: Blob | Buffer | string;
   /** Configuration options for the upload */
@@ -228,7 +956,7 @@ export interface FileUploadOptions {
 /**
  * Options for retrieving a file
  */
-export interface FileGetOptions {
+export interface FileGetOptions extends RequestOptions {
   /** Name of the file to retrieve */
   name: string;
 }
@@ -236,7 +964,7 @@ export interface FileGetOptions {
 /**
  * Options for listing files
  */
-export interface FileListOptions {
+export interface FileListOptions extends RequestOptions {
   /** Configuration for listing files */
   config?: {
     /** Maximum number of files to return */
@@ -259,7 +987,7 @@ export interface FileListResponse {
 /**
  * Options for deleting a file
  */
-export interface FileDeleteOptions {
+export interface FileDeleteOptions extends RequestOptions {
   /** Name of the file to delete */
   name: string;
 }
@@ -311,7 +1039,7 @@ export interface DocumentProcessingOptions {
 /**
  * Configuration options for text generation
  */
-export interface GenerationConfig {
+export interface GenerationConfig extends RequestOptions {
   /** The maximum number of tokens to generate */
   maxOutputTokens?: number;
   /** Temperature controls randomness (0.0-1.0) */
@@ -322,6 +1050,20 @@ export interface GenerationConfig {
   topP?: number;
   /** Stop sequences for generation */
   stopSequences?: string[];
+  /** Number of candidate responses to generate, all reported in `candidates` */
+  candidateCount?: number;
+  /** Seed for reproducible sampling */
+  seed?: number;
+  /** Penalty on tokens already used in the response, whatever their count */
+  presencePenalty?: number;
+  /** Penalty on tokens growing with the number of times they were used in the response */
+  frequencyPenalty?: number;
+  /** Report the log probability of every chosen token */
+  responseLogprobs?: boolean;
+  /** Number of top alternatives reported per token, with `responseLogprobs` (1-20) */
+  logprobs?: number;
+  /** Modalities of the response (e.g. ['TEXT'] or ['TEXT', 'IMAGE']) */
+  responseModalities?: ResponseModality[];
   /** Model to use for generation */
   model?: string;
   /** Configuration for thinking capabilities */
@@ -332,6 +1074,24 @@ export interface GenerationConfig {
   toolConfig?: ToolConfig;
   /** Document processing options */
   documentProcessing?: DocumentProcessingOptions;
+  /** System instruction (persona, rules) sent apart from the prompt; replaces the client's `systemInstruction` */
+  systemInstruction?: SystemInstructionContent;
+  /** Blocking thresholds per harm category, over the client's `safetySettings` for the same categories */
+  safetySettings?: SafetySetting[];
+  /** Continue responses cut off at `maxOutputTokens` with follow-up turns (`true` uses the default limits) */
+  continuation?: boolean | ContinuationOptions;
+}
+
+/**
+ * Limits of automatic continuation, for responses cut off at `maxOutputTokens`
+ */
+export interface ContinuationOptions {
+  /** Follow-up turns allowed after the first response (default: 3) */
+  maxRounds?: number;
+  /** No follow-up turn starts once the turns so far used this many tokens, prompts included; follow-ups' output is clamped to what is left */
+  maxTotalTokens?: number;
+  /** Message asking the model to go on (default: ask to continue without repeating anything) */
+  prompt?: string;
 }
 
 /**
@@ -356,6 +1116,20 @@ export interface SystemInstruction {
   text: string;
 }
 
+/**
+ * Part of a multi-part system instruction
+ */
+export type SystemInstructionPart = SystemInstruction | { inlineData: InlineData } | { fileData: FilePart };
+
+/**
+ * System instruction: plain text, one or more parts, or a content object with parts
+ */
+export type SystemInstructionContent =
+  | string
+  | SystemInstructionPart
+  | SystemInstructionPart[]
+  | { role?: string; parts: SystemInstructionPart[] };
+
 /**
  * Chat message format
  */
@@ -440,6 +1214,10 @@ export interface UsageMetadata {
   promptTokenCount: number;
   /** Number of tokens used in the candidates */
   candidatesTokenCount: number;
+  /** Number of tokens the model spent thinking */
+  thoughtsTokenCount?: number;
+  /** Number of prompt tokens served from a context cache */
+  cachedContentTokenCount?: number;
 }
 
 /**
@@ -454,10 +1232,164 @@ export interface GenerationResponse {
   groundingMetadata?: GroundingMetadata;
   /** Token usage information */
   usageMetadata?: UsageMetadata;
-  /** Raw response from the API */
+  /** Thought summaries, when the model was asked to include its thoughts */
+  thoughts?: string;
+  /** Model that served the response, reported by the `*Auto` methods after any fallback */
+  model?: string;
+  /** Why the model stopped generating the first candidate (e.g. 'STOP', 'MAX_TOKENS') */
+  finishReason?: FinishReason;
+  /** Safety ratings of the first candidate, per harm category; see `candidates` for the others */
+  safetyRatings?: SafetyRating[];
+  /** Feedback on the prompt, including its safety ratings */
+  promptFeedback?: PromptFeedback;
+  /** Every candidate of the response (several with `candidateCount`), with its log probabilities */
+  candidates?: CandidateResponse[];
+  /** Follow-up turns made to complete a response cut off at `maxOutputTokens` */
+  continuations?: number;
+  /** Raw response of every turn, the first one included, when the response was continued */
+  rounds?: any[];
+  /** Raw response from the API (of the last turn when the response was continued) */
   raw: any;
 }
 
+/**
+ * Modality of a model response
+ */
+export type ResponseModality = 'TEXT' | 'IMAGE' | 'AUDIO';
+
+/**
+ * One candidate of a response
+ */
+export interface CandidateResponse {
+  /** Position of the candidate in the response */
+  index: number;
+  /** Text of the candidate, without thoughts */
+  text: string;
+  /** Why the model stopped generating this candidate */
+  finishReason?: FinishReason;
+  /** Set when safety filters blocked the candidate; `finishReason` says why */
+  blocked?: boolean;
+  /** Safety ratings of the candidate, per harm category */
+  safetyRatings?: SafetyRating[];
+  /** Average log probability of the candidate's tokens */
+  avgLogprobs?: number;
+  /** Log probabilities of the chosen tokens and their top alternatives, with `responseLogprobs` */
+  logprobsResult?: LogprobsResult;
+}
+
+/**
+ * Log probabilities of the tokens of a candidate
+ */
+export interface LogprobsResult {
+  /** Top alternatives at each decoding step, most likely first */
+  topCandidates?: Array<{ candidates?: LogprobsCandidate[] }>;
+  /** Token chosen at each decoding step */
+  chosenCandidates?: LogprobsCandidate[];
+}
+
+/**
+ * Token with its log probability
+ */
+export interface LogprobsCandidate {
+  /** Token text */
+  token?: string;
+  /** Token id */
+  tokenId?: number;
+  /** Log probability of the token */
+  logProbability?: number;
+}
+
+/**
+ * Harm categories that safety settings and ratings apply to
+ */
+export type HarmCategory =
+  | 'HARM_CATEGORY_HARASSMENT'
+  | 'HARM_CATEGORY_HATE_SPEECH'
+  | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+  | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+  | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+/**
+ * Probability of harm at which content is blocked ('OFF' also turns off the safety filter's metadata)
+ */
+export type HarmBlockThreshold =
+  | 'BLOCK_LOW_AND_ABOVE'
+  | 'BLOCK_MEDIUM_AND_ABOVE'
+  | 'BLOCK_ONLY_HIGH'
+  | 'BLOCK_NONE'
+  | 'OFF';
+
+/**
+ * Probability that content is harmful in one category
+ */
+export type HarmProbability = 'NEGLIGIBLE' | 'LOW' | 'MEDIUM' | 'HIGH' | 'HARM_PROBABILITY_UNSPECIFIED';
+
+/**
+ * Blocking threshold for one harm category
+ */
+export interface SafetySetting {
+  category: HarmCategory;
+  threshold: HarmBlockThreshold;
+}
+
+/**
+ * Safety rating of a prompt or response in one harm category
+ */
+export interface SafetyRating {
+  category: HarmCategory;
+  probability: HarmProbability;
+  /** Whether this rating caused the block */
+  blocked?: boolean;
+}
+
+/**
+ * Why the model stopped generating a candidate
+ *
+ * 'SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII' and
+ * 'IMAGE_SAFETY' mean the candidate was blocked.
+ */
+export type FinishReason =
+  | 'STOP'
+  | 'MAX_TOKENS'
+  | 'SAFETY'
+  | 'RECITATION'
+  | 'LANGUAGE'
+  | 'BLOCKLIST'
+  | 'PROHIBITED_CONTENT'
+  | 'SPII'
+  | 'MALFORMED_FUNCTION_CALL'
+  | 'IMAGE_SAFETY'
+  | 'OTHER'
+  | 'FINISH_REASON_UNSPECIFIED';
+
+/**
+ * Why a prompt was blocked
+ */
+export type BlockReason = 'SAFETY' | 'OTHER' | 'BLOCKLIST' | 'PROHIBITED_CONTENT' | 'IMAGE_SAFETY' | 'BLOCKED_REASON_UNSPECIFIED';
+
+/**
+ * Feedback on a prompt
+ */
+export interface PromptFeedback {
+  /** Set when the prompt was blocked and no candidate was generated */
+  blockReason?: BlockReason;
+  safetyRatings?: SafetyRating[];
+}
+
+/**
+ * Event yielded by a `GeminiStream`
+ *
+ * - `text-delta`: next piece of the response text
+ * - `thought`: next piece of a thought summary
+ * - `function-call`: a complete function call requested by the model
+ * - `usage`: token usage so far (the last event carries the totals)
+ */
+export type GeminiStreamEvent =
+  | { type: 'text-delta'; text: string; raw: any }
+  | { type: 'thought'; text: string; raw: any }
+  | { type: 'function-call'; functionCall: FunctionCall; raw: any }
+  | { type: 'usage'; usage: UsageMetadata; raw: any };
+
 /**
  * Aspect ratios for image generation
  */
@@ -471,7 +1403,7 @@ export type PersonGeneration = "DONT_ALLOW" | "ALLOW_ADULT";
 /**
  * Options specific to Imagen image generation
  */
-export interface ImagenOptions {
+export interface ImagenOptions extends RequestOptions {
   /** Number of images to generate (1-4) */
   numberOfImages?: number;
   /** Aspect ratio of the generated images */
@@ -509,7 +1441,7 @@ export type VideoPersonGeneration = "dont_allow" | "allow_adult";
 /**
  * Options specific to Veo video generation from text
  */
-export interface VideoGenerationOptions {
+export interface VideoGenerationOptions extends RequestOptions {
   /** Whether to allow generating videos with people */
   personGeneration?: VideoPersonGeneration;
   /** Aspect ratio of the generated video */
@@ -529,7 +1461,7 @@ export interface VideoGenerationOptions {
 /**
  * Options specific to Veo video generation from image
  */
-export interface ImageToVideoOptions {
+export interface ImageToVideoOptions extends RequestOptions {
   /** Aspect ratio of the generated video */
   aspectRatio?: VideoAspectRatio;
   /** Number of videos to generate (1-2) */
@@ -844,6 +1776,8 @@ export interface CodeExecutionResponse {
   generatedCode?: string;
   /** Code execution result */
   executionResult?: string;
+  /** Model that served the response, reported by `executeAuto` after any fallback */
+  model?: string;
   /** Raw response from the API */
   raw: any;
 }
@@ -0,0 +1,62 @@
+import { GeminiAbortError } from './errors';
+
+/**
+ * Throw a GeminiAbortError if the signal has been aborted
+ *
+ * @param signal - Optional abort signal
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new GeminiAbortError(undefined, { reason: signal.reason });
+  }
+}
+
+/**
+ * Wait for a delay, rejecting early with a GeminiAbortError when the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @returns Promise that resolves after the delay
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new GeminiAbortError(undefined, { reason: signal.reason }));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new GeminiAbortError(undefined, { reason: signal?.reason }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wrap an async iterable so that iteration stops with a GeminiAbortError once the signal aborts
+ *
+ * @param iterable - Source iterable (e.g. a response stream)
+ * @param signal - Optional abort signal
+ * @returns Async iterable yielding the same chunks
+ */
+export function abortableIterable<T>(iterable: AsyncIterable<T>, signal?: AbortSignal): AsyncIterable<T> {
+  if (!signal) {
+    return iterable;
+  }
+  return (async function* () {
+    throwIfAborted(signal);
+    try {
+      for await (const chunk of iterable) {
+        throwIfAborted(signal);
+        yield chunk;
+      }
+    } catch (error) {
+      throwIfAborted(signal);
+      throw error;
+    }
+  })();
+}
@@ -0,0 +1,375 @@
+import {
+  Budget,
+  BudgetAmount,
+  BudgetEvent,
+  BudgetOptions,
+  BudgetStatus,
+  UsageEntry
+} from '../types';
+import { GeminiBudgetExceededError } from './errors';
+import { estimateCallTokens, TransportInterceptor } from './transport';
+import { isResponseStream, observeStream } from './stream';
+import { getUsagePeriod, isMeteredOperation, UsageLedger } from './usageLedger';
+import { estimateRequestTokens } from './tokenEstimator';
+import { ModelRegistry } from './modelRegistry';
+
+const DEFAULT_WARN_AT = 0.8;
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Usage of one budget in one window, for one label
+ */
+interface Allowance {
+  budget: Budget;
+  window?: string;
+  label?: string;
+  spent: BudgetAmount;
+  /** Estimates of calls in flight, released once their usage is recorded */
+  reserved: BudgetAmount;
+  warned: boolean;
+}
+
+/**
+ * Enforces spending budgets before calls are sent
+ *
+ * Every generateContent call and stream is estimated before sending (prompt
+ * tokens plus `maxOutputTokens`, or `defaultMaxOutputTokens` when the request
+ * sets none, priced with the client's price table) and refused with
+ * `GeminiBudgetExceededError`, or sent to a cheaper model, if the estimate
+ * would take a budget past its limit. A call without `maxOutputTokens` is sent
+ * with its `maxOutputTokens` lowered to the tokens left instead. Usage is taken from the client's
+ * usage ledger once each call completes; estimates of calls in flight count
+ * against the budgets meanwhile, so parallel calls cannot overshoot together.
+ *
+ * @example
+ * ```typescript
+ * const gemini = new GeminiClient({
+ *   apiKey: process.env.GEMINI_API_KEY,
+ *   budgets: {
+ *     budgets: [
+ *       { name: 'monthly', maxCost: 50, period: 'month' },
+ *       { name: 'tenant-daily', maxTokens: 200000, period: 'day', perLabel: true },
+ *       { name: 'pro-spend', maxCost: 5, period: 'day', action: 'downgrade', downgradeTo: 'gemini-2.0-flash' }
+ *     ],
+ *     onWarning: ({ name, spent }) => alert(`Budget ${name} at $${spent.cost.toFixed(2)}`)
+ *   }
+ * });
+ * ```
+ */
+export class BudgetGuard {
+  private options: BudgetOptions;
+  private ledger: UsageLedger;
+  private models?: ModelRegistry;
+  private allowances = new Map<string, Allowance>();
+
+  constructor(options: BudgetOptions, ledger: UsageLedger, models?: ModelRegistry) {
+    this.options = options;
+    this.ledger = ledger;
+    this.models = models;
+  }
+
+  /**
+   * Whether the estimate mode counts prompt tokens with the API
+   */
+  get countsWithApi(): boolean {
+    return (this.options.estimate ?? 'api') === 'api';
+  }
+
+  /**
+   * Check a call against every budget that applies to it
+   *
+   * @param model - Model the call targets
+   * @param label - Label of the call
+   * @param promptTokens - Estimated prompt tokens
+   * @param maxOutputTokens - Response tokens to reserve; without one, `defaultMaxOutputTokens` is reserved
+   * @returns Model to send the call to, the `maxOutputTokens` to send it with if the budgets
+   * cut it short, and a function releasing the call's reservation
+   * @throws GeminiBudgetExceededError if the call would exceed a budget
+   */
+  admit(
+    model: string,
+    label: string | undefined,
+    promptTokens: number,
+    maxOutputTokens?: number
+  ): { model: string; maxOutputTokens?: number; release: () => void } {
+    let target = model.replace(/^models\//, '');
+    let estimate = this.estimate(target, promptTokens, maxOutputTokens ?? this.defaultOutputTokens(target));
+    let exceeded = this.findExceeded(label, estimate);
+
+    if (exceeded?.budget.action === 'downgrade' && exceeded.budget.downgradeTo && exceeded.budget.downgradeTo !== target) {
+      const downgradeTo = exceeded.budget.downgradeTo;
+      const cheaper = this.estimate(downgradeTo, promptTokens, maxOutputTokens ?? this.defaultOutputTokens(downgradeTo));
+      if (!this.findExceeded(label, cheaper)) {
+        this.notify('onExceeded', exceeded, { action: 'downgrade', model: target, label, estimate, downgradedTo: downgradeTo });
+        target = downgradeTo;
+        estimate = cheaper;
+        exceeded = undefined;
+      }
+    }
+
+    // A call without its own limit is cut to the tokens left rather than refused
+    let cappedOutputTokens: number | undefined;
+    if (exceeded && maxOutputTokens === undefined) {
+      const room = Math.floor(this.outputRoom(target, label, promptTokens));
+      if (room >= 1) {
+        cappedOutputTokens = room;
+        estimate = this.estimate(target, promptTokens, room);
+        exceeded = undefined;
+      }
+    }
+
+    if (exceeded) {
+      this.notify('onExceeded', exceeded, { action: 'block', model: target, label, estimate });
+      const name = getBudgetName(exceeded.budget);
+      throw new GeminiBudgetExceededError(
+        `Budget "${name}" would be exceeded: ${describe(exceeded.spent, exceeded.reserved, estimate, exceeded.budget)}`,
+        { model: target, budget: exceeded.budget, spent: total(exceeded), estimate }
+      );
+    }
+
+    const reserved = this.applicable(label);
+    for (const allowance of reserved) {
+      allowance.reserved.tokens += estimate.tokens;
+      allowance.reserved.cost += estimate.cost;
+    }
+    let released = false;
+    return {
+      model: target,
+      ...(cappedOutputTokens !== undefined && { maxOutputTokens: cappedOutputTokens }),
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        for (const allowance of reserved) {
+          allowance.reserved.tokens -= estimate.tokens;
+          allowance.reserved.cost -= estimate.cost;
+        }
+      },
+    };
+  }
+
+  /**
+   * Count a recorded call against the budgets it applies to
+   *
+   * @param entry - Usage ledger entry
+   */
+  record(entry: UsageEntry): void {
+    for (const allowance of this.applicable(entry.label, entry.timestamp)) {
+      allowance.spent.tokens += entry.totalTokens;
+      allowance.spent.cost += entry.cost ?? 0;
+
+      const { budget } = allowance;
+      const warnAt = budget.warnAt ?? DEFAULT_WARN_AT;
+      const reached = (budget.maxTokens !== undefined && allowance.spent.tokens >= budget.maxTokens * warnAt)
+        || (budget.maxCost !== undefined && allowance.spent.cost >= budget.maxCost * warnAt);
+      if (reached && !allowance.warned) {
+        allowance.warned = true;
+        this.notify('onWarning', allowance, { action: 'warn', model: entry.model, label: entry.label });
+      }
+    }
+  }
+
+  /**
+   * Get the usage of every budget in its current window
+   *
+   * @returns One status per budget, and per label seen for `perLabel` budgets
+   */
+  status(): BudgetStatus[] {
+    const now = new Date().toISOString();
+    const statuses: BudgetStatus[] = [];
+    this.options.budgets.forEach((budget, index) => {
+      const window = budget.period ? getUsagePeriod(now, budget.period) : undefined;
+      const allowances = [...this.allowances.values()].filter(allowance => allowance.budget === budget && allowance.window === window);
+      // A budget without recorded usage still reports its full allowance
+      for (const allowance of allowances.length > 0 ? allowances : [this.allowance(index, budget, undefined, now)]) {
+        const spent = total(allowance);
+        statuses.push({
+          budget,
+          name: getBudgetName(budget),
+          ...(window !== undefined && { window }),
+          ...(allowance.label !== undefined && { label: allowance.label }),
+          spent,
+          remaining: {
+            ...(budget.maxTokens !== undefined && { tokens: Math.max(0, budget.maxTokens - spent.tokens) }),
+            ...(budget.maxCost !== undefined && { cost: Math.max(0, budget.maxCost - spent.cost) }),
+          },
+        });
+      }
+    });
+    return statuses;
+  }
+
+  /**
+   * Forget the usage counted so far (estimates of calls in flight are kept)
+   */
+  reset(): void {
+    for (const allowance of this.allowances.values()) {
+      allowance.spent = { tokens: 0, cost: 0 };
+      allowance.warned = false;
+    }
+  }
+
+  private estimate(model: string, promptTokens: number, outputTokens: number): BudgetAmount {
+    const price = this.ledger.priceOf(model);
+    return {
+      tokens: promptTokens + outputTokens,
+      cost: price ? (promptTokens * price.input + outputTokens * price.output) / 1e6 : 0,
+    };
+  }
+
+  /**
+   * Response tokens reserved for a call that sets no `maxOutputTokens`
+   */
+  private defaultOutputTokens(model: string): number {
+    const reservation = this.options.defaultMaxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS;
+    return Math.min(reservation, this.models?.get(model)?.outputTokenLimit ?? reservation);
+  }
+
+  /**
+   * Response tokens that still fit under every budget applying to a call
+   */
+  private outputRoom(model: string, label: string | undefined, promptTokens: number): number {
+    const price = this.ledger.priceOf(model);
+    return this.applicable(label).reduce((room, allowance) => {
+      const { tokens, cost } = total(allowance);
+      const { maxTokens, maxCost } = allowance.budget;
+      if (maxTokens !== undefined) {
+        room = Math.min(room, maxTokens - tokens - promptTokens);
+      }
+      if (maxCost !== undefined && price?.output) {
+        room = Math.min(room, ((maxCost - cost) * 1e6 - promptTokens * price.input) / price.output);
+      }
+      return room;
+    }, this.defaultOutputTokens(model));
+  }
+
+  private findExceeded(label: string | undefined, estimate: BudgetAmount): Allowance | undefined {
+    return this.applicable(label).find(allowance => {
+      const { tokens, cost } = total(allowance);
+      return (allowance.budget.maxTokens !== undefined && tokens + estimate.tokens > allowance.budget.maxTokens)
+        || (allowance.budget.maxCost !== undefined && cost + estimate.cost > allowance.budget.maxCost);
+    });
+  }
+
+  /**
+   * Allowances of the budgets applying to a label, in the window of a time
+   */
+  private applicable(label: string | undefined, timestamp: string = new Date().toISOString()): Allowance[] {
+    return this.options.budgets.flatMap((budget, index) => (
+      budget.label === undefined || budget.label === label ? [this.allowance(index, budget, label, timestamp)] : []
+    ));
+  }
+
+  private allowance(index: number, budget: Budget, label: string | undefined, timestamp: string): Allowance {
+    const window = budget.period ? getUsagePeriod(timestamp, budget.period) : undefined;
+    const labelKey = budget.perLabel ? label : undefined;
+    const key = JSON.stringify([index, window, labelKey]);
+    let allowance = this.allowances.get(key);
+    if (!allowance) {
+      // A new window starts: drop the budget's earlier windows
+      for (const [otherKey, other] of this.allowances) {
+        if (other.budget === budget && other.window !== window) {
+          this.allowances.delete(otherKey);
+        }
+      }
+      allowance = {
+        budget,
+        ...(window !== undefined && { window }),
+        ...(labelKey !== undefined && { label: labelKey }),
+        spent: { tokens: 0, cost: 0 },
+        reserved: { tokens: 0, cost: 0 },
+        warned: false,
+      };
+      this.allowances.set(key, allowance);
+    }
+    return allowance;
+  }
+
+  private notify(
+    callback: 'onWarning' | 'onExceeded',
+    allowance: Allowance,
+    event: Pick<BudgetEvent, 'action' | 'model' | 'label' | 'estimate' | 'downgradedTo'>
+  ): void {
+    this.options[callback]?.({
+      budget: allowance.budget,
+      name: getBudgetName(allowance.budget),
+      ...(allowance.window !== undefined && { window: allowance.window }),
+      ...event,
+      // Warnings follow recorded usage; the recorded call's own estimate is still reserved
+      spent: event.action === 'warn' ? { ...allowance.spent } : total(allowance),
+    });
+  }
+}
+
+/**
+ * Create a transport interceptor that checks budgets before generateContent calls
+ *
+ * @param guard - Client budget guard
+ * @param ledger - Client usage ledger, providing the label of the call
+ * @param countTokens - Counts the prompt tokens of a request with the API
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function budgetInterceptor(
+  guard: BudgetGuard,
+  ledger: UsageLedger,
+  countTokens: (model: string, request: any) => Promise<number>
+): TransportInterceptor {
+  return async (call, next) => {
+    const [request, ...rest] = call.args;
+    if (!isMeteredOperation(call.operation) || typeof request?.model !== 'string') {
+      return next(call.args);
+    }
+
+    const promptTokens = guard.countsWithApi
+      ? await estimateCallTokens(call, () => countTokens(request.model, request))
+      : estimateRequestTokens(request);
+    const { model, maxOutputTokens, release } = guard.admit(request.model, ledger.label, promptTokens, request.config?.maxOutputTokens);
+    const args = model === request.model && maxOutputTokens === undefined
+      ? call.args
+      : [{ ...request, model, ...(maxOutputTokens !== undefined && { config: { ...request.config, maxOutputTokens } }) }, ...rest];
+
+    let response: any;
+    try {
+      response = await next(args);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    if (isResponseStream(call.operation, response)) {
+      return observeStream(response, { complete: release, fail: release });
+    }
+    release();
+    return response;
+  };
+}
+
+function total(allowance: Allowance): BudgetAmount {
+  return {
+    tokens: allowance.spent.tokens + allowance.reserved.tokens,
+    cost: allowance.spent.cost + allowance.reserved.cost,
+  };
+}
+
+function getBudgetName(budget: Budget): string {
+  if (budget.name) {
+    return budget.name;
+  }
+  const limits = [
+    ...(budget.maxTokens !== undefined ? [`${budget.maxTokens} tokens`] : []),
+    ...(budget.maxCost !== undefined ? [`$${budget.maxCost}`] : []),
+  ].join(' / ');
+  const scope = budget.label !== undefined ? ` for ${budget.label}` : budget.perLabel ? ' per label' : '';
+  return `${limits}${budget.period ? ` per ${budget.period}` : ''}${scope}`;
+}
+
+function describe(spent: BudgetAmount, reserved: BudgetAmount, estimate: BudgetAmount, budget: Budget): string {
+  const parts: string[] = [];
+  if (budget.maxTokens !== undefined) {
+    parts.push(`${spent.tokens + reserved.tokens} tokens used, ${estimate.tokens} estimated for the call, limit ${budget.maxTokens}`);
+  }
+  if (budget.maxCost !== undefined) {
+    parts.push(`$${(spent.cost + reserved.cost).toFixed(4)} spent, $${estimate.cost.toFixed(4)} estimated for the call, limit $${budget.maxCost}`);
+  }
+  return parts.join('; ');
+}
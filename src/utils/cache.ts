@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GenerateContentResponse } from '@google/genai';
+import { CacheOptions, CacheStore } from '../types';
+import { TransportInterceptor } from './transport';
+
+/**
+ * Operations whose responses are cached (streams and file calls are not)
+ */
+const CACHED_OPERATIONS = ['models.generateContent', 'models.embedContent', 'models.countTokens'];
+
+/**
+ * Request config fields that do not change the response
+ */
+const IGNORED_CONFIG_FIELDS = ['abortSignal', 'httpOptions', 'cache', 'tools'];
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-memory store evicting the least recently used entry when full
+ *
+ * @example
+ * ```typescript
+ * const gemini = new GeminiClient({
+ *   apiKey: 'YOUR_API_KEY',
+ *   cache: { store: new MemoryCacheStore({ maxEntries: 200 }), ttlMs: 10 * 60 * 1000 }
+ * });
+ * ```
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+  private maxEntries: number;
+
+  constructor(options: { maxEntries?: number } = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    // Map order is insertion order, so re-inserting marks the entry as most recently used
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, ...(ttlMs !== undefined && { expiresAt: Date.now() + ttlMs }) });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Store keeping one JSON file per entry in a directory
+ *
+ * Survives process restarts, so CI runs can reuse responses from earlier runs
+ * (e.g. by caching the directory between jobs).
+ *
+ * @example
+ * ```typescript
+ * const gemini = new GeminiClient({
+ *   apiKey: 'YOUR_API_KEY',
+ *   cache: { store: new FileCacheStore('.gemini-cache') }
+ * });
+ * ```
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  /**
+   * @param directory - Directory holding the entries; created on first write
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async get(key: string): Promise<string | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath(key), 'utf8');
+    } catch {
+      return undefined;
+    }
+    const entry: { value: string; expiresAt?: number } = JSON.parse(contents);
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlMs?: number): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const entry = { value, ...(ttlMs !== undefined && { expiresAt: Date.now() + ttlMs }) };
+    // Write then rename, so concurrent readers never see a partial file
+    const temporary = `${this.filePath(key)}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+    await fs.rename(temporary, this.filePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.directory, `${key.replace(/[^\w-]/g, '_')}.json`);
+  }
+}
+
+/**
+ * Compute the cache key of a request
+ *
+ * Equivalent requests share a key: the 'models/' prefix, the shorthand content
+ * forms (a string, a single part or a list of parts) and the order of object keys
+ * make no difference, and neither do the abort signal and HTTP options.
+ *
+ * @param operation - Transport operation (e.g. 'models.generateContent')
+ * @param request - Request passed to the operation
+ * @returns Key of the form `<operation>:<sha256>`
+ */
+export function getCacheKey(operation: string, request: any): string {
+  const config: Record<string, unknown> = { ...request?.config };
+  for (const field of IGNORED_CONFIG_FIELDS) {
+    delete config[field];
+  }
+  const normalized = {
+    // Other fields, such as the file of an upload or the name of a file lookup
+    ...request,
+    model: String(request?.model ?? '').replace(/^models\//, ''),
+    contents: normalizeContents(request?.contents),
+    config,
+    tools: request?.config?.tools ?? [],
+  };
+  const hash = createHash('sha256').update(stableStringify(normalized)).digest('hex');
+  return `${operation}:${hash}`;
+}
+
+/**
+ * Create a transport interceptor that answers repeated requests from a cache
+ *
+ * `generateContent` requests are passed through unless their temperature is
+ * explicitly 0 (the API's default temperature is 1.0), `cacheNonZeroTemperature`
+ * is set or the call passes `cache: true`; `cache: false`
+ * always bypasses the cache. Store failures are treated as misses, so an
+ * unavailable store never fails a call.
+ *
+ * @param options - Store, TTL and temperature policy
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function cacheInterceptor(options: CacheOptions = {}): TransportInterceptor {
+  const store = options.store ?? new MemoryCacheStore();
+  return async (call, next) => {
+    const [request, ...rest] = call.args;
+    const callCache: boolean | undefined = request?.config?.cache;
+    // The per-call flag is not part of the API request
+    const args = callCache === undefined ? call.args : [withoutCacheFlag(request), ...rest];
+
+    // Without a temperature, the API samples at its default of 1.0
+    const sampled = call.operation === 'models.generateContent' && request?.config?.temperature !== 0;
+    const bypass = !CACHED_OPERATIONS.includes(call.operation)
+      || callCache === false
+      || (callCache !== true && !options.cacheNonZeroTemperature && sampled);
+    if (bypass) {
+      return next(args);
+    }
+
+    const key = getCacheKey(call.operation, request);
+    const cached = await store.get(key).catch(() => undefined);
+    if (cached !== undefined) {
+      return reviveResponse(call.operation, JSON.parse(cached));
+    }
+
+    const response = await next(args);
+    await store.set(key, JSON.stringify(response), options.ttlMs).catch(() => undefined);
+    return response;
+  };
+}
+
+/**
+ * Expand the shorthand content forms accepted by `@google/genai` into a list of turns
+ */
+function normalizeContents(contents: any): any[] {
+  if (contents === undefined || contents === null) {
+    return [];
+  }
+  const items: any[] = Array.isArray(contents) ? contents : [contents];
+  const toPart = (part: any) => (typeof part === 'string' ? { text: part } : part);
+  // A list of parts (or strings) is a single user turn
+  if (items.every(item => typeof item === 'string' || !('parts' in item))) {
+    return [{ role: 'user', parts: items.map(toPart) }];
+  }
+  return items.map(item => ({ role: item.role ?? 'user', parts: (item.parts ?? []).map(toPart) }));
+}
+
+/**
+ * JSON with object keys sorted, so that key order does not change the result
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined && typeof value[key] !== 'function')
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function withoutCacheFlag(request: any): any {
+  const config = { ...request.config };
+  delete config.cache;
+  return { ...request, config };
+}
+
+/**
+ * Restore the response class of a response read back from JSON
+ *
+ * Services read getters of `@google/genai` responses (`text`, `functionCalls`, ...),
+ * which plain objects lack.
+ *
+ * @param operation - Operation that produced the response; stream chunks use 'models.generateContentStream'
+ * @param response - Response parsed from JSON
+ * @returns The response, with its class restored where it has one
+ */
+export function reviveResponse(operation: string, response: any): any {
+  const hasClass = operation === 'models.generateContent' || operation === 'models.generateContentStream';
+  if (hasClass && response && typeof response === 'object') {
+    return Object.setPrototypeOf(response, GenerateContentResponse.prototype);
+  }
+  return response;
+}
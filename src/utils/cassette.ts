@@ -0,0 +1,266 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CassetteMode, CassetteOptions, GeminiTransport } from '../types';
+import { getCacheKey, reviveResponse } from './cache';
+import { GeminiCassetteMismatchError, GeminiError } from './errors';
+import { getErrorStatus } from './retry';
+
+/**
+ * Operations captured by a cassette, per transport namespace
+ */
+const RECORDED_OPERATIONS: Record<keyof GeminiTransport, string[]> = {
+  models: ['generateContent', 'generateContentStream', 'countTokens', 'embedContent', 'generateImages', 'generateVideos', 'list'],
+  files: ['upload', 'get', 'list', 'delete'],
+  operations: ['getVideosOperation'],
+};
+
+const CASSETTE_VERSION = 1;
+
+/**
+ * One recorded request and its outcome
+ */
+export interface CassetteInteraction {
+  /** Transport operation (e.g. 'models.generateContent') */
+  operation: string;
+  /** Request as sent, without the abort signal */
+  request: any;
+  /** Response of a plain call */
+  response?: any;
+  /** Chunks of a streamed response */
+  chunks?: any[];
+  /** Pages of a paged listing */
+  pages?: any[][];
+  /** Failure of the call, or of a stream after its last chunk */
+  error?: { name: string; message: string; status?: number };
+}
+
+/**
+ * Contents of a cassette file
+ */
+interface CassetteFile {
+  version: number;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Records API traffic to a JSON file and replays it without network
+ *
+ * In 'record' mode every call goes to the API and its request and response
+ * (stream chunks, list pages and errors included) are captured; `save` writes
+ * them out. In 'replay' mode calls are answered from the file: requests are
+ * matched on the same normalized form as the response cache, each recorded
+ * interaction is served once in order (the last one again if a request repeats
+ * more often than it was recorded), and a request without a recording fails with
+ * `GeminiCassetteMismatchError`.
+ *
+ * @example
+ * ```typescript
+ * // Record once against the API...
+ * const recording = new GeminiClient({
+ *   apiKey: process.env.GEMINI_API_KEY,
+ *   cassette: { path: '__tests__/cassettes/text.json', mode: 'record' }
+ * });
+ * await recording.textGeneration.generate('Hello');
+ * await recording.cassette?.save();
+ *
+ * // ...then replay offline in tests
+ * const gemini = new GeminiClient({ cassette: { path: '__tests__/cassettes/text.json' } });
+ * const response = await gemini.textGeneration.generate('Hello');
+ * ```
+ */
+export class Cassette {
+  /** File holding the interactions */
+  readonly path: string;
+  readonly mode: CassetteMode;
+  private interactions: CassetteInteraction[] = [];
+  private keys: string[] = [];
+  private served = new Set<number>();
+  private loaded?: Promise<void>;
+
+  constructor(options: CassetteOptions) {
+    this.path = options.path;
+    this.mode = options.mode ?? 'replay';
+  }
+
+  /**
+   * Put the cassette in front of a transport
+   *
+   * @param createTransport - Creates the live transport; only called when recording
+   * @returns Transport recording or replaying the recorded operations
+   */
+  wrap(createTransport: () => GeminiTransport): GeminiTransport {
+    let live: GeminiTransport | undefined;
+    const getLive = () => (live ??= createTransport());
+
+    const wrapNamespace = (namespace: keyof GeminiTransport) => new Proxy({}, {
+      get: (_target, prop) => {
+        if (typeof prop === 'string' && RECORDED_OPERATIONS[namespace].includes(prop)) {
+          const operation = `${namespace}.${prop}`;
+          return (request: any, ...rest: any[]) => this.mode === 'record'
+            ? this.record(operation, request, () => getLive()[namespace][prop](request, ...rest))
+            : this.replay(operation, request);
+        }
+        if (this.mode === 'record') {
+          const value = getLive()[namespace]?.[prop];
+          return typeof value === 'function' ? value.bind(getLive()[namespace]) : value;
+        }
+        return undefined;
+      },
+    });
+
+    return {
+      models: wrapNamespace('models'),
+      files: wrapNamespace('files'),
+      operations: wrapNamespace('operations'),
+    };
+  }
+
+  /**
+   * Write the recorded interactions to the cassette file (no-op when replaying)
+   */
+  async save(): Promise<void> {
+    if (this.mode !== 'record') {
+      return;
+    }
+    const file: CassetteFile = { version: CASSETTE_VERSION, interactions: this.interactions };
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+    await fs.writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+  }
+
+  /**
+   * List the recorded interactions that replay has not served yet
+   *
+   * Useful to assert that a test made every call the cassette expects.
+   */
+  unused(): CassetteInteraction[] {
+    return this.interactions.filter((_interaction, index) => !this.served.has(index));
+  }
+
+  private async record(operation: string, request: any, invoke: () => Promise<any>): Promise<any> {
+    // Added before the call, so concurrent calls are kept in the order they were made
+    const interaction: CassetteInteraction = { operation, request: toJson(request) };
+    this.interactions.push(interaction);
+
+    let response: any;
+    try {
+      response = await invoke();
+    } catch (error) {
+      interaction.error = describeError(error);
+      throw error;
+    }
+
+    if (operation === 'models.generateContentStream') {
+      interaction.chunks = [];
+      return recordStream(response, interaction);
+    }
+    if (operation === 'models.list') {
+      const pages: any[][] = [toJson(response.page)];
+      while (response.hasNextPage()) {
+        pages.push(toJson(await response.nextPage()));
+      }
+      interaction.pages = pages;
+      return createPager(pages);
+    }
+    interaction.response = toJson(response);
+    return response;
+  }
+
+  private async replay(operation: string, request: any): Promise<any> {
+    await (this.loaded ??= this.load());
+
+    const key = getCacheKey(operation, request);
+    const matches = this.keys.flatMap((candidate, index) => (candidate === key ? [index] : []));
+    const index = matches.find(match => !this.served.has(match)) ?? matches[matches.length - 1];
+    if (index === undefined) {
+      throw new GeminiCassetteMismatchError(
+        `No recorded ${operation} call in cassette ${this.path} matches the request; record it again with mode 'record'`,
+        { operation, request: toJson(request), model: request?.model }
+      );
+    }
+    this.served.add(index);
+
+    const interaction = this.interactions[index];
+    if (interaction.chunks) {
+      return replayStream(operation, interaction);
+    }
+    if (interaction.error) {
+      throw toRecordedError(interaction.error);
+    }
+    if (interaction.pages) {
+      return createPager(toJson(interaction.pages));
+    }
+    return reviveResponse(operation, toJson(interaction.response));
+  }
+
+  private async load(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      throw new GeminiError(`Cassette ${this.path} could not be read; record it first with mode 'record'`, { cause: error });
+    }
+    const file: CassetteFile = JSON.parse(contents);
+    this.interactions = file.interactions ?? [];
+    this.keys = this.interactions.map(({ operation, request }) => getCacheKey(operation, request));
+  }
+}
+
+/**
+ * Copy a value through JSON, dropping abort signals and the per-call cache flag
+ */
+function toJson(value: any): any {
+  if (value === undefined) {
+    return undefined;
+  }
+  return JSON.parse(JSON.stringify(value, (key, field) => (key === 'abortSignal' || key === 'cache' ? undefined : field)));
+}
+
+function describeError(error: any): NonNullable<CassetteInteraction['error']> {
+  const status = getErrorStatus(error);
+  return {
+    name: error?.name ?? 'Error',
+    message: error?.message ?? String(error),
+    ...(status !== undefined && { status }),
+  };
+}
+
+function toRecordedError(recorded: NonNullable<CassetteInteraction['error']>): Error {
+  const error = Object.assign(new Error(recorded.message), recorded.status !== undefined ? { status: recorded.status } : {});
+  error.name = recorded.name;
+  return error;
+}
+
+async function* recordStream(stream: AsyncIterable<any>, interaction: CassetteInteraction): AsyncGenerator<any> {
+  try {
+    for await (const chunk of stream) {
+      interaction.chunks!.push(toJson(chunk));
+      yield chunk;
+    }
+  } catch (error) {
+    interaction.error = describeError(error);
+    throw error;
+  }
+}
+
+async function* replayStream(operation: string, interaction: CassetteInteraction): AsyncGenerator<any> {
+  for (const chunk of interaction.chunks!) {
+    yield reviveResponse(operation, toJson(chunk));
+  }
+  if (interaction.error) {
+    throw toRecordedError(interaction.error);
+  }
+}
+
+/**
+ * Pager over recorded pages, shaped like the `@google/genai` Pager
+ */
+function createPager(pages: any[][]) {
+  let index = 0;
+  return {
+    get page() {
+      return pages[index] ?? [];
+    },
+    hasNextPage: () => index < pages.length - 1,
+    nextPage: async () => pages[++index] ?? [],
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Multi-turn chat session built on top of a transport's `models` namespace
+ *
+ * Mirrors the `@google/genai` chat API (`sendMessage`, `sendMessageStream`,
+ * `getHistory`) but sends every turn through `models.generateContent`, so chat
+ * traffic goes through the same interceptors as every other call.
+ */
+export class ChatSession {
+  private models: any;
+  private model: string;
+  private config: any;
+  private history: any[];
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(models: any, params: { model: string; history?: any[]; config?: any }) {
+    this.models = models;
+    this.model = params.model;
+    this.config = params.config;
+    this.history = [...(params.history || [])];
+  }
+
+  /**
+   * Send a message and record the exchange in the session history
+   *
+   * @param params - Message to send and optional per-message config
+   * @returns Promise with the raw model response
+   */
+  async sendMessage(params: { message: any; config?: any }): Promise<any> {
+    return this.enqueue(async () => {
+      const input = this.toUserContent(params.message);
+      const response = await this.models.generateContent({
+        model: this.model,
+        contents: [...this.history, input],
+        config: this.mergeConfig(params.config),
+      });
+      const output = response?.candidates?.[0]?.content;
+      this.history.push(input, ...(output ? [output] : []));
+      return response;
+    });
+  }
+
+  /**
+   * Send a message and stream the response; history is recorded once the stream completes
+   *
+   * Later sends wait until the stream has been read to the end, fails or is closed,
+   * so they include the streamed turn.
+   *
+   * @param params - Message to send and optional per-message config
+   * @returns Promise with an async iterable of response chunks
+   */
+  async sendMessageStream(params: { message: any; config?: any }): Promise<AsyncIterable<any>> {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    return this.enqueue(async () => {
+      const input = this.toUserContent(params.message);
+      const stream = await this.models.generateContentStream({
+        model: this.model,
+        contents: [...this.history, input],
+        config: this.mergeConfig(params.config),
+      });
+      const history = this.history;
+      const turn = (async function* () {
+        try {
+          const parts: any[] = [];
+          for await (const chunk of stream) {
+            parts.push(...(chunk?.candidates?.[0]?.content?.parts || []));
+            yield chunk;
+          }
+          history.push(input, ...(parts.length > 0 ? [{ role: 'model', parts }] : []));
+        } finally {
+          release();
+        }
+      })();
+      // A generator closed before its first read never runs its body
+      const close = turn.return.bind(turn);
+      turn.return = (value) => {
+        release();
+        return close(value);
+      };
+      return turn;
+    }, released);
+  }
+
+  /**
+   * Get a copy of the session history
+   */
+  getHistory(): any[] {
+    return [...this.history];
+  }
+
+  /**
+   * Get a copy of the session config, including its tools and tool config
+   */
+  getConfig(): any {
+    return { ...this.config };
+  }
+
+  /**
+   * Apply per-message config (e.g. `abortSignal`) over the session config
+   */
+  private mergeConfig(config?: any): any {
+    return config ? { ...this.config, ...config } : this.config;
+  }
+
+  /**
+   * Run sends one at a time so history stays in order; a failed send does not block later ones
+   *
+   * @param task - Send to run once the previous ones are done
+   * @param done - Settles when a successful send is done, if that is later than the task's result
+   */
+  private enqueue<T>(task: () => Promise<T>, done?: Promise<void>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.then(() => done, () => undefined);
+    return result;
+  }
+
+  /**
+   * Normalize a message (string, part, parts array or content) into user content
+   */
+  private toUserContent(message: any): any {
+    if (message && typeof message === 'object' && Array.isArray(message.parts)) {
+      return { ...message, role: message.role || 'user' };
+    }
+    const parts = (Array.isArray(message) ? message : [message]).map((part: any) =>
+      typeof part === 'string' ? { text: part } : part
+    );
+    return { role: 'user', parts };
+  }
+}
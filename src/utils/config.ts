@@ -1,3 +1,5 @@
+import { ModelCapabilities, ModelPrice } from '../types';
+
 /**
  * Available Gemini models
  */
@@ -6,13 +8,18 @@ export enum GeminiModel {
   PRO_25_PREVIEW = 'gemini-2.5-pro-preview-05-06',
   /** Gemini 2.5 Flash Preview - optimized for large scale processing with thinking */
   FLASH_25_PREVIEW = 'gemini-2.5-flash-preview-04-17',
+  /** Gemini 2.5 Flash - fast thinking model, default for image understanding */
+  FLASH_25 = 'gemini-2.5-flash',
   /** Gemini Flash 2.0 - optimized for fast responses */
   FLASH = 'gemini-2.0-flash',
   /** Gemini Flash 2.0 Lite - cost-effective variant for long context */
   FLASH_LITE = 'gemini-2.0-flash-lite',
   /** Gemini Pro 2.0 - balanced model for most use cases */
   PRO = 'gemini-2.0-pro',
-  /** Gemini Ultra 2.0 - highest capability model */
+  /**
+   * Not an available model
+   * @deprecated Use `GeminiClient.listModels()` to discover available models
+   */
   ULTRA = 'gemini-2.0-ultra',
   /** Gemini 1.5 Pro - multimodal model for images, audio, video */
   PRO_VISION = 'gemini-1.5-pro',
@@ -40,6 +47,128 @@ export enum VeoModel {
   VEO_2 = 'veo-2.0-generate-001'
 }
 
+/**
+ * Capabilities of the known models, in order of preference within each pricing tier
+ */
+export const MODEL_CAPABILITIES: ModelCapabilities[] = [
+  {
+    name: GeminiModel.FLASH,
+    contextWindow: 1048576,
+    outputTokenLimit: 8192,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    tools: ['functionCalling', 'codeExecution', 'googleSearch', 'structuredOutput'],
+    tier: 'standard'
+  },
+  {
+    name: GeminiModel.FLASH_LITE,
+    contextWindow: 1048576,
+    outputTokenLimit: 8192,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    tools: ['functionCalling', 'structuredOutput'],
+    tier: 'lite'
+  },
+  {
+    name: GeminiModel.FLASH_25_PREVIEW,
+    contextWindow: 1048576,
+    outputTokenLimit: 65536,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    thinking: { minBudget: 0, maxBudget: 24576, canDisable: true },
+    tools: ['functionCalling', 'codeExecution', 'googleSearch', 'structuredOutput'],
+    tier: 'standard'
+  },
+  {
+    name: GeminiModel.FLASH_25,
+    contextWindow: 1048576,
+    outputTokenLimit: 65536,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    thinking: { minBudget: 0, maxBudget: 24576, canDisable: true },
+    tools: ['functionCalling', 'codeExecution', 'googleSearch', 'structuredOutput'],
+    tier: 'standard'
+  },
+  {
+    name: GeminiModel.PRO_25_PREVIEW,
+    contextWindow: 1048576,
+    outputTokenLimit: 65536,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    thinking: { minBudget: 128, maxBudget: 32768, canDisable: false },
+    tools: ['functionCalling', 'codeExecution', 'googleSearch', 'structuredOutput'],
+    tier: 'premium'
+  },
+  {
+    name: GeminiModel.FLASH_IMAGE_GEN,
+    contextWindow: 32768,
+    outputTokenLimit: 8192,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image'],
+    outputModalities: ['text', 'image'],
+    tools: [],
+    tier: 'standard'
+  },
+  {
+    name: GeminiModel.PRO_VISION,
+    contextWindow: 2097152,
+    outputTokenLimit: 8192,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    tools: ['functionCalling', 'codeExecution', 'googleSearchRetrieval', 'structuredOutput'],
+    tier: 'premium',
+    legacy: true
+  },
+  {
+    name: GeminiModel.FLASH_VISION,
+    contextWindow: 1048576,
+    outputTokenLimit: 8192,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    tools: ['functionCalling', 'codeExecution', 'googleSearchRetrieval', 'structuredOutput'],
+    tier: 'standard',
+    legacy: true
+  },
+  {
+    name: GeminiModel.FLASH_8B,
+    contextWindow: 1048576,
+    outputTokenLimit: 8192,
+    methods: ['generateContent', 'countTokens'],
+    inputModalities: ['text', 'image', 'audio', 'video', 'pdf'],
+    outputModalities: ['text'],
+    tools: ['functionCalling', 'codeExecution', 'structuredOutput'],
+    tier: 'lite',
+    legacy: true
+  },
+  {
+    name: ImagenModel.IMAGEN_3,
+    contextWindow: 480,
+    outputTokenLimit: 0,
+    methods: ['generateImages'],
+    inputModalities: ['text'],
+    outputModalities: ['image'],
+    tools: [],
+    tier: 'standard'
+  },
+  {
+    name: VeoModel.VEO_2,
+    contextWindow: 480,
+    outputTokenLimit: 0,
+    methods: ['generateVideos'],
+    inputModalities: ['text', 'image'],
+    outputModalities: ['video'],
+    tools: [],
+    tier: 'premium'
+  }
+];
+
 /**
  * Default generation parameters
  */
@@ -78,6 +207,21 @@ export const VIDEO_DURATIONS = {
   DEFAULT: 5
 };
 
+/**
+ * Documented token rates used to estimate token counts without the API
+ */
+export const LOCAL_TOKEN_RATES = {
+  /** Characters of Latin-script text per token (CJK characters count one token each) */
+  charactersPerToken: 4,
+  /** Tokens per image tile; images up to `smallImageSize` pixels on both sides are one tile */
+  imageTile: 258,
+  imageTileSize: 768,
+  smallImageSize: 384,
+  videoPerSecond: 263,
+  audioPerSecond: 32,
+  pdfPage: 258
+};
+
 /**
  * Helper to validate API key format
  * @param apiKey - Gemini API key to validate
@@ -94,17 +238,8 @@ export function isValidApiKey(apiKey: string): boolean {
  * @returns Boolean indicating if the model supports multimodal inputs
  */
 export function isMultimodalModel(model: string): boolean {
-  return [
-    GeminiModel.PRO_25_PREVIEW,
-    GeminiModel.FLASH_25_PREVIEW,
-    GeminiModel.PRO_VISION,
-    GeminiModel.FLASH_VISION,
-    GeminiModel.FLASH,
-    GeminiModel.FLASH_LITE,
-    GeminiModel.FLASH_8B,
-    GeminiModel.ULTRA,
-    GeminiModel.FLASH_IMAGE_GEN
-  ].includes(model as GeminiModel);
+  return MODEL_CAPABILITIES.some(entry =>
+    entry.name === model && entry.methods.includes('generateContent') && entry.inputModalities.includes('image'));
 }
 
 /**
@@ -113,10 +248,7 @@ export function isMultimodalModel(model: string): boolean {
  * @returns Boolean indicating if the model supports image generation
  */
 export function isImageGenerationModel(model: string): boolean {
-  return [
-    GeminiModel.FLASH_IMAGE_GEN,
-    ImagenModel.IMAGEN_3
-  ].includes(model as GeminiModel | ImagenModel);
+  return MODEL_CAPABILITIES.some(entry => entry.name === model && entry.outputModalities.includes('image'));
 }
 
 /**
@@ -125,7 +257,27 @@ export function isImageGenerationModel(model: string): boolean {
  * @returns Boolean indicating if the model supports video generation
  */
 export function isVideoGenerationModel(model: string): boolean {
-  return [
-    VeoModel.VEO_2
-  ].includes(model as VeoModel);
-} 
\ No newline at end of file
+  return MODEL_CAPABILITIES.some(entry => entry.name === model && entry.outputModalities.includes('video'));
+}
+
+/**
+ * How long `GeminiClient.listModels` results are cached by default
+ */
+export const DEFAULT_MODEL_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * List prices in US dollars per million tokens (paid tier, prompts up to 200k tokens),
+ * keyed by model name prefix; the longest matching prefix applies
+ *
+ * Prices change: override or extend them with the `usage.prices` client option.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+  'gemini-2.5-flash-preview': { input: 0.15, output: 0.6, thinking: 3.5, cachedInput: 0.0375 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5, cachedInput: 0.3125 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15, cachedInput: 0.01 },
+};
@@ -0,0 +1,133 @@
+import { CandidateResponse, FinishReason, GenerationConfig, GenerationResponse, UsageMetadata } from '../types';
+import { getCandidates } from './generation';
+import { getSafetyInfo } from './safety';
+
+/**
+ * Follow-up message for text answers
+ */
+export const CONTINUE_TEXT_PROMPT = 'Continue exactly where your previous answer stopped. Do not repeat anything you already wrote and do not add any introduction.';
+
+/**
+ * Follow-up message for JSON answers
+ */
+export const CONTINUE_JSON_PROMPT = 'Your JSON output was cut off. Output only the remaining characters, starting right after the last character you wrote, without code fences or any other text.';
+
+/**
+ * Shortest repeated text dropped from the start of a continuation
+ */
+const MIN_OVERLAP = 8;
+
+/**
+ * Longest repeated text looked for at the start of a continuation
+ */
+const MAX_OVERLAP = 200;
+
+/**
+ * Continue a response cut off at `maxOutputTokens` until it completes or a limit is reached
+ *
+ * While the last response stopped with `MAX_TOKENS`, `next` sends a follow-up turn
+ * asking the model to go on, and its text is appended to the answer. Text the model
+ * repeats from the end of the answer is dropped, as are code fences around JSON
+ * continuations. No follow-up starts after `maxRounds` turns or once the turns so
+ * far used `maxTotalTokens`, so the last response may still be truncated: its
+ * `finishReason` then stays `MAX_TOKENS`. Under `maxTotalTokens`, each follow-up's
+ * `maxOutputTokens` is lowered to the tokens left, so only its prompt can go over.
+ *
+ * @param first - Response of the first turn
+ * @param next - Sends a follow-up turn, given the answer so far, the follow-up message
+ *   and the `maxOutputTokens` to send it with (undefined to keep the request's)
+ * @param config - Generation config, with its `continuation` and `maxOutputTokens`
+ * @param format - 'json' to continue raw JSON (default: 'text')
+ * @returns The assembled answer with the finish reason and safety feedback of the last
+ *   turn and the usage of every turn; `raw` is the last turn's response and `rounds`
+ *   holds every turn's. The first candidate carries the assembled text; the others
+ *   are those of the first turn, which are not continued.
+ */
+export async function continueResponse(
+  first: any,
+  next: (answer: string, prompt: string, maxOutputTokens: number | undefined) => Promise<any>,
+  config: Pick<GenerationConfig, 'continuation' | 'maxOutputTokens'>,
+  format: 'text' | 'json' = 'text'
+): Promise<GenerationResponse> {
+  const continuation = config.continuation;
+  const options = continuation === true ? {} : continuation || { maxRounds: 0 };
+  const maxRounds = options.maxRounds ?? 3;
+  const maxTotalTokens = options.maxTotalTokens ?? Infinity;
+  const prompt = options.prompt ?? (format === 'json' ? CONTINUE_JSON_PROMPT : CONTINUE_TEXT_PROMPT);
+  const responses = [first];
+  let text = first?.text ?? '';
+
+  while (
+    getFinishReason(responses[responses.length - 1]) === 'MAX_TOKENS'
+    && responses.length <= maxRounds
+    && sumUsage(responses).totalTokenCount < maxTotalTokens
+  ) {
+    const remaining = maxTotalTokens - sumUsage(responses).totalTokenCount;
+    const maxOutputTokens = Number.isFinite(remaining) ? Math.min(remaining, config.maxOutputTokens ?? remaining) : undefined;
+    const response = await next(text, prompt, maxOutputTokens);
+    responses.push(response);
+    const piece = response?.text ?? '';
+    text += dropOverlap(text, format === 'json' ? stripCodeFence(piece) : piece);
+  }
+
+  const last = responses[responses.length - 1];
+  const usage = responses.some(response => response?.usageMetadata) ? sumUsage(responses) : undefined;
+  const candidates = assembleCandidates(first, last, text);
+  return {
+    text,
+    ...getSafetyInfo(last),
+    ...(usage && { usageMetadata: usage }),
+    ...(candidates && { candidates }),
+    continuations: responses.length - 1,
+    rounds: responses,
+    raw: last,
+  };
+}
+
+/**
+ * Candidates of the first turn, the first one completed by the follow-up turns
+ */
+function assembleCandidates(first: any, last: any, text: string): CandidateResponse[] | undefined {
+  const [answer, ...others] = getCandidates(first).candidates ?? [];
+  if (!answer) {
+    return undefined;
+  }
+  if (first === last) {
+    return [answer, ...others];
+  }
+  const completed: CandidateResponse = { ...(getCandidates(last).candidates?.[0] ?? answer), index: answer.index, text };
+  // Log probabilities cover a single turn
+  delete completed.avgLogprobs;
+  delete completed.logprobsResult;
+  return [completed, ...others];
+}
+
+function getFinishReason(response: any): FinishReason | undefined {
+  return response?.candidates?.[0]?.finishReason;
+}
+
+function sumUsage(responses: any[]): UsageMetadata {
+  const usage: UsageMetadata = { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 };
+  for (const response of responses) {
+    usage.promptTokenCount += response?.usageMetadata?.promptTokenCount ?? 0;
+    usage.candidatesTokenCount += response?.usageMetadata?.candidatesTokenCount ?? 0;
+    usage.totalTokenCount += response?.usageMetadata?.totalTokenCount ?? 0;
+  }
+  return usage;
+}
+
+/**
+ * Drop the start of a continuation that repeats the end of the answer
+ */
+function dropOverlap(answer: string, piece: string): string {
+  for (let length = Math.min(MAX_OVERLAP, answer.length, piece.length); length >= MIN_OVERLAP; length--) {
+    if (answer.endsWith(piece.slice(0, length))) {
+      return piece.slice(length);
+    }
+  }
+  return piece;
+}
+
+function stripCodeFence(piece: string): string {
+  return piece.replace(/^\s*```(?:json)?[ \t]*\n?/, '').replace(/\n?```\s*$/, '');
+}
@@ -0,0 +1,358 @@
+import { BlockReason, Budget, BudgetAmount, FinishReason, SafetyRating, ServiceName } from '../types';
+import { getErrorStatus, getRetryAfterMs } from './retry';
+
+/**
+ * Context describing where an error happened
+ */
+export interface GeminiErrorContext {
+  /** Service that made the call */
+  service?: ServiceName;
+  /** Service method that made the call */
+  method?: string;
+  /** Model the request targeted */
+  model?: string;
+  /** Human-readable description of the failed action, used as the message prefix */
+  message?: string;
+  /** Caller's abort signal; distinguishes a cancelled call from a client-side timeout */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for constructing a GeminiError
+ */
+export interface GeminiErrorOptions extends Omit<GeminiErrorContext, 'message' | 'signal'> {
+  /** HTTP status code returned by the API */
+  status?: number;
+  /** API status string (e.g. 'RESOURCE_EXHAUSTED', 'INVALID_ARGUMENT') */
+  code?: string;
+  /** Error details returned by the API (google.rpc error details) */
+  details?: any[];
+  /** Original error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors raised by the SDK
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await gemini.textGeneration.generate("Hello");
+ * } catch (error) {
+ *   if (error instanceof GeminiRateLimitError) {
+ *     console.log(`Rate limited on ${error.model}, retry in ${error.retryAfterMs}ms`);
+ *   } else if (error instanceof GeminiError) {
+ *     console.log(error.service, error.method, error.status);
+ *   }
+ * }
+ * ```
+ */
+export class GeminiError extends Error {
+  /** HTTP status code returned by the API */
+  status?: number;
+  /** API status string (e.g. 'RESOURCE_EXHAUSTED') */
+  code?: string;
+  /** Error details returned by the API */
+  details?: any[];
+  /** Service that made the call */
+  service?: ServiceName;
+  /** Service method that made the call */
+  method?: string;
+  /** Model the request targeted */
+  model?: string;
+  /** Original error */
+  cause?: unknown;
+
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message);
+    this.name = 'GeminiError';
+    this.status = options.status;
+    this.code = options.code;
+    this.details = options.details;
+    this.service = options.service;
+    this.method = options.method;
+    this.model = options.model;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * Quota or rate limit exceeded (HTTP 429 / RESOURCE_EXHAUSTED)
+ */
+export class GeminiRateLimitError extends GeminiError {
+  /** Delay suggested by the server before retrying, in milliseconds */
+  retryAfterMs?: number;
+
+  constructor(message: string, options: GeminiErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, options);
+    this.name = 'GeminiRateLimitError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Prompt or response blocked by safety filters
+ */
+export class GeminiSafetyBlockedError extends GeminiError {
+  /** Reason the prompt was blocked (promptFeedback.blockReason) */
+  blockReason?: BlockReason;
+  /** Finish reason of the blocked candidate */
+  finishReason?: FinishReason;
+  /** Safety ratings reported with the block */
+  safetyRatings?: SafetyRating[];
+
+  constructor(
+    message: string,
+    options: GeminiErrorOptions & { blockReason?: BlockReason; finishReason?: FinishReason; safetyRatings?: SafetyRating[] } = {}
+  ) {
+    super(message, options);
+    this.name = 'GeminiSafetyBlockedError';
+    this.blockReason = options.blockReason;
+    this.finishReason = options.finishReason;
+    this.safetyRatings = options.safetyRatings;
+  }
+}
+
+/**
+ * Request rejected as malformed or unsupported (HTTP 400 / INVALID_ARGUMENT)
+ */
+export class GeminiInvalidArgumentError extends GeminiError {
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'GeminiInvalidArgumentError';
+  }
+}
+
+/**
+ * Model does not support a requested feature, modality or thinking budget
+ *
+ * Raised by the model registry before a request is sent, or mapped from an API 400
+ * whose message says the feature is unsupported or not enabled for the model.
+ */
+export class GeminiUnsupportedFeatureError extends GeminiInvalidArgumentError {
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'GeminiUnsupportedFeatureError';
+  }
+}
+
+/**
+ * Missing or invalid credentials (HTTP 401 / 403)
+ */
+export class GeminiAuthenticationError extends GeminiError {
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'GeminiAuthenticationError';
+  }
+}
+
+/**
+ * Model, file or operation not found (HTTP 404)
+ */
+export class GeminiNotFoundError extends GeminiError {
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'GeminiNotFoundError';
+  }
+}
+
+/**
+ * Server-side failure (HTTP 5xx)
+ */
+export class GeminiServerError extends GeminiError {
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'GeminiServerError';
+  }
+}
+
+/**
+ * Request or polling loop exceeded its time limit
+ */
+export class GeminiTimeoutError extends GeminiError {
+  constructor(message: string, options: GeminiErrorOptions = {}) {
+    super(message, options);
+    this.name = 'GeminiTimeoutError';
+  }
+}
+
+/**
+ * Call cancelled through its AbortSignal
+ */
+export class GeminiAbortError extends GeminiError {
+  /** Reason passed to `AbortController.abort()` */
+  reason?: unknown;
+
+  constructor(message: string = 'The operation was aborted', options: GeminiErrorOptions & { reason?: unknown } = {}) {
+    super(message, options);
+    this.name = 'GeminiAbortError';
+    this.reason = options.reason;
+  }
+}
+
+/**
+ * Uploaded file failed server-side processing
+ */
+export class GeminiFileProcessingError extends GeminiError {
+  /** Name of the file that failed */
+  fileName?: string;
+
+  constructor(message: string, options: GeminiErrorOptions & { fileName?: string } = {}) {
+    super(message, options);
+    this.name = 'GeminiFileProcessingError';
+    this.fileName = options.fileName;
+  }
+}
+
+/**
+ * Model output could not be parsed into the requested shape (JSON, boolean, ...)
+ */
+export class GeminiParseError extends GeminiError {
+  /** Raw text that failed to parse */
+  text?: string;
+
+  constructor(message: string, options: GeminiErrorOptions & { text?: string } = {}) {
+    super(message, options);
+    this.name = 'GeminiParseError';
+    this.text = options.text;
+  }
+}
+
+/**
+ * Request made in cassette replay mode that no recorded interaction matches
+ */
+export class GeminiCassetteMismatchError extends GeminiError {
+  /** Transport operation of the unmatched request (e.g. 'models.generateContent') */
+  operation?: string;
+  /** The unmatched request */
+  request?: unknown;
+
+  constructor(message: string, options: GeminiErrorOptions & { operation?: string; request?: unknown } = {}) {
+    super(message, options);
+    this.name = 'GeminiCassetteMismatchError';
+    this.operation = options.operation;
+    this.request = options.request;
+  }
+}
+
+/**
+ * Call refused before sending because it would exceed a spending budget
+ */
+export class GeminiBudgetExceededError extends GeminiError {
+  /** Budget the call would exceed */
+  budget?: Budget;
+  /** Usage of the budget's window so far */
+  spent?: BudgetAmount;
+  /** Estimated usage of the refused call */
+  estimate?: BudgetAmount;
+
+  constructor(message: string, options: GeminiErrorOptions & { budget?: Budget; spent?: BudgetAmount; estimate?: BudgetAmount } = {}) {
+    super(message, options);
+    this.name = 'GeminiBudgetExceededError';
+    this.budget = options.budget;
+    this.spent = options.spent;
+    this.estimate = options.estimate;
+  }
+}
+
+/**
+ * API messages of 400 errors caused by a feature the model does not support
+ */
+const UNSUPPORTED_FEATURE_PATTERN = /\b(not supported|unsupported|is not enabled|not available for)\b/i;
+
+/**
+ * Parse the JSON error body embedded in an API error message
+ * ("got status: 429 Too Many Requests. {"error": {...}}")
+ */
+function parseApiErrorBody(error: any): { message?: string; status?: string; details?: any[] } {
+  const text = String(error?.message ?? '');
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return {};
+  }
+  try {
+    const body = JSON.parse(text.substring(start));
+    return body?.error ?? body ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert any error raised during a service call into a typed GeminiError
+ *
+ * Errors that are already GeminiErrors are returned unchanged, with missing
+ * context filled in.
+ *
+ * @param error - Error thrown by the transport or by service code
+ * @param context - Service, method, model and message prefix describing the call
+ * @returns A GeminiError subclass matching the failure
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   // ...
+ * } catch (error) {
+ *   throw toGeminiError(error, {
+ *     service: 'textGeneration',
+ *     method: 'generate',
+ *     model,
+ *     message: 'Text generation failed'
+ *   });
+ * }
+ * ```
+ */
+export function toGeminiError(error: unknown, context: GeminiErrorContext = {}): GeminiError {
+  if (error instanceof GeminiError) {
+    error.service = error.service ?? context.service;
+    error.method = error.method ?? context.method;
+    error.model = error.model ?? context.model;
+    return error;
+  }
+
+  const originalMessage = error instanceof Error ? error.message : String(error);
+  const message = context.message ? `${context.message}: ${originalMessage}` : originalMessage;
+  const body = parseApiErrorBody(error);
+  const status = getErrorStatus(error) ?? (typeof body.status === 'number' ? body.status : undefined);
+  const code = typeof body.status === 'string' ? body.status : undefined;
+  const options: GeminiErrorOptions = {
+    status,
+    code,
+    details: Array.isArray(body.details) ? body.details : undefined,
+    service: context.service,
+    method: context.method,
+    model: context.model,
+    cause: error,
+  };
+
+  if (context.signal?.aborted) {
+    return new GeminiAbortError(message, { ...options, reason: context.signal.reason });
+  }
+  if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+    return new GeminiRateLimitError(message, { ...options, retryAfterMs: getRetryAfterMs(error) });
+  }
+  if (status === 400 || code === 'INVALID_ARGUMENT' || code === 'FAILED_PRECONDITION') {
+    if (UNSUPPORTED_FEATURE_PATTERN.test(body.message ?? originalMessage)) {
+      return new GeminiUnsupportedFeatureError(message, options);
+    }
+    return new GeminiInvalidArgumentError(message, options);
+  }
+  if (status === 401 || status === 403 || code === 'UNAUTHENTICATED' || code === 'PERMISSION_DENIED') {
+    return new GeminiAuthenticationError(message, options);
+  }
+  if (status === 404 || code === 'NOT_FOUND') {
+    return new GeminiNotFoundError(message, options);
+  }
+  // Without a caller abort, an aborted request means the client-side `timeout` fired
+  if (
+    status === 408 || status === 504 || code === 'DEADLINE_EXCEEDED' ||
+    (error as any)?.name === 'TimeoutError' || (error as any)?.name === 'AbortError' ||
+    /AbortError/.test(originalMessage)
+  ) {
+    return new GeminiTimeoutError(message, options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new GeminiServerError(message, options);
+  }
+  return new GeminiError(message, options);
+}
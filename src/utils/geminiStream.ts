@@ -0,0 +1,247 @@
+import { FunctionCall, GeminiStreamEvent, GenerationResponse, UsageMetadata } from '../types';
+import { GeminiError, GeminiErrorContext, toGeminiError } from './errors';
+import { getSafetyInfo } from './safety';
+
+/**
+ * Destination accepted by `GeminiStream.pipe` (e.g. `process.stdout`, an HTTP response or a file stream)
+ */
+export interface StreamDestination {
+  write(chunk: string): boolean;
+  end(): void;
+  once(event: 'drain', listener: () => void): unknown;
+}
+
+/**
+ * Streamed model response
+ *
+ * Iterate it for typed events, or await `finalResponse()` for the assembled
+ * `GenerationResponse`. Both can be combined: the final response resolves once the
+ * iteration ends. A stream can only be read once.
+ *
+ * @example
+ * ```typescript
+ * const stream = await gemini.textGeneration.streamGenerate('Write a haiku about autumn');
+ * for await (const event of stream) {
+ *   if (event.type === 'text-delta') {
+ *     process.stdout.write(event.text);
+ *   }
+ * }
+ * const { usageMetadata } = await stream.finalResponse();
+ *
+ * // Or pipe the text straight to a Node writable or a web Response
+ * await (await gemini.textGeneration.streamGenerate('Hello')).pipe(process.stdout);
+ * return new Response((await gemini.textGeneration.streamGenerate('Hello')).toReadableStream());
+ * ```
+ */
+export class GeminiStream implements AsyncIterable<GeminiStreamEvent> {
+  private source: AsyncIterable<any>;
+  private errorContext: GeminiErrorContext;
+  private started = false;
+  private chunks: any[] = [];
+  private text = '';
+  private thoughts = '';
+  private functionCalls: FunctionCall[] = [];
+  private usageMetadata?: UsageMetadata;
+  private groundingMetadata?: any;
+  private safetyInfo: ReturnType<typeof getSafetyInfo> = {};
+  private done: Promise<GenerationResponse>;
+  private resolve!: (response: GenerationResponse) => void;
+  private reject!: (error: unknown) => void;
+
+  /**
+   * @param source - Response chunks from `models.generateContentStream` or `chat.sendMessageStream`
+   * @param errorContext - Service, method and model reported by errors raised mid-stream
+   */
+  constructor(source: AsyncIterable<any>, errorContext: GeminiErrorContext = {}) {
+    this.source = source;
+    this.errorContext = errorContext;
+    this.done = new Promise((resolve, reject) => {
+      this.resolve = resolve;
+      this.reject = reject;
+    });
+    // Callers that only iterate never await the final response
+    this.done.catch(() => undefined);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<GeminiStreamEvent> {
+    if (this.started) {
+      const { service, method, model } = this.errorContext;
+      throw new GeminiError('A GeminiStream can only be read once', { service, method, model });
+    }
+    this.started = true;
+    return this.read();
+  }
+
+  /**
+   * Wait for the stream to end and assemble the full response
+   *
+   * Reads the stream if nobody is iterating it. If the consumer stops iterating
+   * early, the response holds what was received up to that point.
+   *
+   * @returns Concatenated text and thoughts, every function call, the grounding
+   *   metadata, the final token usage and the last finish reason and safety
+   *   ratings; `raw` holds the chunks
+   */
+  finalResponse(): Promise<GenerationResponse> {
+    if (!this.started) {
+      (async () => {
+        for await (const event of this) {
+          void event;
+        }
+      })().catch(() => undefined);
+    }
+    return this.done;
+  }
+
+  /**
+   * Wait for the stream to end, fail or be closed by its reader, without reading it
+   *
+   * @returns The final response, as `finalResponse` assembles it
+   */
+  settled(): Promise<GenerationResponse> {
+    return this.done;
+  }
+
+  /**
+   * Write the response text to a Node writable, waiting for it to drain when full
+   *
+   * @param destination - Writable stream (e.g. `process.stdout` or a `ServerResponse`)
+   * @param options - `end` closes the destination when the stream ends (default: true)
+   * @returns The final response
+   */
+  async pipe(destination: StreamDestination, options: { end?: boolean } = {}): Promise<GenerationResponse> {
+    for await (const event of this) {
+      if (event.type === 'text-delta' && !destination.write(event.text)) {
+        await new Promise<void>(resolve => destination.once('drain', resolve));
+      }
+    }
+    if (options.end ?? true) {
+      destination.end();
+    }
+    return this.done;
+  }
+
+  /**
+   * Expose the response text as a web `ReadableStream` of UTF-8 bytes
+   *
+   * Suitable as the body of a `Response` in Next.js route handlers and other
+   * fetch-based servers. Cancelling the readable stops reading the model response.
+   */
+  toReadableStream(): ReadableStream<Uint8Array> {
+    const iterator = this[Symbol.asyncIterator]();
+    const encoder = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          for (;;) {
+            const { value, done } = await iterator.next();
+            if (done) {
+              controller.close();
+              return;
+            }
+            if (value.type === 'text-delta') {
+              controller.enqueue(encoder.encode(value.text));
+              return;
+            }
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await iterator.return?.();
+      },
+    });
+  }
+
+  private async *read(): AsyncGenerator<GeminiStreamEvent> {
+    try {
+      for await (const chunk of this.source) {
+        this.chunks.push(chunk);
+        const grounding = chunk?.candidates?.[0]?.groundingMetadata;
+        if (grounding) {
+          this.groundingMetadata = grounding;
+        }
+        this.safetyInfo = { ...this.safetyInfo, ...getSafetyInfo(chunk) };
+        for (const event of toStreamEvents(chunk)) {
+          this.accumulate(event);
+          yield event;
+        }
+      }
+    } catch (error) {
+      const geminiError = toGeminiError(error, this.errorContext);
+      this.reject(geminiError);
+      throw geminiError;
+    } finally {
+      // Also reached when the consumer stops early; the promise is already settled after a failure
+      this.resolve(this.assemble());
+    }
+  }
+
+  private accumulate(event: GeminiStreamEvent): void {
+    switch (event.type) {
+      case 'text-delta':
+        this.text += event.text;
+        break;
+      case 'thought':
+        this.thoughts += event.text;
+        break;
+      case 'function-call':
+        this.functionCalls.push(event.functionCall);
+        break;
+      case 'usage':
+        this.usageMetadata = event.usage;
+        break;
+    }
+  }
+
+  private assemble(): GenerationResponse {
+    return {
+      text: this.text,
+      ...(this.thoughts && { thoughts: this.thoughts }),
+      ...(this.functionCalls.length > 0 && { functionCalls: this.functionCalls }),
+      ...(this.groundingMetadata && { groundingMetadata: this.groundingMetadata }),
+      ...(this.usageMetadata && { usageMetadata: this.usageMetadata }),
+      ...this.safetyInfo,
+      raw: this.chunks,
+    };
+  }
+}
+
+/**
+ * Split a response chunk into stream events
+ *
+ * @param chunk - Chunk from `generateContentStream`
+ * @returns Text, thought and function-call events in part order, then a usage event if the chunk reports usage
+ */
+export function toStreamEvents(chunk: any): GeminiStreamEvent[] {
+  const events: GeminiStreamEvent[] = [];
+  const parts = chunk?.candidates?.[0]?.content?.parts;
+  if (Array.isArray(parts)) {
+    for (const part of parts) {
+      if (typeof part?.text === 'string' && part.text) {
+        events.push({ type: part.thought ? 'thought' : 'text-delta', text: part.text, raw: chunk });
+      }
+      if (part?.functionCall) {
+        const functionCall = { name: part.functionCall.name ?? '', args: part.functionCall.args ?? {} };
+        events.push({ type: 'function-call', functionCall, raw: chunk });
+      }
+    }
+  } else if (typeof chunk?.text === 'string' && chunk.text) {
+    events.push({ type: 'text-delta', text: chunk.text, raw: chunk });
+  }
+
+  const usage = chunk?.usageMetadata;
+  if (usage) {
+    events.push({
+      type: 'usage',
+      usage: {
+        promptTokenCount: usage.promptTokenCount ?? 0,
+        candidatesTokenCount: usage.candidatesTokenCount ?? 0,
+        totalTokenCount: usage.totalTokenCount ?? 0,
+      },
+      raw: chunk,
+    });
+  }
+  return events;
+}
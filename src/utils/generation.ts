@@ -0,0 +1,142 @@
+import { CandidateResponse, GenerationConfig, ToolConfig } from '../types';
+import { isBlockedFinishReason } from './safety';
+
+/**
+ * `GenerationConfig` fields sent unchanged in the request config
+ */
+const SAMPLING_FIELDS = [
+  'maxOutputTokens',
+  'temperature',
+  'topK',
+  'topP',
+  'stopSequences',
+  'candidateCount',
+  'seed',
+  'presencePenalty',
+  'frequencyPenalty',
+  'responseLogprobs',
+  'logprobs',
+  'responseModalities',
+] as const;
+
+/**
+ * `generateContent` or `generateContentStream` request
+ */
+export interface GenerateRequest {
+  model: string;
+  contents: any;
+  config: Record<string, any>;
+}
+
+/**
+ * Build a `generateContent` or `generateContentStream` request
+ *
+ * @param model - Model to call
+ * @param contents - Prompt text, parts or contents
+ * @param config - Generation configuration options
+ * @param extra - Request config fields set by the service; see `toRequestConfig`
+ * @returns Request for the transport's `models` namespace
+ */
+export function buildGenerateRequest(
+  model: string,
+  contents: any,
+  config?: GenerationConfig,
+  extra: Record<string, any> = {}
+): GenerateRequest {
+  return { model, contents, config: toRequestConfig(config, extra) };
+}
+
+/**
+ * Map a generation config to the config of a request
+ *
+ * Every service builds its requests (and chat sessions) with this, so each
+ * `GenerationConfig` setting reaches the API the same way in every method. `extra`
+ * holds the fields the service sets itself (response schema, tool config, ...),
+ * which win over those of `config`; tools it adds come before `config.tools`.
+ * Unset fields are left out.
+ *
+ * @param config - Generation configuration options
+ * @param extra - Request config fields set by the service
+ * @returns Request config, with the transport's `abortSignal` and the per-call `cache`
+ *   flag, which the transport removes before the SDK sees it
+ */
+export function toRequestConfig(config?: GenerationConfig, extra: Record<string, any> = {}): Record<string, any> {
+  const { tools: serviceTools, ...serviceConfig } = extra;
+  const tools = [...(serviceTools ?? []), ...(config?.tools ?? [])];
+  const requestConfig: Record<string, any> = {
+    systemInstruction: config?.systemInstruction,
+    safetySettings: config?.safetySettings,
+    ...toSamplingConfig(config),
+    thinkingConfig: config?.thinkingConfig,
+    tools: tools.length > 0 ? tools : undefined,
+    toolConfig: toWireToolConfig(config?.toolConfig),
+    abortSignal: config?.signal,
+    cache: config?.cache,
+    ...serviceConfig,
+  };
+  for (const key of Object.keys(requestConfig)) {
+    if (requestConfig[key] === undefined) {
+      delete requestConfig[key];
+    }
+  }
+  return requestConfig;
+}
+
+/**
+ * Map a tool config to the API's, whose function calling modes are upper case
+ *
+ * @param toolConfig - Tool configuration options
+ * @returns Tool config for the request config
+ */
+export function toWireToolConfig(toolConfig?: ToolConfig): Record<string, any> | undefined {
+  const functionCallingConfig = toolConfig?.functionCallingConfig;
+  if (!functionCallingConfig) {
+    return toolConfig;
+  }
+  return {
+    ...toolConfig,
+    functionCallingConfig: {
+      ...functionCallingConfig,
+      ...(functionCallingConfig.mode && { mode: functionCallingConfig.mode.toUpperCase() }),
+    },
+  };
+}
+
+/**
+ * Get the sampling and output settings of a generation config, for the request config
+ */
+function toSamplingConfig(config?: GenerationConfig): Pick<GenerationConfig, typeof SAMPLING_FIELDS[number]> {
+  const sampling: Record<string, unknown> = {};
+  for (const field of SAMPLING_FIELDS) {
+    if (config?.[field] !== undefined) {
+      sampling[field] = config[field];
+    }
+  }
+  return sampling;
+}
+
+/**
+ * Get every candidate of a response, with its text, finish reason, safety status and log probabilities
+ *
+ * @param response - SDK response
+ * @returns `candidates` to spread into a `GenerationResponse`; absent when the response has none
+ */
+export function getCandidates(response: any): { candidates?: CandidateResponse[] } {
+  if (!Array.isArray(response?.candidates) || response.candidates.length === 0) {
+    return {};
+  }
+  return {
+    candidates: response.candidates.map((candidate: any, position: number) => ({
+      index: candidate.index ?? position,
+      text: (candidate.content?.parts ?? [])
+        .filter((part: any) => typeof part?.text === 'string' && !part.thought)
+        .map((part: any) => part.text)
+        .join(''),
+      ...(candidate.finishReason && { finishReason: candidate.finishReason }),
+      ...(isBlockedFinishReason(candidate.finishReason) && { blocked: true }),
+      ...(candidate.safetyRatings && { safetyRatings: candidate.safetyRatings }),
+      ...(candidate.avgLogprobs !== undefined && { avgLogprobs: candidate.avgLogprobs }),
+      ...(candidate.logprobsResult && { logprobsResult: candidate.logprobsResult }),
+    })),
+  };
+}
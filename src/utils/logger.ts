@@ -0,0 +1,226 @@
+import { Logger, LogEvent, LogLevel, ServiceName } from '../types';
+import { TransportInterceptor } from './transport';
+import { getErrorStatus } from './retry';
+import { isResponseStream, observeStream } from './stream';
+
+/**
+ * Log levels, from most to least verbose
+ */
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Strings longer than this that look like base64 are replaced by their length
+ */
+const MAX_INLINE_LENGTH = 256;
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/=_-]+$/;
+
+/**
+ * Keys whose values are never logged
+ */
+const SECRET_KEYS = /^(api[-_]?key|x-goog-api-key|authorization)$/i;
+
+/**
+ * Logger that only forwards events at or above its level
+ */
+export interface LevelLogger extends Logger {
+  /** Whether events at the given level reach the underlying logger */
+  enabled(level: LogLevel): boolean;
+}
+
+/**
+ * Logger that drops every event
+ */
+export const noopLogger: LevelLogger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  enabled: () => false,
+};
+
+/**
+ * Filter a logger by level
+ *
+ * @param logger - Underlying logger (console, or an adapter for pino/winston)
+ * @param level - Least severe level to forward (default: 'info')
+ * @returns Logger forwarding events at or above `level`
+ */
+export function createLogger(logger: Logger, level: LogLevel = 'info'): LevelLogger {
+  const threshold = LOG_LEVELS.indexOf(level);
+  const enabled = (eventLevel: LogLevel) => LOG_LEVELS.indexOf(eventLevel) >= threshold;
+  const forward = (eventLevel: LogLevel) => (message: string, event?: LogEvent) => {
+    if (enabled(eventLevel)) {
+      logger[eventLevel](message, event);
+    }
+  };
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+    enabled,
+  };
+}
+
+/**
+ * Copy a value for logging with secrets and large payloads removed
+ *
+ * API keys and authorization headers become '[REDACTED]', occurrences of the given
+ * secrets are masked in every string, and inline data (long base64 strings, buffers)
+ * is replaced by its size.
+ *
+ * @param value - Value to redact
+ * @param secrets - Strings to mask wherever they appear (e.g. the API key)
+ * @returns Redacted copy of the value
+ */
+export function redact(value: unknown, secrets: string[] = []): unknown {
+  const ancestors = new Set<object>();
+
+  const visit = (current: unknown, key?: string): unknown => {
+    if (key && SECRET_KEYS.test(key)) {
+      return '[REDACTED]';
+    }
+    if (typeof current === 'string') {
+      if (current.length > MAX_INLINE_LENGTH && BASE64_PATTERN.test(current)) {
+        return `[${current.length} chars redacted]`;
+      }
+      return secrets.reduce((text, secret) => (secret ? text.split(secret).join('[REDACTED]') : text), current);
+    }
+    if (!current || typeof current !== 'object') {
+      return current;
+    }
+    if (ArrayBuffer.isView(current)) {
+      return `[${current.byteLength} bytes redacted]`;
+    }
+    if (typeof AbortSignal !== 'undefined' && current instanceof AbortSignal) {
+      return '[AbortSignal]';
+    }
+    if (current instanceof Error) {
+      return { name: current.name, message: visit(current.message) };
+    }
+    if (ancestors.has(current)) {
+      return '[Circular]';
+    }
+
+    ancestors.add(current);
+    const copy = Array.isArray(current)
+      ? current.map(item => visit(item))
+      : Object.fromEntries(Object.entries(current).map(([name, item]) => [name, visit(item, name)]));
+    ancestors.delete(current);
+    return copy;
+  };
+
+  return visit(value);
+}
+
+/**
+ * Summarize an error for a log event
+ */
+export function describeError(error: unknown, secrets: string[] = []): NonNullable<LogEvent['error']> {
+  const err = error as any;
+  const status = getErrorStatus(err);
+  return {
+    name: err?.name ?? 'Error',
+    message: redact(String(err?.message ?? err), secrets) as string,
+    ...(status !== undefined && { status }),
+  };
+}
+
+/**
+ * Read the token usage from an API response
+ */
+function getUsage(response: any): LogEvent['usage'] {
+  const usage = response?.usageMetadata;
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    promptTokens: usage.promptTokenCount,
+    responseTokens: usage.candidatesTokenCount,
+    totalTokens: usage.totalTokenCount,
+  };
+}
+
+/**
+ * Create a transport interceptor that logs every API call
+ *
+ * Completed calls are logged at info level with latency, token usage and retry
+ * count, failed calls at error level. Redacted requests and responses are logged
+ * at debug level.
+ *
+ * @param logger - Client logger
+ * @param secrets - Strings masked in logged payloads (e.g. the API key)
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function loggingInterceptor(logger: LevelLogger, secrets: string[] = []): TransportInterceptor {
+  return async (call, next) => {
+    const request = call.args[0];
+    const base: LogEvent = {
+      service: call.service,
+      operation: call.operation,
+      ...(typeof request?.model === 'string' && { model: request.model }),
+    };
+    const started = Date.now();
+    const summarize = (): LogEvent => ({
+      ...base,
+      latencyMs: Date.now() - started,
+      retries: Math.max(0, (call.stats?.attempts ?? 1) - 1),
+    });
+    const complete = (response: any) => {
+      logger.info('Gemini call completed', { ...summarize(), usage: getUsage(response) });
+      if (logger.enabled('debug')) {
+        logger.debug('Gemini response', { ...base, response: redact(response, secrets) });
+      }
+    };
+    const fail = (error: unknown) => {
+      logger.error('Gemini call failed', { ...summarize(), error: describeError(error, secrets) });
+    };
+
+    if (logger.enabled('debug')) {
+      logger.debug('Gemini request', { ...base, request: redact(request, secrets) });
+    }
+
+    let response: any;
+    try {
+      response = await next(call.args);
+    } catch (error) {
+      fail(error);
+      throw error;
+    }
+
+    if (isResponseStream(call.operation, response)) {
+      return observeStream(response, { complete, fail });
+    }
+    complete(response);
+    return response;
+  };
+}
+
+/**
+ * Log the arguments and results of every method of a service at debug level
+ *
+ * Synchronous methods stay synchronous.
+ *
+ * @param service - Service instance to patch
+ * @param name - Name of the service on the client
+ * @param logger - Client logger
+ * @param secrets - Strings masked in logged payloads
+ */
+export function logServiceCalls(service: any, name: ServiceName, logger: Logger, secrets: string[] = []): void {
+  for (const method of Object.getOwnPropertyNames(Object.getPrototypeOf(service))) {
+    const original = service[method];
+    if (method === 'constructor' || typeof original !== 'function') {
+      continue;
+    }
+    service[method] = (...args: any[]) => {
+      logger.debug(`Calling ${name}.${method}`, { service: name, method, args: redact(args, secrets) });
+      const logResult = (result: unknown) => {
+        logger.debug(`Result from ${name}.${method}`, { service: name, method, result: redact(result, secrets) });
+        return result;
+      };
+      const result = original.apply(service, args);
+      return result && typeof result.then === 'function' ? result.then(logResult) : logResult(result);
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Middleware } from '../types';
+import { TransportInterceptor } from './transport';
+
+/**
+ * Create a transport interceptor that runs model calls through client middleware
+ *
+ * Middleware is read on every call, so middleware registered after a service was
+ * created still applies to it.
+ *
+ * @param getMiddleware - Returns the client's middleware, outermost first
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function middlewareInterceptor(getMiddleware: () => Middleware[]): TransportInterceptor {
+  return (call, next) => {
+    const middleware = getMiddleware();
+    if (!call.operation.startsWith('models.') || middleware.length === 0) {
+      return next(call.args);
+    }
+
+    const [request, ...rest] = call.args;
+    const dispatch = (index: number, current: any): Promise<any> => {
+      if (index >= middleware.length) {
+        return next([current, ...rest]);
+      }
+      return Promise.resolve(middleware[index](
+        { service: call.service, operation: call.operation, request: current },
+        (nextRequest) => dispatch(index + 1, nextRequest ?? current)
+      ));
+    };
+    return dispatch(0, request);
+  };
+}
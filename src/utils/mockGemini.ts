@@ -0,0 +1,463 @@
+import { ClientOptions, FunctionCall, GeminiTransport, PromptFeedback, SafetyRating, UsageMetadata } from '../types';
+import { GeminiClient } from '../services/client';
+import { MODEL_CAPABILITIES } from './config';
+import { reviveResponse } from './cache';
+
+/**
+ * Model operations a scripted reply can answer
+ */
+export type MockOperation = 'generateContent' | 'generateContentStream' | 'generateImages' | 'embedContent';
+
+/**
+ * Which requests a scripted reply answers; omitted fields match anything
+ */
+export interface MockMatcher {
+  /** Operation; a reply without one answers both generateContent and generateContentStream */
+  operation?: MockOperation;
+  /** Model name (without the 'models/' prefix) or pattern */
+  model?: string | RegExp;
+  /** Text of the last user turn, as an exact string, a pattern or a predicate */
+  prompt?: string | RegExp | ((prompt: string, request: any) => boolean);
+}
+
+/**
+ * Scripted model response
+ */
+export interface MockReply {
+  /** Answer text */
+  text?: string;
+  /** Thought summary, sent as a `thought` part before the answer */
+  thoughts?: string;
+  /** Function calls, sent after the text */
+  functionCalls?: FunctionCall[];
+  /** Grounding metadata of the candidate */
+  groundingMetadata?: any;
+  /** Inline images (base64) returned by generateContent, or by generateImages as generated images */
+  images?: Array<{ data: string; mimeType?: string }>;
+  /** Embedding values returned by embedContent */
+  embedding?: number[];
+  /** Token usage (default: estimated from the prompt and answer lengths) */
+  usage?: Partial<UsageMetadata>;
+  /** Finish reason of the candidate (default: 'STOP') */
+  finishReason?: string;
+  /** Safety ratings of the candidate */
+  safetyRatings?: SafetyRating[];
+  /** Prompt feedback; a `blockReason` makes the response carry no candidate */
+  promptFeedback?: PromptFeedback;
+  /** Texts of further candidates, after the one built from the reply (for `candidateCount`) */
+  candidates?: string[];
+  /** Streamed chunks: strings are text chunks (default: the whole reply as one chunk) */
+  chunks?: Array<string | MockReply>;
+  /** Fail with this API status instead of answering */
+  error?: { status: number; message?: string };
+}
+
+/**
+ * Request received by the fake backend
+ */
+export interface MockRequest {
+  /** Transport operation (e.g. 'models.generateContent', 'files.upload') */
+  operation: string;
+  /** Request as passed to the transport */
+  request: any;
+}
+
+/**
+ * Scripted outcome of a long-running video operation
+ */
+export interface MockVideoOperation {
+  /** Polls answered with `done: false` before the operation completes (default: 1) */
+  polls?: number;
+  /** URIs of the generated videos */
+  videos?: string[];
+  /** Fail the operation with this message */
+  error?: string;
+}
+
+interface Script {
+  matcher: MockMatcher;
+  reply: MockReply | ((request: any) => MockReply);
+  remaining: number;
+}
+
+const STATUS_CODES: Record<number, [string, string]> = {
+  400: ['Bad Request', 'INVALID_ARGUMENT'],
+  401: ['Unauthorized', 'UNAUTHENTICATED'],
+  403: ['Forbidden', 'PERMISSION_DENIED'],
+  404: ['Not Found', 'NOT_FOUND'],
+  429: ['Too Many Requests', 'RESOURCE_EXHAUSTED'],
+  500: ['Internal Server Error', 'INTERNAL'],
+  503: ['Service Unavailable', 'UNAVAILABLE'],
+};
+
+/**
+ * In-process stand-in for the Gemini API, implementing the transport surface
+ *
+ * Replies are scripted per model and prompt; the first script matching a request
+ * answers it. Files move through scripted states on each lookup, video operations
+ * complete after a scripted number of polls, and every request is kept in
+ * `requests` for assertions. Token counting and model listing answer without
+ * scripts.
+ *
+ * @example
+ * ```typescript
+ * const backend = new FakeGeminiBackend()
+ *   .reply({ prompt: /weather/ }, { functionCalls: [{ name: 'get_weather', args: { city: 'Paris' } }] })
+ *   .reply({ model: 'gemini-2.0-flash' }, { text: 'Hello!', chunks: ['Hel', 'lo!'] });
+ * const gemini = new GeminiClient({ transport: backend });
+ * ```
+ */
+export class FakeGeminiBackend implements GeminiTransport {
+  /** Requests received, oldest first */
+  readonly requests: MockRequest[] = [];
+  readonly models: any;
+  readonly files: any;
+  readonly operations: any;
+  private scripts: Script[] = [];
+  private uploadStates: string[] = ['ACTIVE'];
+  private storedFiles = new Map<string, { file: any; states: string[] }>();
+  private videoScripts: MockVideoOperation[] = [];
+  private videoOperations = new Map<string, { script: MockVideoOperation; polls: number }>();
+  private counter = 0;
+
+  constructor() {
+    this.models = {
+      generateContent: async (request: any) => {
+        this.log('models.generateContent', request);
+        return toResponse(this.answer('generateContent', request), request);
+      },
+      generateContentStream: async (request: any) => {
+        this.log('models.generateContentStream', request);
+        const reply = this.answer('generateContentStream', request);
+        return streamChunks(reply, request);
+      },
+      generateImages: async (request: any) => {
+        this.log('models.generateImages', request);
+        const reply = this.answer('generateImages', request);
+        return {
+          generatedImages: (reply.images ?? []).map(image => ({
+            image: { imageBytes: image.data, mimeType: image.mimeType ?? 'image/png' },
+          })),
+        };
+      },
+      embedContent: async (request: any) => {
+        this.log('models.embedContent', request);
+        const reply = this.answer('embedContent', request);
+        return { embeddings: [{ values: reply.embedding ?? [] }] };
+      },
+      countTokens: async (request: any) => {
+        this.log('models.countTokens', request);
+        return { totalTokens: estimateTokens(JSON.stringify(request.contents ?? '')) };
+      },
+      generateVideos: async (request: any) => {
+        this.log('models.generateVideos', request);
+        const name = `operations/${++this.counter}`;
+        this.videoOperations.set(name, { script: this.videoScripts.shift() ?? {}, polls: 0 });
+        return { name, done: false };
+      },
+      list: async (request: any) => {
+        this.log('models.list', request);
+        const models = MODEL_CAPABILITIES.map(model => ({
+          name: `models/${model.name}`,
+          inputTokenLimit: model.contextWindow,
+          outputTokenLimit: model.outputTokenLimit,
+          supportedActions: model.methods,
+        }));
+        return createPager(models);
+      },
+    };
+
+    this.files = {
+      upload: async (request: any) => {
+        this.log('files.upload', request);
+        const id = `mock-${++this.counter}`;
+        const [state, ...next] = this.uploadStates;
+        const file = {
+          name: `files/${id}`,
+          displayName: request.config?.displayName,
+          mimeType: request.config?.mimeType ?? 'application/octet-stream',
+          uri: `https://generativelanguage.googleapis.com/v1beta/files/${id}`,
+          state,
+        };
+        this.storedFiles.set(file.name, { file, states: next });
+        return { ...file };
+      },
+      get: async (request: any) => {
+        this.log('files.get', request);
+        const stored = this.storedFiles.get(request.name);
+        if (!stored) {
+          throw apiError({ status: 404, message: `File ${request.name} not found` });
+        }
+        // Each lookup moves the file to its next scripted state
+        if (stored.states.length > 0) {
+          stored.file.state = stored.states.shift();
+        }
+        return { ...stored.file };
+      },
+      list: async (request: any) => {
+        this.log('files.list', request);
+        return createPager([...this.storedFiles.values()].map(({ file }) => ({ ...file })));
+      },
+      delete: async (request: any) => {
+        this.log('files.delete', request);
+        if (!this.storedFiles.delete(request.name)) {
+          throw apiError({ status: 404, message: `File ${request.name} not found` });
+        }
+        return {};
+      },
+    };
+
+    this.operations = {
+      getVideosOperation: async (request: any) => {
+        this.log('operations.getVideosOperation', request);
+        const name = request.operation?.name;
+        const operation = this.videoOperations.get(name);
+        if (!operation) {
+          throw apiError({ status: 404, message: `Operation ${name} not found` });
+        }
+        operation.polls++;
+        const { polls = 1, videos = ['https://generativelanguage.googleapis.com/v1beta/files/mock-video:download?alt=media'], error } = operation.script;
+        if (operation.polls < polls) {
+          return { name, done: false };
+        }
+        if (error) {
+          return { name, done: true, error: { message: error } };
+        }
+        return { name, done: true, response: { generatedVideos: videos.map(uri => ({ video: { uri, mimeType: 'video/mp4' } })) } };
+      },
+    };
+  }
+
+  /**
+   * Script a reply
+   *
+   * @param matcher - Requests the reply answers
+   * @param reply - Reply, or a function building it from the request
+   * @param options - `times` limits how many requests the reply answers (default: unlimited)
+   * @returns The backend, for chaining
+   */
+  reply(matcher: MockMatcher, reply: MockReply | ((request: any) => MockReply), options: { times?: number } = {}): this {
+    this.scripts.push({ matcher, reply, remaining: options.times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * Script the states uploaded files go through: the first at upload, the next on each lookup
+   *
+   * @param states - File states (e.g. 'PROCESSING', 'ACTIVE', 'FAILED'); default: ['ACTIVE']
+   * @returns The backend, for chaining
+   */
+  fileStates(...states: string[]): this {
+    this.uploadStates = states.length > 0 ? states : ['ACTIVE'];
+    return this;
+  }
+
+  /**
+   * Script the next long-running video operation
+   *
+   * @param operation - Polls before completion, generated video URIs or an error
+   * @returns The backend, for chaining
+   */
+  videoOperation(operation: MockVideoOperation): this {
+    this.videoScripts.push(operation);
+    return this;
+  }
+
+  /**
+   * Get the requests received for an operation
+   *
+   * @param operation - Transport operation (e.g. 'models.generateContent'); all requests when omitted
+   */
+  requestsFor(operation?: string): any[] {
+    return this.requests.filter(entry => !operation || entry.operation === operation).map(entry => entry.request);
+  }
+
+  /**
+   * Forget the scripts, files, operations and recorded requests
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.scripts = [];
+    this.uploadStates = ['ACTIVE'];
+    this.storedFiles.clear();
+    this.videoScripts = [];
+    this.videoOperations.clear();
+  }
+
+  private log(operation: string, request: any): void {
+    this.requests.push({ operation, request });
+  }
+
+  private answer(operation: MockOperation, request: any): MockReply {
+    const prompt = getPromptText(request?.contents);
+    const model = String(request?.model ?? '').replace(/^models\//, '');
+    const script = this.scripts.find(candidate => candidate.remaining > 0 && matches(candidate.matcher, operation, model, prompt, request));
+    if (!script) {
+      throw apiError({ status: 400, message: `No mock reply for ${operation} on ${model || 'any model'} with prompt "${prompt}"` });
+    }
+    script.remaining--;
+    const reply = typeof script.reply === 'function' ? script.reply(request) : script.reply;
+    if (reply.error) {
+      throw apiError(reply.error);
+    }
+    return reply;
+  }
+}
+
+/**
+ * GeminiClient wired to a `FakeGeminiBackend`, for tests of code that uses the client
+ *
+ * Every client feature (interceptors, middleware, retries, routing) runs as usual;
+ * only the network is replaced. Retries are disabled unless configured.
+ *
+ * @example
+ * ```typescript
+ * const gemini = new MockGeminiClient();
+ * gemini.backend.reply({ prompt: 'Hello' }, { text: 'Hi there!' });
+ *
+ * const response = await gemini.textGeneration.generate('Hello');
+ * expect(response.text).toBe('Hi there!');
+ * expect(gemini.backend.requestsFor('models.generateContent')[0].model).toBe('gemini-2.0-flash');
+ * ```
+ */
+export class MockGeminiClient extends GeminiClient {
+  /** Fake backend answering the client's calls */
+  readonly backend: FakeGeminiBackend;
+
+  constructor(options: Omit<ClientOptions, 'transport' | 'cassette'> = {}, backend: FakeGeminiBackend = new FakeGeminiBackend()) {
+    super({ apiKey: 'mock-api-key', retry: false, ...options, transport: backend });
+    this.backend = backend;
+  }
+}
+
+function matches(matcher: MockMatcher, operation: MockOperation, model: string, prompt: string, request: any): boolean {
+  if (matcher.operation) {
+    if (matcher.operation !== operation) {
+      return false;
+    }
+  } else if (operation !== 'generateContent' && operation !== 'generateContentStream') {
+    return false;
+  }
+  if (matcher.model !== undefined && !(typeof matcher.model === 'string' ? matcher.model === model : matcher.model.test(model))) {
+    return false;
+  }
+  const expected = matcher.prompt;
+  if (expected === undefined) {
+    return true;
+  }
+  if (typeof expected === 'string') {
+    return expected === prompt;
+  }
+  return typeof expected === 'function' ? expected(prompt, request) : expected.test(prompt);
+}
+
+/**
+ * Text of the last user turn of a request
+ */
+function getPromptText(contents: any): string {
+  if (contents === undefined || contents === null) {
+    return '';
+  }
+  if (typeof contents === 'string') {
+    return contents;
+  }
+  const items: any[] = Array.isArray(contents) ? contents : [contents];
+  const turns = items.filter(item => typeof item === 'object' && item && 'parts' in item);
+  // A list of parts is a single user turn
+  const parts: any[] = turns.length === 0
+    ? items
+    : ([...turns].reverse().find(turn => (turn.role ?? 'user') === 'user') ?? turns[turns.length - 1]).parts ?? [];
+  return parts.map(part => (typeof part === 'string' ? part : part?.text ?? '')).join('');
+}
+
+function estimateTokens(text: string): number {
+  return Math.max(1, Math.ceil(text.length / 4));
+}
+
+function estimateUsage(request: any, answer: string): UsageMetadata {
+  const promptTokens = estimateTokens(JSON.stringify(request?.contents ?? ''));
+  const responseTokens = estimateTokens(answer);
+  return { promptTokenCount: promptTokens, candidatesTokenCount: responseTokens, totalTokenCount: promptTokens + responseTokens };
+}
+
+function apiError({ status, message }: { status: number; message?: string }): Error {
+  const [statusText, code] = STATUS_CODES[status] ?? ['Error', 'UNKNOWN'];
+  const body = { error: { code: status, message: message ?? statusText, status: code } };
+  // Same message format as `@google/genai` errors
+  return new Error(`got status: ${status} ${statusText}. ${JSON.stringify(body)}`);
+}
+
+/**
+ * Build a generateContent response, with the SDK's getters (`text`, `functionCalls`, ...)
+ */
+function toResponse(reply: MockReply, request: any, final = true): any {
+  const parts: any[] = [];
+  if (reply.thoughts) {
+    parts.push({ text: reply.thoughts, thought: true });
+  }
+  if (reply.text) {
+    parts.push({ text: reply.text });
+  }
+  for (const image of reply.images ?? []) {
+    parts.push({ inlineData: { data: image.data, mimeType: image.mimeType ?? 'image/png' } });
+  }
+  for (const functionCall of reply.functionCalls ?? []) {
+    parts.push({ functionCall });
+  }
+
+  if (reply.promptFeedback?.blockReason) {
+    return reviveResponse('models.generateContent', {
+      promptFeedback: reply.promptFeedback,
+      modelVersion: String(request?.model ?? '').replace(/^models\//, ''),
+    });
+  }
+
+  return reviveResponse('models.generateContent', {
+    candidates: [{
+      content: { role: 'model', parts },
+      index: 0,
+      ...(final && { finishReason: reply.finishReason ?? 'STOP' }),
+      ...(reply.groundingMetadata && { groundingMetadata: reply.groundingMetadata }),
+      ...(reply.safetyRatings && { safetyRatings: reply.safetyRatings }),
+    }, ...(reply.candidates ?? []).map((text, position) => ({
+      content: { role: 'model', parts: [{ text }] },
+      index: position + 1,
+      ...(final && { finishReason: 'STOP' }),
+    }))],
+    ...(reply.promptFeedback && { promptFeedback: reply.promptFeedback }),
+    // Usage arrives with the last chunk of a stream
+    ...(final && { usageMetadata: { ...estimateUsage(request, reply.text ?? ''), ...reply.usage } }),
+    modelVersion: String(request?.model ?? '').replace(/^models\//, ''),
+  });
+}
+
+async function* streamChunks(reply: MockReply, request: any): AsyncGenerator<any> {
+  const chunks: MockReply[] = (reply.chunks ?? [reply]).map(chunk => (typeof chunk === 'string' ? { text: chunk } : chunk));
+  const answer = chunks.map(chunk => chunk.text ?? '').join('');
+  for (let index = 0; index < chunks.length; index++) {
+    const last = index === chunks.length - 1;
+    // Function calls, grounding and usage of the whole reply travel with the last chunk
+    const chunk = last && reply.chunks
+      ? {
+        ...chunks[index],
+        functionCalls: reply.functionCalls,
+        groundingMetadata: reply.groundingMetadata,
+        usage: { ...estimateUsage(request, answer), ...reply.usage },
+        finishReason: reply.finishReason,
+        safetyRatings: reply.safetyRatings,
+      }
+      : chunks[index];
+    yield toResponse(chunk, request, last);
+  }
+}
+
+/**
+ * Single-page pager, shaped like the `@google/genai` Pager
+ */
+function createPager(items: any[]) {
+  return {
+    page: items,
+    hasNextPage: () => false,
+    nextPage: async () => [],
+  };
+}
@@ -0,0 +1,294 @@
+import {
+  ModelCapabilities,
+  ModelModality,
+  ModelRequirements,
+  ModelTask,
+  ModelTool,
+  PricingTier
+} from '../types';
+import { MODEL_CAPABILITIES } from './config';
+import { GeminiInvalidArgumentError, GeminiUnsupportedFeatureError } from './errors';
+import { TransportInterceptor } from './transport';
+
+/**
+ * Requirements of each task, used to select a model
+ */
+const TASK_REQUIREMENTS: Record<ModelTask, ModelRequirements> = {
+  text: {},
+  chat: {},
+  code: { tools: ['codeExecution'] },
+  multimodal: { inputModalities: ['image'] },
+  grounding: { tools: ['googleSearch'] },
+  structured: { tools: ['structuredOutput'] },
+  functionCalling: { tools: ['functionCalling'] },
+  thinking: { thinking: true },
+  image: { outputModalities: ['image'] },
+  video: { method: 'generateVideos', outputModalities: ['video'] },
+  imageUnderstanding: { inputModalities: ['image'] },
+  audioUnderstanding: { inputModalities: ['audio'] },
+  videoUnderstanding: { inputModalities: ['video'] },
+  document: { inputModalities: ['pdf'] },
+};
+
+/**
+ * Every task a model can be selected for
+ */
+export const MODEL_TASKS = Object.keys(TASK_REQUIREMENTS) as ModelTask[];
+
+/**
+ * Preferred pricing tiers for simple and complex prompts
+ */
+const TIER_PREFERENCE: Record<'simple' | 'complex', PricingTier[]> = {
+  simple: ['standard', 'lite', 'premium'],
+  complex: ['premium', 'standard', 'lite'],
+};
+
+/**
+ * Words that mark a prompt as complex enough for a stronger model
+ */
+const COMPLEX_PROMPT_PATTERN =
+  /\b(explain|analy[sz]e|compare|summari[sz]e|step by step|detailed|transcribe|visuali[sz]e|plot|chart|segment|scene)\b/i;
+
+/**
+ * Tool keys of a request's `config.tools` entries
+ */
+const REQUEST_TOOLS: Record<string, ModelTool> = {
+  functionDeclarations: 'functionCalling',
+  codeExecution: 'codeExecution',
+  googleSearch: 'googleSearch',
+  googleSearchRetrieval: 'googleSearchRetrieval',
+};
+
+/**
+ * Decide whether a prompt needs a stronger model
+ *
+ * @param prompt - Prompt text
+ * @returns True for long prompts or prompts asking for analysis, comparison, detail, etc.
+ */
+export function isComplexPrompt(prompt: string): boolean {
+  return prompt.length > 300 || COMPLEX_PROMPT_PATTERN.test(prompt);
+}
+
+/**
+ * Registry of model capabilities: context window, modalities, thinking budget range,
+ * tool support and pricing tier
+ *
+ * Services consult it to pick a model in their `*Auto` methods, and every request is
+ * validated against it before it is sent. Models missing from the registry are not
+ * validated.
+ *
+ * @example
+ * ```typescript
+ * gemini.models.get('gemini-2.0-flash')?.contextWindow; // 1048576
+ * gemini.models.select('code', { complex: true });       // 'gemini-2.5-pro-preview-05-06'
+ * gemini.models.register({ name: 'gemini-2.5-flash-lite', ... });
+ * ```
+ */
+export class ModelRegistry {
+  private models = new Map<string, ModelCapabilities>();
+
+  constructor(models: ModelCapabilities[] = MODEL_CAPABILITIES) {
+    models.forEach(model => this.register(model));
+  }
+
+  /**
+   * Add a model, or replace the entry with the same name
+   *
+   * @param model - Model capabilities
+   * @returns The registry, for chaining
+   */
+  register(model: ModelCapabilities): this {
+    this.models.set(model.name, model);
+    return this;
+  }
+
+  /**
+   * Get the capabilities of a model
+   *
+   * @param model - Model name, with or without the 'models/' prefix; versioned names
+   *   (e.g. 'gemini-2.0-flash-001') resolve to their base model
+   * @returns The model's capabilities, or undefined for unknown models
+   */
+  get(model: string): ModelCapabilities | undefined {
+    const name = model.replace(/^models\//, '');
+    return this.models.get(name) ?? this.models.get(name.replace(/-(\d{3}|latest)$/, ''));
+  }
+
+  /**
+   * List every registered model
+   */
+  list(): ModelCapabilities[] {
+    return [...this.models.values()];
+  }
+
+  /**
+   * Select a model for a task
+   *
+   * @param task - Task, or explicit requirements
+   * @param options - `complex` prefers premium models, otherwise standard ones
+   * @returns Name of the first suitable model in the preferred pricing tier
+   */
+  select(task: ModelTask | ModelRequirements, options: { complex?: boolean } = {}): string {
+    const [model] = this.rank(task, TIER_PREFERENCE[options.complex ? 'complex' : 'simple']);
+    if (!model) {
+      throw new GeminiInvalidArgumentError(
+        `No registered model supports ${typeof task === 'string' ? `the '${task}' task` : 'these requirements'}`
+      );
+    }
+    return model.name;
+  }
+
+  /**
+   * List the current models suitable for a task, ordered by pricing tier
+   *
+   * @param task - Task, or explicit requirements
+   * @param tiers - Pricing tiers, most preferred first; models keep registration order within a tier
+   * @returns Suitable models, excluding legacy ones
+   */
+  rank(task: ModelTask | ModelRequirements, tiers: PricingTier[]): ModelCapabilities[] {
+    const requirements = typeof task === 'string' ? TASK_REQUIREMENTS[task] : task;
+    const candidates = this.list().filter(model => !model.legacy && this.check(model, requirements).length === 0);
+    return tiers.flatMap(tier => candidates.filter(model => model.tier === tier));
+  }
+
+  /**
+   * Check that a model can serve a request
+   *
+   * @param model - Model name
+   * @param requirements - What the request needs
+   * @throws GeminiUnsupportedFeatureError naming every unsupported feature and a suitable model
+   */
+  validate(model: string, requirements: ModelRequirements): void {
+    const capabilities = this.get(model);
+    if (!capabilities) {
+      return;
+    }
+    const problems = this.check(capabilities, requirements);
+    if (problems.length === 0) {
+      return;
+    }
+
+    let suggestion = '';
+    try {
+      suggestion = `; use a model such as ${this.select(requirements, { complex: capabilities.tier === 'premium' })}`;
+    } catch {
+      // No registered model fits either
+    }
+    throw new GeminiUnsupportedFeatureError(`Model ${model} ${problems.join(', ')}${suggestion}`, { model });
+  }
+
+  /**
+   * List the requirements a model does not meet
+   */
+  private check(model: ModelCapabilities, requirements: ModelRequirements): string[] {
+    const problems: string[] = [];
+    const method = requirements.method ?? 'generateContent';
+    if (!model.methods.includes(method)) {
+      problems.push(`does not support ${method}`);
+    }
+
+    const missingInput = (requirements.inputModalities ?? []).filter(modality => !model.inputModalities.includes(modality));
+    if (missingInput.length > 0) {
+      problems.push(`does not accept ${missingInput.join('/')} input`);
+    }
+    const missingOutput = (requirements.outputModalities ?? []).filter(modality => !model.outputModalities.includes(modality));
+    if (missingOutput.length > 0) {
+      problems.push(`cannot produce ${missingOutput.join('/')} output`);
+    }
+    const missingTools = (requirements.tools ?? []).filter(tool => !model.tools.includes(tool));
+    if (missingTools.length > 0) {
+      problems.push(`does not support ${missingTools.join(', ')}`);
+    }
+
+    const budget = requirements.thinkingBudget;
+    if (!model.thinking) {
+      if (requirements.thinking || (budget !== undefined && budget !== 0)) {
+        problems.push(`does not support thinking${budget !== undefined ? ` (thinkingBudget ${budget})` : ''}`);
+      }
+    } else if (budget !== undefined && budget !== -1) {
+      const { minBudget, maxBudget, canDisable } = model.thinking;
+      if (budget === 0 && !canDisable) {
+        problems.push('cannot turn thinking off (thinkingBudget 0)');
+      } else if (budget !== 0 && (budget < minBudget || budget > maxBudget)) {
+        problems.push(`accepts a thinkingBudget between ${minBudget} and ${maxBudget}, got ${budget}`);
+      }
+    }
+
+    return problems;
+  }
+}
+
+/**
+ * Work out what a transport request needs from its model
+ *
+ * @param operation - Transport operation (e.g. 'models.generateContent')
+ * @param request - Request parameters
+ * @returns Requirements to validate the request's model against
+ */
+export function getRequestRequirements(operation: string, request: any): ModelRequirements {
+  const method = operation.replace(/^models\./, '').replace(/Stream$/, '');
+  const config = request?.config ?? {};
+
+  const tools = new Set<ModelTool>();
+  for (const tool of config.tools ?? []) {
+    for (const key of Object.keys(tool ?? {})) {
+      if (REQUEST_TOOLS[key]) {
+        tools.add(REQUEST_TOOLS[key]);
+      }
+    }
+  }
+  if (config.responseSchema || config.responseMimeType === 'application/json') {
+    tools.add('structuredOutput');
+  }
+
+  const inputModalities = new Set<ModelModality>();
+  const visit = (value: any) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      const mimeType: string | undefined = value.inlineData?.mimeType ?? value.fileData?.mimeType;
+      const modality = mimeType && toModality(mimeType);
+      if (modality) {
+        inputModalities.add(modality);
+      }
+      visit(value.parts);
+    }
+  };
+  visit(request?.contents);
+
+  const outputModalities = (config.responseModalities ?? [])
+    .map((modality: string) => modality.toLowerCase())
+    .filter((modality: string): modality is ModelModality => ['text', 'image', 'audio', 'video'].includes(modality));
+
+  return {
+    method,
+    ...(inputModalities.size > 0 && { inputModalities: [...inputModalities] }),
+    ...(outputModalities.length > 0 && { outputModalities }),
+    ...(tools.size > 0 && { tools: [...tools] }),
+    ...(typeof config.thinkingConfig?.thinkingBudget === 'number' && { thinkingBudget: config.thinkingConfig.thinkingBudget }),
+  };
+}
+
+function toModality(mimeType: string): ModelModality | undefined {
+  if (mimeType === 'application/pdf') {
+    return 'pdf';
+  }
+  const type = mimeType.split('/')[0];
+  return type === 'image' || type === 'audio' || type === 'video' ? type : undefined;
+}
+
+/**
+ * Create a transport interceptor that rejects requests the target model cannot serve
+ *
+ * @param registry - Client model registry
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function modelValidationInterceptor(registry: ModelRegistry): TransportInterceptor {
+  return async (call, next) => {
+    const request = call.args[0];
+    if (call.operation.startsWith('models.') && call.operation !== 'models.countTokens' && typeof request?.model === 'string') {
+      registry.validate(request.model, getRequestRequirements(call.operation, request));
+    }
+    return next(call.args);
+  };
+}
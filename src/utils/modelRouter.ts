@@ -0,0 +1,136 @@
+import { ModelRequirements, ModelTask, PricingTier, RouterOptions, RoutingPolicy } from '../types';
+import { GeminiUnsupportedFeatureError, toGeminiError } from './errors';
+import { ModelRegistry } from './modelRegistry';
+import { getErrorStatus } from './retry';
+
+/**
+ * Pricing tiers tried first to last under each policy
+ */
+const POLICY_TIERS: Record<Exclude<RoutingPolicy, 'balanced'>, PricingTier[]> = {
+  cost: ['lite', 'standard', 'premium'],
+  latency: ['lite', 'standard', 'premium'],
+  quality: ['premium', 'standard', 'lite'],
+};
+
+const BALANCED_TIERS: Record<'simple' | 'complex', PricingTier[]> = {
+  simple: ['standard', 'lite', 'premium'],
+  complex: ['premium', 'standard', 'lite'],
+};
+
+/**
+ * Options for one routed call
+ */
+export interface RouteOptions {
+  /** Whether the prompt needs a stronger model (used by the 'balanced' policy) */
+  complex?: boolean;
+  /** Model chosen by the caller; pins the call to it, without fallback */
+  model?: string;
+}
+
+/**
+ * Decide whether a failed call should be retried on the next model of a chain
+ *
+ * @param error - Error raised by the call
+ * @returns True for quota (429) and server (5xx) errors, and for features the model does not support
+ */
+export function isFallbackError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === 429 || (status !== undefined && status >= 500)) {
+    return true;
+  }
+  return toGeminiError(error) instanceof GeminiUnsupportedFeatureError;
+}
+
+/**
+ * Picks models for the `*Auto` methods and falls back along a chain when a model fails
+ *
+ * Each task has an ordered chain of models: the one configured in `fallbacks`, or
+ * the registry's suitable models ordered by the policy. A call is tried on each model
+ * in turn until one succeeds; quota (429), server (5xx) and unsupported-feature
+ * errors move on to the next model, any other error is thrown straight away.
+ *
+ * @example
+ * ```typescript
+ * const gemini = new GeminiClient({
+ *   apiKey: 'YOUR_API_KEY',
+ *   router: {
+ *     policy: 'quality',
+ *     fallbacks: { code: ['gemini-2.5-pro-preview-05-06', 'gemini-2.5-flash', 'gemini-2.0-flash'] }
+ *   }
+ * });
+ * const response = await gemini.codeExecution.executeAuto('Plot y = x^2');
+ * console.log(response.model); // Model that served the response
+ * ```
+ */
+export class ModelRouter {
+  /** Registry the chains are built from */
+  readonly models: ModelRegistry;
+  private options: RouterOptions;
+
+  constructor(models: ModelRegistry = new ModelRegistry(), options: RouterOptions = {}) {
+    this.models = models;
+    this.options = options;
+  }
+
+  /**
+   * List the models tried for a task, first to last
+   *
+   * @param task - Task, or explicit requirements
+   * @param options - `complex` prefers premium models under the 'balanced' policy
+   * @returns Configured fallback chain for the task, or suitable models ordered by the policy
+   */
+  chain(task: ModelTask | ModelRequirements, options: { complex?: boolean } = {}): string[] {
+    const configured = typeof task === 'string' ? this.options.fallbacks?.[task] : undefined;
+    if (configured && configured.length > 0) {
+      return [...configured];
+    }
+
+    const policy = this.options.policy ?? 'balanced';
+    const tiers = policy === 'balanced' ? BALANCED_TIERS[options.complex ? 'complex' : 'simple'] : POLICY_TIERS[policy];
+    let models = this.models.rank(task, tiers);
+    if (policy === 'latency') {
+      // Thinking adds latency, so models that can skip it come first
+      models = [...models.filter(model => !model.thinking), ...models.filter(model => model.thinking)];
+    }
+    return models.map(model => model.name);
+  }
+
+  /**
+   * Run a call on the first model of the task's chain that succeeds
+   *
+   * @param task - Task, or explicit requirements
+   * @param options - Prompt complexity, and the caller's model if any
+   * @param call - Makes the request with the given model
+   * @returns The call's result and the model that produced it
+   * @throws The last model's error, or the first error that does not warrant a fallback
+   */
+  async route<T>(
+    task: ModelTask | ModelRequirements,
+    options: RouteOptions,
+    call: (model: string) => Promise<T>
+  ): Promise<{ response: T; model: string }> {
+    const chain = options.model ? [options.model] : this.chain(task, options);
+    if (chain.length === 0) {
+      // Let the registry explain why nothing fits
+      chain.push(this.models.select(task, options));
+    }
+
+    for (let index = 0; ; index++) {
+      const model = chain[index];
+      try {
+        return { response: await call(model), model };
+      } catch (error) {
+        const nextModel = chain[index + 1];
+        if (nextModel === undefined || !isFallbackError(error)) {
+          throw error;
+        }
+        this.options.onFallback?.({
+          ...(typeof task === 'string' && { task }),
+          model,
+          nextModel,
+          error,
+        });
+      }
+    }
+  }
+}
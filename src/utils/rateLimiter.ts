@@ -0,0 +1,258 @@
+import { RateLimit, RateLimitEvent } from '../types';
+import { GeminiAbortError } from './errors';
+import { throwIfAborted } from './abort';
+import { estimateCallTokens, TransportInterceptor } from './transport';
+import { isResponseStream, observeStream } from './stream';
+
+/**
+ * Length of the rolling window used for per-minute limits
+ */
+const WINDOW_MS = 60000;
+
+/**
+ * Operations that count against a model's limits (token counting and file calls do not)
+ */
+const LIMITED_OPERATIONS = [
+  'models.generateContent',
+  'models.generateContentStream',
+  'models.embedContent',
+  'models.generateImages',
+  'models.generateVideos',
+];
+
+/**
+ * Releases a slot acquired from the limiter; pass the actual token count once known
+ */
+export type RateLimitRelease = (actualTokens?: number) => void;
+
+interface Waiter {
+  tokens: number;
+  resolve: (release: RateLimitRelease) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface ModelState {
+  limit: RateLimit;
+  active: number;
+  requests: number[];
+  tokens: Array<{ time: number; tokens: number }>;
+  queue: Waiter[];
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Client-side limiter enforcing requests per minute, tokens per minute and
+ * concurrency for each model
+ *
+ * Calls that would exceed a limit wait in a first-in, first-out queue per model
+ * instead of failing.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({
+ *   'gemini-2.0-flash': { requestsPerMinute: 15, tokensPerMinute: 1000000 },
+ *   'gemini-2.5-pro-preview-05-06': { requestsPerMinute: 5, maxConcurrency: 2 }
+ * });
+ *
+ * const release = await limiter.acquire('gemini-2.0-flash', 1200);
+ * try {
+ *   // ... make the call
+ * } finally {
+ *   release();
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private limits: Record<string, RateLimit>;
+  private onQueued?: (event: RateLimitEvent) => void;
+  private states = new Map<string, ModelState>();
+
+  constructor(limits: Record<string, RateLimit>, options: { onQueued?: (event: RateLimitEvent) => void } = {}) {
+    this.limits = limits;
+    this.onQueued = options.onQueued;
+  }
+
+  /**
+   * Get the limits that apply to a model
+   *
+   * @param model - Model name (with or without the 'models/' prefix)
+   * @returns The model's limits, the '*' limits, or undefined if the model is unlimited
+   */
+  getLimit(model: string): RateLimit | undefined {
+    const name = model.replace(/^models\//, '');
+    return this.limits[name] ?? this.limits['*'];
+  }
+
+  /**
+   * Wait for a slot for one call
+   *
+   * @param model - Model the call targets
+   * @param tokens - Estimated tokens of the call
+   * @param signal - Optional abort signal; aborting removes the call from the queue
+   * @returns Promise with a function that must be called once the call completes
+   */
+  acquire(model: string, tokens: number = 0, signal?: AbortSignal): Promise<RateLimitRelease> {
+    throwIfAborted(signal);
+    const limit = this.getLimit(model);
+    if (!limit) {
+      return Promise.resolve(() => undefined);
+    }
+
+    const state = this.getState(model.replace(/^models\//, ''), limit);
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          state.queue = state.queue.filter(queued => queued !== waiter);
+          reject(new GeminiAbortError(undefined, { model, reason: signal.reason }));
+          this.drain(state);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      state.queue.push(waiter);
+      this.drain(state);
+      if (state.queue.includes(waiter)) {
+        this.onQueued?.({ model, tokens, queueLength: state.queue.length });
+      }
+    });
+  }
+
+  private getState(model: string, limit: RateLimit): ModelState {
+    let state = this.states.get(model);
+    if (!state) {
+      state = { limit, active: 0, requests: [], tokens: [], queue: [] };
+      this.states.set(model, state);
+    }
+    return state;
+  }
+
+  /**
+   * Start queued calls in order until the head of the queue has to wait
+   */
+  private drain(state: ModelState): void {
+    if (state.timer) {
+      clearTimeout(state.timer);
+      state.timer = undefined;
+    }
+
+    while (state.queue.length > 0) {
+      const now = Date.now();
+      state.requests = state.requests.filter(time => time > now - WINDOW_MS);
+      state.tokens = state.tokens.filter(entry => entry.time > now - WINDOW_MS);
+
+      const head = state.queue[0];
+      const wait = this.getWaitMs(state, head.tokens, now);
+      if (wait === undefined) {
+        // Blocked on concurrency: the next release drains the queue
+        return;
+      }
+      if (wait > 0) {
+        state.timer = setTimeout(() => this.drain(state), wait);
+        return;
+      }
+
+      state.queue.shift();
+      if (head.onAbort) {
+        head.signal?.removeEventListener('abort', head.onAbort);
+      }
+      head.resolve(this.grant(state, head.tokens, now));
+    }
+  }
+
+  /**
+   * Milliseconds until a call with the given tokens may start, or undefined when
+   * it is waiting for an in-flight call to finish
+   */
+  private getWaitMs(state: ModelState, tokens: number, now: number): number | undefined {
+    const { requestsPerMinute, tokensPerMinute, maxConcurrency } = state.limit;
+    if (maxConcurrency !== undefined && state.active >= maxConcurrency) {
+      return undefined;
+    }
+
+    let wait = 0;
+    if (requestsPerMinute !== undefined && state.requests.length >= requestsPerMinute) {
+      const expiring = state.requests[state.requests.length - requestsPerMinute];
+      wait = Math.max(wait, expiring + WINDOW_MS - now);
+    }
+
+    if (tokensPerMinute !== undefined) {
+      let used = state.tokens.reduce((sum, entry) => sum + entry.tokens, 0);
+      // A call larger than the whole budget still runs once the window is empty
+      for (const entry of state.tokens) {
+        if (used === 0 || used + tokens <= tokensPerMinute) {
+          break;
+        }
+        used -= entry.tokens;
+        wait = Math.max(wait, entry.time + WINDOW_MS - now);
+      }
+    }
+
+    return wait;
+  }
+
+  private grant(state: ModelState, tokens: number, now: number): RateLimitRelease {
+    const entry = { time: now, tokens };
+    state.active++;
+    state.requests.push(now);
+    state.tokens.push(entry);
+
+    let released = false;
+    return (actualTokens?: number) => {
+      if (released) {
+        return;
+      }
+      released = true;
+      state.active--;
+      if (actualTokens !== undefined) {
+        entry.tokens = actualTokens;
+      }
+      this.drain(state);
+    };
+  }
+}
+
+/**
+ * Create a transport interceptor that holds model calls until the limiter grants a slot
+ *
+ * A stream keeps its slot until it is read to the end, fails or is closed; its
+ * tokens are corrected from the usage of its last chunk.
+ *
+ * @param limiter - Rate limiter shared by every service of a client
+ * @param estimateTokens - Estimates the prompt tokens of a request; only called for models with a token limit,
+ * once per call however often it is retried
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function rateLimitInterceptor(
+  limiter: RateLimiter,
+  estimateTokens: (model: string, request: any) => Promise<number>
+): TransportInterceptor {
+  return async (call, next) => {
+    const request = call.args[0] ?? {};
+    const model: string | undefined = request.model;
+    const limit = model && LIMITED_OPERATIONS.includes(call.operation) ? limiter.getLimit(model) : undefined;
+    if (!model || !limit) {
+      return next(call.args);
+    }
+
+    const signal: AbortSignal | undefined = request.config?.abortSignal;
+    const tokens = limit.tokensPerMinute !== undefined ? await estimateCallTokens(call, () => estimateTokens(model, request)) : 0;
+    const release = await limiter.acquire(model, tokens, signal);
+    let response: any;
+    try {
+      response = await next(call.args);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    if (isResponseStream(call.operation, response)) {
+      return observeStream(response, {
+        complete: lastUsageChunk => release(lastUsageChunk?.usageMetadata?.promptTokenCount),
+        fail: () => release(),
+      });
+    }
+    release(response?.usageMetadata?.promptTokenCount);
+    return response;
+  };
+}
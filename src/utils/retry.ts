@@ -0,0 +1,180 @@
+import { RetryPolicy, RetryEvent } from '../types';
+import { TransportInterceptor } from './transport';
+import { sleep, throwIfAborted } from './abort';
+
+/**
+ * Default retry policy for transient API failures
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  retryNonIdempotent: false
+};
+
+/**
+ * Operations that may take effect twice when repeated after a failure the server had already acted on
+ */
+const NON_IDEMPOTENT_OPERATIONS = ['files.upload', 'models.generateVideos'];
+
+/**
+ * Network error codes worth retrying
+ */
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+/**
+ * Extract the HTTP status code from an API error
+ *
+ * @param error - Error thrown by the transport
+ * @returns Status code, or undefined if none can be determined
+ */
+export function getErrorStatus(error: any): number | undefined {
+  if (!error) {
+    return undefined;
+  }
+  for (const key of ['status', 'statusCode', 'code']) {
+    const value = error[key];
+    if (typeof value === 'number' && value >= 100 && value < 600) {
+      return value;
+    }
+  }
+  // @google/genai errors carry the status in the message: "got status: 429 Too Many Requests. {...}"
+  const match = /got status: (\d{3})/.exec(String(error.message ?? ''));
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Extract the server's retry hint (Retry-After header or RetryInfo detail) from an API error
+ *
+ * @param error - Error thrown by the transport
+ * @returns Delay in milliseconds, or undefined if the server gave no hint
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  if (typeof error?.retryAfterMs === 'number') {
+    return error.retryAfterMs;
+  }
+  const headers = error?.headers ?? error?.response?.headers;
+  const header = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (header !== undefined && header !== null) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(String(header));
+    if (!isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  // google.rpc.RetryInfo, e.g. "retryDelay": "30s"
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(String(error?.message ?? ''));
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * Determine whether an error is transient under the given policy
+ *
+ * @param error - Error thrown by the transport
+ * @param policy - Retry policy
+ * @returns True if the call should be retried
+ */
+export function isRetryableError(error: any, policy: RetryPolicy = DEFAULT_RETRY_POLICY): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return (policy.retryableStatusCodes ?? DEFAULT_RETRY_POLICY.retryableStatusCodes).includes(status);
+  }
+  const code = error?.code ?? error?.cause?.code;
+  if (typeof code === 'string' && RETRYABLE_NETWORK_CODES.includes(code)) {
+    return true;
+  }
+  return error instanceof TypeError && /fetch failed/i.test(error.message);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param policy - Retry policy
+ * @param error - Error raised by the failed attempt (used for Retry-After hints)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, error?: unknown): number {
+  const { initialDelayMs, maxDelayMs, backoffMultiplier, jitter, respectRetryAfter } = { ...DEFAULT_RETRY_POLICY, ...policy };
+  let delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(backoffMultiplier, attempt - 1));
+  if (jitter) {
+    // "Equal jitter": keep half of the delay, randomize the other half
+    delay = delay / 2 + Math.random() * (delay / 2);
+  }
+  if (respectRetryAfter) {
+    const hint = getRetryAfterMs(error);
+    if (hint !== undefined) {
+      delay = Math.max(delay, hint);
+    }
+  }
+  return Math.round(delay);
+}
+
+/**
+ * Run an async operation, retrying transient failures with exponential backoff
+ *
+ * @param operation - Operation to run; receives the attempt number (1-based)
+ * @param policy - Retry policy (merged over DEFAULT_RETRY_POLICY)
+ * @param context - Service and operation names reported to `onRetry`, and an optional abort signal
+ * @returns Promise with the operation's result
+ *
+ * @example
+ * ```typescript
+ * const response = await withRetry(
+ *   () => transport.models.generateContent({ model: 'gemini-2.0-flash', contents: 'Hi' }),
+ *   { maxAttempts: 5 }
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  context: Pick<RetryEvent, 'service' | 'operation'> & { signal?: AbortSignal } = {}
+): Promise<T> {
+  const { signal, ...event } = context;
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= maxAttempts || !isRetryableError(error, policy)) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(attempt, policy, error);
+      policy.onRetry?.({ ...event, attempt, delayMs, error });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * Create a transport interceptor that retries failed calls
+ *
+ * File uploads and video generation are sent once unless the policy sets `retryNonIdempotent`:
+ * a retry after a failure the server had acted on would upload a second file or start a second video.
+ *
+ * @param policy - Retry policy
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function retryInterceptor(policy: RetryPolicy): TransportInterceptor {
+  return (call, next) => {
+    if (!policy.retryNonIdempotent && NON_IDEMPOTENT_OPERATIONS.includes(call.operation)) {
+      return next(call.args);
+    }
+    return withRetry(
+      () => next(call.args),
+      policy,
+      { service: call.service, operation: call.operation, signal: call.args[0]?.config?.abortSignal }
+    );
+  };
+}
@@ -0,0 +1,154 @@
+import { FinishReason, GenerationResponse, SafetyRating, SafetySetting } from '../types';
+import { GeminiSafetyBlockedError } from './errors';
+import { TransportInterceptor } from './transport';
+import { isResponseStream } from './stream';
+
+/**
+ * Operations whose requests take safety settings and whose responses carry safety feedback
+ */
+const SAFETY_OPERATIONS = ['models.generateContent', 'models.generateContentStream'];
+
+/**
+ * Finish reasons meaning the candidate was blocked rather than completed
+ */
+const BLOCKED_FINISH_REASONS: FinishReason[] = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+/**
+ * Tell whether a finish reason means the candidate was blocked by safety filters
+ *
+ * @param finishReason - Finish reason of a candidate
+ */
+export function isBlockedFinishReason(finishReason: FinishReason | undefined): boolean {
+  return finishReason !== undefined && BLOCKED_FINISH_REASONS.includes(finishReason);
+}
+
+/**
+ * Get the finish reason and safety ratings of the first candidate and the prompt feedback of a response
+ *
+ * Every candidate's own safety status is reported by `getCandidates`.
+ *
+ * @param response - SDK response, or a `GenerationResponse` built from one
+ * @returns Fields to spread into a `GenerationResponse`; absent when the response has none
+ */
+export function getSafetyInfo(response: any): Pick<GenerationResponse, 'finishReason' | 'safetyRatings' | 'promptFeedback'> {
+  const candidate = response?.candidates?.[0];
+  const finishReason = candidate?.finishReason ?? response?.finishReason;
+  const safetyRatings = candidate?.safetyRatings ?? response?.safetyRatings;
+  return {
+    ...(finishReason && { finishReason }),
+    ...(safetyRatings && { safetyRatings }),
+    ...(response?.promptFeedback && { promptFeedback: response.promptFeedback }),
+  };
+}
+
+/**
+ * Create the error for a blocked prompt, or for a response whose candidates are all blocked
+ *
+ * While any candidate is usable the response is returned, its blocked candidates
+ * marked in `candidates`. `blocked` holds the indexes of candidates blocked in
+ * earlier chunks of a stream, which reaches `candidateCount` once all are.
+ */
+function getSafetyBlock(response: any, model?: string, candidateCount = 0, blocked = new Set<number>()): GeminiSafetyBlockedError | undefined {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) {
+    const safetyRatings: SafetyRating[] | undefined = response.promptFeedback.safetyRatings;
+    return new GeminiSafetyBlockedError(`Prompt blocked: ${blockReason}${describeRatings(safetyRatings)}`, {
+      model,
+      blockReason,
+      safetyRatings,
+    });
+  }
+
+  const candidates: any[] = response?.candidates ?? [];
+  const newlyBlocked = candidates.filter(candidate => isBlockedFinishReason(candidate?.finishReason));
+  if (newlyBlocked.length === 0) {
+    return undefined;
+  }
+  candidates.forEach((candidate, position) => {
+    if (isBlockedFinishReason(candidate?.finishReason)) {
+      blocked.add(candidate.index ?? position);
+    }
+  });
+  if (blocked.size < Math.max(candidateCount, candidates.length)) {
+    return undefined;
+  }
+
+  const [candidate] = newlyBlocked;
+  const safetyRatings: SafetyRating[] | undefined = candidate.safetyRatings;
+  const subject = blocked.size > 1 ? `All ${blocked.size} candidates blocked` : 'Response blocked';
+  return new GeminiSafetyBlockedError(`${subject}: ${candidate.finishReason}${describeRatings(safetyRatings)}`, {
+    model,
+    finishReason: candidate.finishReason,
+    safetyRatings,
+  });
+}
+
+/**
+ * Create a transport interceptor that applies the client's default safety settings
+ *
+ * Settings given with a call replace the defaults for the same harm categories;
+ * defaults for other categories still apply.
+ *
+ * @param getSettings - Returns the default safety settings, if any
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function safetySettingsInterceptor(getSettings: () => SafetySetting[] | undefined): TransportInterceptor {
+  return (call, next) => {
+    const defaults = getSettings();
+    if (!defaults?.length || !SAFETY_OPERATIONS.includes(call.operation)) {
+      return next(call.args);
+    }
+    const [request, ...rest] = call.args;
+    const own: SafetySetting[] = request?.config?.safetySettings ?? [];
+    const safetySettings = [
+      ...defaults.filter(setting => !own.some(override => override.category === setting.category)),
+      ...own,
+    ];
+    return next([{ ...request, config: { ...request?.config, safetySettings } }, ...rest]);
+  };
+}
+
+/**
+ * Create a transport interceptor that raises `GeminiSafetyBlockedError` for blocked prompts and responses
+ *
+ * A blocked call would otherwise return an empty text. A response is blocked when
+ * all its candidates are: with `candidateCount`, the usable ones are kept. Streams
+ * fail at the chunk reporting the last block, after the text received before it.
+ *
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function safetyInterceptor(): TransportInterceptor {
+  return async (call, next) => {
+    if (!SAFETY_OPERATIONS.includes(call.operation)) {
+      return next(call.args);
+    }
+    const model = call.args[0]?.model;
+    const candidateCount: number = call.args[0]?.config?.candidateCount ?? 1;
+    const response = await next(call.args);
+    if (isResponseStream(call.operation, response)) {
+      return checkStream(response, model, candidateCount);
+    }
+    const block = getSafetyBlock(response, model, candidateCount);
+    if (block) {
+      throw block;
+    }
+    return response;
+  };
+}
+
+async function* checkStream(stream: AsyncIterable<any>, model: string | undefined, candidateCount: number): AsyncGenerator<any> {
+  // Chunks may carry some candidates only, so blocks add up over the stream
+  const blocked = new Set<number>();
+  for await (const chunk of stream) {
+    const block = getSafetyBlock(chunk, model, candidateCount, blocked);
+    if (block) {
+      throw block;
+    }
+    yield chunk;
+  }
+}
+
+function describeRatings(safetyRatings: SafetyRating[] | undefined): string {
+  const flagged = (safetyRatings ?? []).filter(rating => rating.blocked || rating.probability === 'HIGH' || rating.probability === 'MEDIUM');
+  return flagged.length > 0 ? ` (${flagged.map(rating => `${rating.category}: ${rating.probability}`).join(', ')})` : '';
+}
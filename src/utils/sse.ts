@@ -0,0 +1,148 @@
+import { GenerationResponse } from '../types';
+import { GeminiStream } from './geminiStream';
+
+/**
+ * Options for `toServerSentEvents`
+ */
+export interface ServerSentEventsOptions {
+  /** Signal of the incoming request; the response stops reading the model when the client disconnects */
+  signal?: AbortSignal;
+  /** Milliseconds between keep-alive comments, so proxies do not close idle connections (default: 15000; 0 disables them) */
+  heartbeatInterval?: number;
+  /** Extra response headers */
+  headers?: Record<string, string>;
+  /** Payload of the closing `done` event (default: the final response without `raw`) */
+  done?: (response: GenerationResponse) => unknown;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Format one Server-Sent Event
+ *
+ * @param event - Event name
+ * @param data - Payload, sent as JSON
+ * @returns The event's wire format
+ */
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Encode a model stream as a Server-Sent Events body
+ *
+ * Emits `text-delta`, `thought` and `function-call` events as they arrive, then a
+ * single `usage` event with the final token usage and a closing `done` event. A
+ * failure is sent as an `error` event carrying the error's name, message and status.
+ *
+ * @param stream - Stream returned by a `stream*` service method
+ * @param options - Disconnect signal, heartbeat interval and `done` payload
+ * @returns UTF-8 encoded event stream
+ */
+export function serverSentEventStream(
+  stream: GeminiStream,
+  options: ServerSentEventsOptions = {}
+): ReadableStream<Uint8Array> {
+  const iterator = stream[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  const heartbeatInterval = options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const stop = () => {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+    }
+    if (!closed) {
+      closed = true;
+      void iterator.return?.().catch(() => undefined);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(text));
+        }
+      };
+      const onAbort = () => {
+        stop();
+        controller.close();
+      };
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      if (heartbeatInterval > 0) {
+        heartbeat = setInterval(() => send(': heartbeat\n\n'), heartbeatInterval);
+      }
+
+      void (async () => {
+        try {
+          for (let result = await iterator.next(); !result.done && !closed; result = await iterator.next()) {
+            // Usage is reported once, after the stream ends; `raw` chunks stay on the server
+            if (result.value.type !== 'usage') {
+              send(formatServerSentEvent(result.value.type, { ...result.value, type: undefined, raw: undefined }));
+            }
+          }
+          const response = await stream.finalResponse();
+          if (response.usageMetadata) {
+            send(formatServerSentEvent('usage', response.usageMetadata));
+          }
+          send(formatServerSentEvent('done', options.done ? options.done(response) : { ...response, raw: undefined }));
+        } catch (error: any) {
+          send(formatServerSentEvent('error', {
+            name: error?.name ?? 'Error',
+            message: error?.message ?? String(error),
+            ...(error?.status !== undefined && { status: error.status }),
+          }));
+        } finally {
+          options.signal?.removeEventListener('abort', onAbort);
+          if (!closed) {
+            stop();
+            controller.close();
+          }
+        }
+      })();
+    },
+    cancel() {
+      stop();
+    },
+  });
+}
+
+/**
+ * Turn a model stream into a Server-Sent Events `Response`
+ *
+ * Suitable as the return value of Next.js route handlers and other fetch-based
+ * servers. Pass the request's signal both to the streaming call and here, so a
+ * client disconnect cancels the model request.
+ *
+ * @param stream - Stream returned by a `stream*` service method
+ * @param options - Disconnect signal, heartbeat interval, headers and `done` payload
+ * @returns `text/event-stream` response
+ *
+ * @example
+ * ```typescript
+ * export async function POST(req: Request) {
+ *   const { prompt } = await req.json();
+ *   const stream = await gemini.textGeneration.streamGenerate(prompt, { signal: req.signal });
+ *   return toServerSentEvents(stream, { signal: req.signal });
+ * }
+ * ```
+ */
+export function toServerSentEvents(stream: GeminiStream, options: ServerSentEventsOptions = {}): Response {
+  return new Response(serverSentEventStream(stream, options), {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop nginx from buffering the events
+      'X-Accel-Buffering': 'no',
+      ...options.headers,
+    },
+  });
+}
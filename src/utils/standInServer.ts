@@ -0,0 +1,354 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { FakeGeminiBackend, MockOperation, MockReply, MockVideoOperation } from './mockGemini';
+import { getErrorStatus } from './retry';
+
+/**
+ * Scripted reply in a fixture file
+ */
+export interface StandInReplyFixture {
+  /** Operation answered (default: generateContent and streamGenerateContent) */
+  operation?: MockOperation;
+  /** Model name, without the 'models/' prefix */
+  model?: string;
+  /** Exact text of the last user turn */
+  prompt?: string;
+  /** Regular expression (source) the last user turn must match */
+  promptPattern?: string;
+  /** Number of requests the reply answers (default: unlimited) */
+  times?: number;
+  reply: MockReply;
+}
+
+/**
+ * Scripted responses of a stand-in server, as JSON
+ *
+ * @example
+ * ```json
+ * {
+ *   "replies": [
+ *     { "promptPattern": "weather", "reply": { "functionCalls": [{ "name": "get_weather", "args": { "city": "Paris" } }] } },
+ *     { "reply": { "text": "Hello from the stand-in", "chunks": ["Hello ", "from the stand-in"] } }
+ *   ],
+ *   "fileStates": ["PROCESSING", "ACTIVE"],
+ *   "videoOperations": [{ "polls": 2 }]
+ * }
+ * ```
+ */
+export interface StandInFixtures {
+  replies?: StandInReplyFixture[];
+  /** States uploaded files go through, see `FakeGeminiBackend.fileStates` */
+  fileStates?: string[];
+  /** Outcomes of the next video generations, in order */
+  videoOperations?: MockVideoOperation[];
+}
+
+/**
+ * Options of a stand-in server
+ */
+export interface StandInServerOptions {
+  /** Port to listen on (default: 0, any free port) */
+  port?: number;
+  /** Interface to listen on (default: '127.0.0.1') */
+  host?: string;
+  /** Backend answering the requests (default: a new `FakeGeminiBackend`) */
+  backend?: FakeGeminiBackend;
+  /** Responses loaded before the server starts */
+  fixtures?: StandInFixtures;
+}
+
+/**
+ * Upload started with the resumable protocol, waiting for its bytes
+ */
+interface PendingUpload {
+  file: { mimeType?: string; displayName?: string };
+  chunks: Buffer[];
+}
+
+/**
+ * Local HTTP server speaking the Gemini REST API, for integration tests
+ *
+ * Serves `generateContent`, `streamGenerateContent` (server-sent events),
+ * `countTokens`, model listing, the files upload (resumable protocol),
+ * get, list and delete endpoints, and long-running video operations. Requests
+ * are answered by a `FakeGeminiBackend`, scripted from code through `backend`,
+ * from fixtures, or over HTTP by another process:
+ *
+ * - `POST /_stand-in/fixtures` loads fixtures (a `StandInFixtures` body)
+ * - `POST /_stand-in/reset` forgets scripts, files and recorded requests
+ * - `GET /_stand-in/requests` lists the requests received
+ *
+ * Any API key is accepted. The same server can be started from the command line
+ * with `npx gemini-nexus-stand-in --port 8080 --fixtures fixtures.json`.
+ *
+ * @example
+ * ```typescript
+ * const server = new GeminiStandInServer();
+ * server.backend.reply({ prompt: 'Hello' }, { text: 'Hi there!' });
+ * await server.start();
+ *
+ * const gemini = new GeminiClient({ apiKey: 'stand-in', apiEndpoint: server.url });
+ * const response = await gemini.textGeneration.generate('Hello');
+ *
+ * await server.close();
+ * ```
+ */
+export class GeminiStandInServer {
+  /** Backend answering the requests */
+  readonly backend: FakeGeminiBackend;
+  private options: StandInServerOptions;
+  private server?: http.Server;
+  private uploads = new Map<string, PendingUpload>();
+  private uploadCounter = 0;
+
+  constructor(options: StandInServerOptions = {}) {
+    this.options = options;
+    this.backend = options.backend ?? new FakeGeminiBackend();
+    if (options.fixtures) {
+      this.load(options.fixtures);
+    }
+  }
+
+  /**
+   * Base URL of the running server, for `ClientOptions.apiEndpoint`
+   */
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error('The stand-in server is not running; call start() first');
+    }
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Start listening
+   *
+   * @returns Base URL of the server
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      const server = http.createServer((request, response) => {
+        this.handle(request, response).catch(error => sendError(response, error));
+      });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      this.server = server;
+    }
+    return this.url;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Script the backend from fixtures
+   *
+   * @param fixtures - Replies, file states and video operations
+   * @returns The server, for chaining
+   */
+  load(fixtures: StandInFixtures): this {
+    for (const { reply, times, promptPattern, prompt, ...matcher } of fixtures.replies ?? []) {
+      this.backend.reply(
+        { ...matcher, prompt: promptPattern !== undefined ? new RegExp(promptPattern) : prompt },
+        reply,
+        { times }
+      );
+    }
+    if (fixtures.fileStates) {
+      this.backend.fileStates(...fixtures.fileStates);
+    }
+    for (const operation of fixtures.videoOperations ?? []) {
+      this.backend.videoOperation(operation);
+    }
+    return this;
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://stand-in');
+    // The SDK joins its base URL, API version and path with slashes
+    const path = url.pathname.replace(/\/{2,}/g, '/');
+    const method = request.method ?? 'GET';
+    const body = await readBody(request);
+    const json = () => (body.length > 0 ? JSON.parse(body.toString('utf8')) : {});
+    let match: RegExpExecArray | null;
+
+    if ((match = /^\/_stand-in\/(fixtures|reset|requests)$/.exec(path))) {
+      if (match[1] === 'fixtures' && method === 'POST') {
+        this.load(json());
+        return sendJson(response, {});
+      }
+      if (match[1] === 'reset' && method === 'POST') {
+        this.backend.reset();
+        return sendJson(response, {});
+      }
+      if (match[1] === 'requests' && method === 'GET') {
+        return sendJson(response, { requests: this.backend.requests });
+      }
+    }
+
+    if (/^\/upload\/[^/]+\/files$/.test(path) && method === 'POST') {
+      return this.upload(request, response, url, body);
+    }
+
+    if ((match = /^\/[^/]+\/models\/([^/:]+):(\w+)$/.exec(path)) && method === 'POST') {
+      const [, model, action] = match;
+      const payload = json();
+      switch (action) {
+        case 'generateContent':
+          return sendJson(response, await this.backend.models.generateContent(toContentRequest(model, payload)));
+        case 'streamGenerateContent':
+          return sendStream(response, await this.backend.models.generateContentStream(toContentRequest(model, payload)));
+        case 'countTokens':
+          return sendJson(response, await this.backend.models.countTokens({ model, contents: payload.contents }));
+        case 'predictLongRunning': {
+          const { prompt, image } = payload.instances?.[0] ?? {};
+          return sendJson(response, await this.backend.models.generateVideos({ model, prompt, image, config: payload.parameters }));
+        }
+      }
+    }
+
+    if (/^\/[^/]+\/models$/.test(path) && method === 'GET') {
+      const pager = await this.backend.models.list({ config: {} });
+      return sendJson(response, { models: pager.page.map(toRestModel) });
+    }
+
+    if (/^\/[^/]+\/files$/.test(path) && method === 'GET') {
+      const pager = await this.backend.files.list({ config: {} });
+      return sendJson(response, { files: pager.page });
+    }
+
+    if ((match = /^\/[^/]+\/(files\/[^/]+)$/.exec(path))) {
+      if (method === 'GET') {
+        return sendJson(response, await this.backend.files.get({ name: match[1] }));
+      }
+      if (method === 'DELETE') {
+        return sendJson(response, await this.backend.files.delete({ name: match[1] }));
+      }
+    }
+
+    if ((match = /^\/[^/]+\/((?:[^/]+\/)*operations\/[^/]+)$/.exec(path)) && method === 'GET') {
+      const operation = await this.backend.operations.getVideosOperation({ operation: { name: match[1] } });
+      return sendJson(response, toRestOperation(operation));
+    }
+
+    sendJson(response, { error: { code: 404, message: `${method} ${path} is not served by the stand-in`, status: 'NOT_FOUND' } }, 404);
+  }
+
+  /**
+   * Resumable upload: a 'start' command returns the upload URL, which then receives the bytes
+   */
+  private async upload(request: http.IncomingMessage, response: http.ServerResponse, url: URL, body: Buffer): Promise<void> {
+    const command = String(request.headers['x-goog-upload-command'] ?? '');
+    if (command === 'start') {
+      const id = String(++this.uploadCounter);
+      const { file = {} } = body.length > 0 ? JSON.parse(body.toString('utf8')) : {};
+      this.uploads.set(id, { file, chunks: [] });
+      response.setHeader('x-goog-upload-url', `http://${request.headers.host}${url.pathname}?upload_id=${id}`);
+      return sendJson(response, {});
+    }
+
+    const id = url.searchParams.get('upload_id') ?? '';
+    const pending = this.uploads.get(id);
+    if (!pending) {
+      return sendJson(response, { error: { code: 404, message: `Upload ${id} not found`, status: 'NOT_FOUND' } }, 404);
+    }
+    pending.chunks.push(body);
+    if (!command.includes('finalize')) {
+      response.setHeader('x-goog-upload-status', 'active');
+      return sendJson(response, {});
+    }
+
+    this.uploads.delete(id);
+    const file = await this.backend.files.upload({
+      file: new Blob(pending.chunks, { type: pending.file.mimeType }),
+      config: { mimeType: pending.file.mimeType, displayName: pending.file.displayName },
+    });
+    response.setHeader('x-goog-upload-status', 'final');
+    sendJson(response, { file });
+  }
+}
+
+/**
+ * Turn a REST generateContent body into the request shape the backend receives from the SDK
+ */
+function toContentRequest(model: string, payload: any): any {
+  const { contents, generationConfig, ...rest } = payload;
+  return { model, contents, config: { ...generationConfig, ...rest } };
+}
+
+/**
+ * Convert a model to the REST shape the SDK parses, which names its actions `supportedGenerationMethods`
+ */
+function toRestModel(model: any): any {
+  const { supportedActions, ...rest } = model;
+  return { ...rest, supportedGenerationMethods: supportedActions ?? [] };
+}
+
+/**
+ * Convert a video operation to the REST shape the SDK parses
+ */
+function toRestOperation(operation: any): any {
+  if (!operation.response) {
+    return operation;
+  }
+  const generatedSamples = (operation.response.generatedVideos ?? []).map((generated: any) => ({
+    video: { uri: generated.video?.uri },
+    encoding: generated.video?.mimeType,
+  }));
+  return { ...operation, response: { generateVideoResponse: { generatedSamples } } };
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: http.ServerResponse, body: any, status = 200): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+async function sendStream(response: http.ServerResponse, chunks: AsyncIterable<any>): Promise<void> {
+  response.writeHead(200, { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache' });
+  for await (const chunk of chunks) {
+    response.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+  }
+  response.end();
+}
+
+/**
+ * Answer with the status and error body of a backend error (500 for anything else)
+ */
+function sendError(response: http.ServerResponse, error: any): void {
+  const status = getErrorStatus(error) ?? 500;
+  // Backend errors carry the API error body after the status: "got status: 404 Not Found. {...}"
+  const match = /^got status: \d{3} [^.]*\. (\{.*\})$/s.exec(String(error?.message ?? ''));
+  const body = match ? JSON.parse(match[1]) : { error: { code: status, message: String(error?.message ?? error), status: 'INTERNAL' } };
+  if (response.headersSent) {
+    response.end();
+    return;
+  }
+  sendJson(response, body, status);
+}
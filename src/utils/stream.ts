@@ -0,0 +1,50 @@
+/**
+ * Callbacks invoked when an observed stream settles
+ */
+export interface StreamObserver<T> {
+  /** Called once the stream ends or the consumer stops reading, with the last chunk carrying usage metadata */
+  complete: (lastUsageChunk: T | undefined) => void;
+  /** Called if the stream fails */
+  fail: (error: unknown) => void;
+}
+
+/**
+ * Pass a response stream through unchanged, reporting when it settles
+ *
+ * Usage metadata arrives with the last chunks of a stream, so interceptors that
+ * report usage wait for the stream to end rather than for the call to return.
+ *
+ * @param stream - Response stream from `models.generateContentStream`
+ * @param observer - Completion and failure callbacks
+ * @returns Stream yielding the same chunks
+ */
+export async function* observeStream<T extends { usageMetadata?: unknown }>(
+  stream: AsyncIterable<T>,
+  observer: StreamObserver<T>
+): AsyncGenerator<T> {
+  let lastUsageChunk: T | undefined;
+  let failed = false;
+  try {
+    for await (const chunk of stream) {
+      if (chunk?.usageMetadata) {
+        lastUsageChunk = chunk;
+      }
+      yield chunk;
+    }
+  } catch (error) {
+    failed = true;
+    observer.fail(error);
+    throw error;
+  } finally {
+    if (!failed) {
+      observer.complete(lastUsageChunk);
+    }
+  }
+}
+
+/**
+ * Whether a transport call returned a response stream
+ */
+export function isResponseStream(operation: string, response: any): response is AsyncIterable<any> {
+  return operation === 'models.generateContentStream' && typeof response?.[Symbol.asyncIterator] === 'function';
+}
@@ -0,0 +1,36 @@
+import { SystemInstructionContent } from '../types';
+import { TransportInterceptor } from './transport';
+
+/**
+ * Operations whose requests accept a system instruction
+ */
+const INSTRUCTED_OPERATIONS = ['models.generateContent', 'models.generateContentStream'];
+
+/**
+ * Create a transport interceptor that applies the client's default system instruction
+ *
+ * generateContent calls and streams (chat turns included) that set no
+ * `systemInstruction` of their own get the default one. Requests for image output
+ * are left alone, since image generation models reject system instructions. The
+ * default is read on every call, so changing it applies to services already created.
+ *
+ * @param getInstruction - Returns the default system instruction, if any
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function systemInstructionInterceptor(
+  getInstruction: () => SystemInstructionContent | undefined
+): TransportInterceptor {
+  return (call, next) => {
+    const instruction = getInstruction();
+    const [request, ...rest] = call.args;
+    if (
+      instruction === undefined
+      || !INSTRUCTED_OPERATIONS.includes(call.operation)
+      || request?.config?.systemInstruction !== undefined
+      || request?.config?.responseModalities?.some((modality: string) => modality.toUpperCase() === 'IMAGE')
+    ) {
+      return next(call.args);
+    }
+    return next([{ ...request, config: { ...request.config, systemInstruction: instruction } }, ...rest]);
+  };
+}
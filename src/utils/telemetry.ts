@@ -0,0 +1,376 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  ServiceName,
+  TelemetryAttributeValue,
+  TelemetryMeter,
+  TelemetryOptions,
+  TelemetrySpan,
+  TelemetryTracer
+} from '../types';
+import { TransportInterceptor } from './transport';
+import { isResponseStream, observeStream } from './stream';
+import { GeminiStream } from './geminiStream';
+import { getErrorStatus } from './retry';
+
+/**
+ * `SpanKind` and `SpanStatusCode` values from `@opentelemetry/api`
+ */
+const SPAN_KIND_INTERNAL = 0;
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Value of `gen_ai.system` for every span and metric
+ */
+const GEN_AI_SYSTEM = 'gemini';
+
+/**
+ * `gen_ai.operation.name` per transport operation; other operations use their own name
+ */
+const OPERATION_NAMES: Record<string, string> = {
+  'models.generateContent': 'generate_content',
+  'models.generateContentStream': 'generate_content',
+  'models.embedContent': 'embeddings',
+  'models.countTokens': 'count_tokens',
+  'models.generateImages': 'generate_images',
+  'models.generateVideos': 'generate_videos',
+};
+
+/**
+ * Request parameters recorded as `gen_ai.request.*` attributes
+ */
+const REQUEST_ATTRIBUTES: Record<string, string> = {
+  temperature: 'gen_ai.request.temperature',
+  topP: 'gen_ai.request.top_p',
+  topK: 'gen_ai.request.top_k',
+  maxOutputTokens: 'gen_ai.request.max_tokens',
+};
+
+/**
+ * Public service methods that only build or read values, without calling the API
+ */
+const UNTRACED_METHODS = [
+  'chat.createChat',
+  'chat.createFunctionCallingChat',
+  'files.createPartFromUri',
+  'files.createPartFromBase64',
+  'files.createUserContent',
+  'imageUnderstanding.normalizedToPixelCoordinates',
+  'searchGrounding.getSearchSuggestionsHTML',
+  'searchGrounding.getWebSearchQueries',
+  'tokenCounter.getUsageFromResponse',
+];
+
+/**
+ * Totals of the API calls made during one service method, reported on its span
+ */
+interface ServiceCallState {
+  /** State of the service method that called this one (e.g. `generateAuto` calling `generate`) */
+  parent?: ServiceCallState;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  finishReasons: Set<string>;
+}
+
+type Counter = ReturnType<TelemetryMeter['createCounter']>;
+type Histogram = ReturnType<TelemetryMeter['createHistogram']>;
+
+/**
+ * OpenTelemetry instrumentation shared by every service of a client
+ *
+ * Creates a span per service method (e.g. `searchGrounding.generate`) and a child
+ * span per API call, including each request of a polling loop. Spans carry the
+ * GenAI semantic-convention attributes, and request, latency and token metrics are
+ * recorded on the meter.
+ */
+export class Telemetry {
+  private tracer?: TelemetryTracer;
+  private requests?: Counter;
+  private tokens?: Counter;
+  private duration?: Histogram;
+  private tokenUsage?: Histogram;
+  private serviceCalls = new AsyncLocalStorage<ServiceCallState>();
+
+  constructor(options: TelemetryOptions) {
+    this.tracer = options.tracer;
+    if (options.meter) {
+      this.requests = options.meter.createCounter('gen_ai.client.requests', {
+        description: 'Number of Gemini API calls',
+        unit: '{request}',
+      });
+      this.tokens = options.meter.createCounter('gen_ai.client.tokens', {
+        description: 'Number of input and output tokens used',
+        unit: '{token}',
+      });
+      this.duration = options.meter.createHistogram('gen_ai.client.operation.duration', {
+        description: 'Duration of Gemini API calls',
+        unit: 's',
+      });
+      this.tokenUsage = options.meter.createHistogram('gen_ai.client.token.usage', {
+        description: 'Number of input and output tokens per call',
+        unit: '{token}',
+      });
+    }
+  }
+
+  /**
+   * Wrap every public API method of a service in a span
+   *
+   * Private helpers (prefixed with `_`) and synchronous utilities are left alone.
+   * A method's span ends when the promise it returns settles, or, when that is
+   * a `GeminiStream`, once the stream has been read or fails.
+   *
+   * @param service - Service instance to patch
+   * @param name - Name of the service on the client
+   */
+  traceServiceCalls(service: any, name: ServiceName): void {
+    const tracer = this.tracer;
+    if (!tracer) {
+      return;
+    }
+    for (const method of Object.getOwnPropertyNames(Object.getPrototypeOf(service))) {
+      const original = service[method];
+      if (method === 'constructor' || method.startsWith('_') || typeof original !== 'function'
+        || UNTRACED_METHODS.includes(`${name}.${method}`)) {
+        continue;
+      }
+      service[method] = (...args: any[]) => tracer.startActiveSpan(
+        `${name}.${method}`,
+        {
+          kind: SPAN_KIND_INTERNAL,
+          attributes: { 'gen_ai.system': GEN_AI_SYSTEM, 'gemini.service': name, 'gemini.method': method },
+        },
+        (span) => {
+          const state: ServiceCallState = {
+            parent: this.serviceCalls.getStore(),
+            inputTokens: 0,
+            outputTokens: 0,
+            finishReasons: new Set(),
+          };
+          const end = (error?: unknown) => {
+            if (error !== undefined) {
+              recordError(span, error);
+            }
+            if (state.model) {
+              span.setAttribute('gen_ai.request.model', state.model);
+            }
+            setUsageAttributes(span, state);
+            span.end();
+            if (state.parent) {
+              addUsage(state.parent, state.model, state.inputTokens, state.outputTokens, state.finishReasons);
+            }
+          };
+          const settle = (result: unknown) => {
+            if (!(result instanceof GeminiStream)) {
+              end();
+              return;
+            }
+            result.settled().then(
+              (response) => {
+                // Chunks are read outside this method, so its API call could not report their usage here
+                if (state.inputTokens === 0 && state.outputTokens === 0) {
+                  const usage = response.usageMetadata;
+                  addUsage(state, undefined, usage?.promptTokenCount ?? 0, usage?.candidatesTokenCount ?? 0, response.finishReason ? [response.finishReason] : []);
+                }
+                end();
+              },
+              (error) => end(error)
+            );
+          };
+
+          return this.serviceCalls.run(state, () => {
+            let result: any;
+            try {
+              result = original.apply(service, args);
+            } catch (error) {
+              end(error);
+              throw error;
+            }
+            if (typeof result?.then !== 'function') {
+              settle(result);
+              return result;
+            }
+            return result.then(
+              (value: unknown) => {
+                settle(value);
+                return value;
+              },
+              (error: unknown) => {
+                end(error);
+                throw error;
+              }
+            );
+          });
+        }
+      );
+    }
+  }
+
+  /**
+   * Record a completed or failed API call on the metrics and the enclosing service span
+   */
+  recordCall(
+    attributes: Record<string, TelemetryAttributeValue>,
+    seconds: number,
+    response: any,
+    error?: unknown
+  ): void {
+    const usage = response?.usageMetadata;
+    const inputTokens: number | undefined = usage?.promptTokenCount;
+    const outputTokens: number | undefined = usage?.candidatesTokenCount;
+
+    const metricAttributes = { ...attributes, ...(error !== undefined && { 'error.type': errorType(error) }) };
+    this.requests?.add(1, metricAttributes);
+    this.duration?.record(seconds, metricAttributes);
+    for (const [type, count] of [['input', inputTokens], ['output', outputTokens]] as const) {
+      if (count !== undefined) {
+        this.tokens?.add(count, { ...attributes, 'gen_ai.token.type': type });
+        this.tokenUsage?.record(count, { ...attributes, 'gen_ai.token.type': type });
+      }
+    }
+
+    const state = this.serviceCalls.getStore();
+    if (state) {
+      const model = attributes['gen_ai.request.model'] as string | undefined;
+      addUsage(state, model, inputTokens ?? 0, outputTokens ?? 0, getFinishReasons(response));
+    }
+  }
+
+  /**
+   * Start a client span for one API call
+   */
+  startCall<T>(name: string, attributes: Record<string, TelemetryAttributeValue>, fn: (span?: TelemetrySpan) => T): T {
+    if (!this.tracer) {
+      return fn(undefined);
+    }
+    return this.tracer.startActiveSpan(name, { kind: SPAN_KIND_CLIENT, attributes }, fn);
+  }
+}
+
+/**
+ * Create a transport interceptor that traces and measures every API call
+ *
+ * @param telemetry - Client telemetry
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function telemetryInterceptor(telemetry: Telemetry): TransportInterceptor {
+  return (call, next) => {
+    const request = call.args[0];
+    const operationName = OPERATION_NAMES[call.operation] ?? call.operation;
+    const model: string | undefined = typeof request?.model === 'string' ? request.model : undefined;
+    const attributes: Record<string, TelemetryAttributeValue> = {
+      'gen_ai.system': GEN_AI_SYSTEM,
+      'gen_ai.operation.name': operationName,
+      'gemini.service': call.service,
+      ...(model && { 'gen_ai.request.model': model }),
+    };
+
+    const spanAttributes = { ...attributes };
+    for (const [key, attribute] of Object.entries(REQUEST_ATTRIBUTES)) {
+      const value = request?.config?.[key];
+      if (typeof value === 'number') {
+        spanAttributes[attribute] = value;
+      }
+    }
+
+    return telemetry.startCall(model ? `${operationName} ${model}` : operationName, spanAttributes, async (span) => {
+      const started = Date.now();
+      let settled = false;
+      const complete = (response: any) => {
+        settled = true;
+        telemetry.recordCall(attributes, (Date.now() - started) / 1000, response);
+        if (span) {
+          span.setAttribute('gemini.retries', Math.max(0, (call.stats?.attempts ?? 1) - 1));
+          if (response?.modelVersion) {
+            span.setAttribute('gen_ai.response.model', response.modelVersion);
+          }
+          setUsageAttributes(span, {
+            inputTokens: response?.usageMetadata?.promptTokenCount,
+            outputTokens: response?.usageMetadata?.candidatesTokenCount,
+            finishReasons: new Set(getFinishReasons(response)),
+          });
+          span.end();
+        }
+      };
+      const fail = (error: unknown) => {
+        settled = true;
+        telemetry.recordCall(attributes, (Date.now() - started) / 1000, undefined, error);
+        if (span) {
+          recordError(span, error);
+          span.end();
+        }
+      };
+
+      try {
+        const response = await next(call.args);
+        if (isResponseStream(call.operation, response)) {
+          return observeStream(response, { complete, fail });
+        }
+        complete(response);
+        return response;
+      } catch (error) {
+        if (!settled) {
+          fail(error);
+        }
+        throw error;
+      }
+    });
+  };
+}
+
+/**
+ * Add the usage of an API call or nested service method to a service method's totals
+ */
+function addUsage(
+  state: ServiceCallState,
+  model: string | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  finishReasons: Iterable<string>
+): void {
+  state.model = model ?? state.model;
+  state.inputTokens += inputTokens;
+  state.outputTokens += outputTokens;
+  for (const reason of finishReasons) {
+    state.finishReasons.add(reason);
+  }
+}
+
+/**
+ * Set the token counts and finish reasons on a span
+ */
+function setUsageAttributes(
+  span: TelemetrySpan,
+  response: { inputTokens?: number; outputTokens?: number; finishReasons: Set<string> }
+): void {
+  if (response.inputTokens) {
+    span.setAttribute('gen_ai.usage.input_tokens', response.inputTokens);
+  }
+  if (response.outputTokens) {
+    span.setAttribute('gen_ai.usage.output_tokens', response.outputTokens);
+  }
+  if (response.finishReasons.size > 0) {
+    span.setAttribute('gen_ai.response.finish_reasons', [...response.finishReasons]);
+  }
+}
+
+function recordError(span: TelemetrySpan, error: unknown): void {
+  span.recordException(error);
+  span.setAttribute('error.type', errorType(error));
+  span.setStatus({ code: SPAN_STATUS_ERROR, message: (error as any)?.message });
+}
+
+/**
+ * Value of the `error.type` attribute: the HTTP status if known, else the error class
+ */
+function errorType(error: unknown): string {
+  const status = getErrorStatus(error);
+  return status !== undefined ? String(status) : (error as any)?.name ?? 'Error';
+}
+
+function getFinishReasons(response: any): string[] {
+  return (response?.candidates ?? [])
+    .map((candidate: any) => candidate?.finishReason)
+    .filter((reason: unknown): reason is string => typeof reason === 'string');
+}
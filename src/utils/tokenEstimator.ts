@@ -0,0 +1,240 @@
+import { LOCAL_TOKEN_RATES } from './config';
+
+/**
+ * Token estimate of some content
+ */
+export interface TokenEstimate {
+  totalTokens: number;
+  /** Media parts whose size could not be read and were guessed */
+  unsizedParts: number;
+}
+
+/**
+ * Bytes per second assumed for inline audio and video whose duration cannot be read
+ * (128 kbit/s audio, 1 Mbit/s video)
+ */
+const ASSUMED_BYTE_RATES = { audio: 16000, video: 125000 };
+
+/**
+ * CJK characters, which tokenize to about one token each
+ */
+const CJK_CHARACTERS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+/**
+ * Estimate the tokens of Gemini content without calling the API
+ *
+ * Accepts what `contents` accepts: a string, a part, a `Content` turn, or a list
+ * of any of them. Text counts about 4 characters per token (one token per CJK
+ * character). Media follows the documented rates in `LOCAL_TOKEN_RATES`: images
+ * per 768x768 tile, audio and video per second, PDFs per page. Sizes are read
+ * from inline data (PNG, JPEG, GIF and WebP dimensions, WAV durations, PDF page
+ * objects) and from `videoMetadata` offsets. Uploaded file references and
+ * compressed audio or video carry no readable size: they are guessed and counted
+ * in `unsizedParts`.
+ *
+ * @param content - Content to estimate
+ * @returns Estimated token count
+ *
+ * @example
+ * ```typescript
+ * const { totalTokens } = estimateTokensLocally([
+ *   { text: 'Describe this image:' },
+ *   { inlineData: { mimeType: 'image/png', data: base64Image } }
+ * ]);
+ * ```
+ */
+export function estimateTokensLocally(content: any): TokenEstimate {
+  const estimate: TokenEstimate = { totalTokens: 0, unsizedParts: 0 };
+  addContent(content, estimate);
+  return estimate;
+}
+
+/**
+ * Estimate the prompt tokens of a generateContent request: its contents and system instruction
+ *
+ * @param request - Request passed to `models.generateContent`
+ */
+export function estimateRequestTokens(request: any): number {
+  return estimateTokensLocally([request?.contents, request?.config?.systemInstruction]).totalTokens;
+}
+
+/**
+ * Estimate the tokens of text
+ */
+export function estimateTextTokens(text: string): number {
+  const cjk = text.match(CJK_CHARACTERS)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / LOCAL_TOKEN_RATES.charactersPerToken);
+}
+
+function addContent(content: any, estimate: TokenEstimate): void {
+  if (content === undefined || content === null) {
+    return;
+  }
+  if (typeof content === 'string') {
+    estimate.totalTokens += estimateTextTokens(content);
+  } else if (Array.isArray(content)) {
+    content.forEach(item => addContent(item, estimate));
+  } else if (Array.isArray(content.parts)) {
+    addContent(content.parts, estimate);
+  } else {
+    addPart(content, estimate);
+  }
+}
+
+function addPart(part: any, estimate: TokenEstimate): void {
+  if (typeof part.text === 'string') {
+    estimate.totalTokens += estimateTextTokens(part.text);
+  } else if (part.inlineData || part.fileData) {
+    const mimeType: string = (part.inlineData ?? part.fileData).mimeType ?? '';
+    const data = part.inlineData ? toBytes(part.inlineData.data) : undefined;
+    const tokens = mediaTokens(mimeType, data, clipSeconds(part.videoMetadata));
+    if (tokens.unsized) {
+      estimate.unsizedParts++;
+    }
+    estimate.totalTokens += tokens.count;
+  } else {
+    // Function calls and responses, code and its results count as their JSON
+    estimate.totalTokens += estimateTextTokens(JSON.stringify(part));
+  }
+}
+
+function mediaTokens(
+  mimeType: string,
+  data: Buffer | undefined,
+  seconds: number | undefined
+): { count: number; unsized: boolean } {
+  const kind = mimeType.split('/')[0];
+
+  if (kind === 'image') {
+    const size = data ? readImageSize(data) : undefined;
+    return { count: size ? imageTokens(size.width, size.height) : LOCAL_TOKEN_RATES.imageTile, unsized: !size };
+  }
+
+  if (kind === 'audio' || kind === 'video') {
+    const perSecond = kind === 'audio' ? LOCAL_TOKEN_RATES.audioPerSecond : LOCAL_TOKEN_RATES.videoPerSecond;
+    const known = seconds ?? (data && mimeType.includes('wav') ? readWavSeconds(data) : undefined);
+    if (known !== undefined) {
+      return { count: Math.ceil(known * perSecond), unsized: false };
+    }
+    const guessed = data ? data.length / ASSUMED_BYTE_RATES[kind] : 0;
+    return { count: Math.ceil(guessed * perSecond), unsized: true };
+  }
+
+  if (mimeType === 'application/pdf') {
+    const pages = data ? countPdfPages(data) : 0;
+    return { count: Math.max(pages, 1) * LOCAL_TOKEN_RATES.pdfPage, unsized: pages === 0 };
+  }
+
+  if (kind === 'text' || mimeType === 'application/json') {
+    return data ? { count: estimateTextTokens(data.toString('utf8')), unsized: false } : { count: 0, unsized: true };
+  }
+
+  return { count: data ? Math.ceil(data.length / LOCAL_TOKEN_RATES.charactersPerToken) : 0, unsized: true };
+}
+
+function imageTokens(width: number, height: number): number {
+  const { imageTile, imageTileSize, smallImageSize } = LOCAL_TOKEN_RATES;
+  if (width <= smallImageSize && height <= smallImageSize) {
+    return imageTile;
+  }
+  return Math.ceil(width / imageTileSize) * Math.ceil(height / imageTileSize) * imageTile;
+}
+
+function toBytes(data: unknown): Buffer | undefined {
+  if (typeof data === 'string') {
+    return Buffer.from(data, 'base64');
+  }
+  if (data instanceof Uint8Array) {
+    return Buffer.from(data);
+  }
+  return undefined;
+}
+
+/**
+ * Length of a `videoMetadata` clip, from offsets such as '12.5s'
+ */
+function clipSeconds(videoMetadata: any): number | undefined {
+  const end = parseOffset(videoMetadata?.endOffset);
+  if (end === undefined) {
+    return undefined;
+  }
+  return Math.max(0, end - (parseOffset(videoMetadata?.startOffset) ?? 0));
+}
+
+function parseOffset(offset: unknown): number | undefined {
+  const seconds = typeof offset === 'string' ? parseFloat(offset) : typeof offset === 'number' ? offset : NaN;
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+/**
+ * Read the pixel size of a PNG, GIF, JPEG or WebP image from its header
+ */
+function readImageSize(data: Buffer): { width: number; height: number } | undefined {
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 10 && data.toString('latin1', 0, 4) === 'GIF8') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    return readJpegSize(data);
+  }
+  if (data.length >= 30 && data.toString('latin1', 0, 4) === 'RIFF' && data.toString('latin1', 8, 12) === 'WEBP') {
+    const chunk = data.toString('latin1', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+  }
+  return undefined;
+}
+
+function readJpegSize(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset + 9 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    // Start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+/**
+ * Read the duration of a WAV file from its `fmt ` and `data` chunks
+ */
+function readWavSeconds(data: Buffer): number | undefined {
+  if (data.length < 12 || data.toString('latin1', 0, 4) !== 'RIFF' || data.toString('latin1', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+  let byteRate: number | undefined;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const chunk = data.toString('latin1', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    if (chunk === 'fmt ' && offset + 16 <= data.length) {
+      byteRate = data.readUInt32LE(offset + 16);
+    } else if (chunk === 'data') {
+      // Streamed WAVs may leave the size unset; use the bytes present instead
+      const bytes = Math.min(size, data.length - offset - 8);
+      return byteRate ? bytes / byteRate : undefined;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+/**
+ * Count the page objects of a PDF (0 when they are hidden in compressed object streams)
+ */
+function countPdfPages(data: Buffer): number {
+  return data.toString('latin1').match(/\/Type\s*\/Page(?![A-Za-z])/g)?.length ?? 0;
+}
@@ -0,0 +1,170 @@
+import { GoogleGenAI } from "@google/genai";
+import { ClientOptions, GeminiTransport, ServiceName, ServiceTransport } from '../types';
+import { ChatSession } from './chatSession';
+
+/**
+ * A single call made by a service through its transport
+ */
+export interface TransportCall {
+  /** Service that issued the call */
+  service: ServiceName;
+  /** Transport operation (e.g. 'models.generateContent', 'files.upload') */
+  operation: string;
+  /** Arguments passed to the operation */
+  args: any[];
+  /** Counters shared by every interceptor of the call */
+  stats?: {
+    /** Number of times the call reached the transport (more than one after retries) */
+    attempts: number;
+    /** Prompt tokens counted for the call, shared by budgets, rate limits and retries */
+    promptTokens?: Promise<number>;
+  };
+}
+
+/**
+ * Function wrapped around every transport call; call `next` to continue the chain
+ */
+export type TransportInterceptor = (
+  call: TransportCall,
+  next: (args: any[]) => Promise<any>
+) => Promise<any>;
+
+/**
+ * Operations routed through interceptors, per transport namespace
+ */
+const INTERCEPTED_OPERATIONS: Record<keyof GeminiTransport, string[]> = {
+  models: ['generateContent', 'generateContentStream', 'countTokens', 'embedContent', 'generateImages', 'generateVideos', 'list'],
+  files: ['upload', 'get', 'list', 'delete'],
+  operations: ['getVideosOperation'],
+};
+
+/**
+ * Create the transport shared by every service of a client
+ *
+ * @param options - Client options (API key, endpoint, timeout, headers)
+ * @returns A configured `@google/genai` client, or `options.transport` when supplied
+ *
+ * @example
+ * ```typescript
+ * const transport = createTransport({
+ *   apiKey: process.env.GEMINI_API_KEY,
+ *   apiEndpoint: 'http://localhost:8080',
+ *   timeout: 30000
+ * });
+ * ```
+ */
+export function createTransport(options: ClientOptions): GeminiTransport {
+  if (options.transport) {
+    return options.transport;
+  }
+
+  const httpOptions = {
+    ...(options.apiEndpoint && { baseUrl: options.apiEndpoint }),
+    ...(options.apiVersion && { apiVersion: options.apiVersion }),
+    ...(options.timeout && { timeout: options.timeout }),
+    ...(options.headers && { headers: options.headers }),
+  };
+
+  return new GoogleGenAI({
+    apiKey: options.apiKey,
+    ...(Object.keys(httpOptions).length > 0 && { httpOptions }),
+  });
+}
+
+/**
+ * Wrap a transport so that every call made by a service runs through interceptors
+ *
+ * @param transport - Shared transport
+ * @param service - Name of the service that will use the wrapped transport
+ * @param getInterceptors - Returns the interceptors to apply, outermost first
+ * @returns Transport for the service, including a chat session factory
+ */
+export function interceptTransport(
+  transport: GeminiTransport,
+  service: ServiceName,
+  getInterceptors: () => TransportInterceptor[]
+): ServiceTransport {
+  const wrapNamespace = (namespace: keyof GeminiTransport) => {
+    const target = transport[namespace];
+    if (!target) {
+      return target;
+    }
+    return new Proxy(target, {
+      get(obj, prop, receiver) {
+        const value = Reflect.get(obj, prop, receiver);
+        if (typeof prop !== 'string' || typeof value !== 'function') {
+          return value;
+        }
+        if (!INTERCEPTED_OPERATIONS[namespace].includes(prop)) {
+          return value.bind(obj);
+        }
+        return (...args: any[]) => runInterceptors(
+          getInterceptors(),
+          { service, operation: `${namespace}.${prop}`, args },
+          (finalArgs) => value.apply(obj, finalArgs)
+        );
+      },
+    });
+  };
+
+  const models = wrapNamespace('models');
+
+  return {
+    models,
+    files: wrapNamespace('files'),
+    operations: wrapNamespace('operations'),
+    chats: {
+      create: (params) => new ChatSession(models, params),
+    },
+  };
+}
+
+/**
+ * Count the prompt tokens of a call once, however many interceptors and attempts need them
+ *
+ * @param call - Call whose prompt is counted
+ * @param estimate - Counts the prompt tokens
+ * @returns Promise with the prompt tokens
+ */
+export function estimateCallTokens(call: TransportCall, estimate: () => Promise<number>): Promise<number> {
+  if (!call.stats) {
+    return estimate();
+  }
+  call.stats.promptTokens ??= estimate();
+  return call.stats.promptTokens;
+}
+
+/**
+ * Run a call through a chain of interceptors
+ */
+function runInterceptors(
+  interceptors: TransportInterceptor[],
+  call: TransportCall,
+  invoke: (args: any[]) => any
+): Promise<any> {
+  const stats: NonNullable<TransportCall['stats']> = { attempts: 0 };
+  const dispatch = (index: number, args: any[]): Promise<any> => {
+    if (index >= interceptors.length) {
+      stats.attempts++;
+      return Promise.resolve().then(() => invoke(withoutCallOptions(args)));
+    }
+    return interceptors[index]({ ...call, args, stats }, (nextArgs) => dispatch(index + 1, nextArgs));
+  };
+  return dispatch(0, call.args);
+}
+
+/**
+ * Drop the per-call `cache` flag, which is not part of the API request
+ *
+ * The cache interceptor reads it when the client has a cache; without one it
+ * must still not reach the SDK.
+ */
+function withoutCallOptions(args: any[]): any[] {
+  const [request, ...rest] = args;
+  if (request?.config?.cache === undefined) {
+    return args;
+  }
+  const config = { ...request.config };
+  delete config.cache;
+  return [{ ...request, config }, ...rest];
+}
@@ -0,0 +1,329 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  ModelPrice,
+  ServiceName,
+  UsageEntry,
+  UsageFilter,
+  UsageOptions,
+  UsagePeriod,
+  UsageSummary,
+  UsageSummaryOptions
+} from '../types';
+import { MODEL_PRICES } from './config';
+import { TransportInterceptor } from './transport';
+import { isResponseStream, observeStream } from './stream';
+
+/**
+ * Operations whose responses carry token usage
+ */
+const METERED_OPERATIONS = ['models.generateContent', 'models.generateContentStream'];
+
+const DEFAULT_MAX_ENTRIES = 10000;
+
+const CSV_COLUMNS: Array<keyof UsageEntry> = [
+  'timestamp',
+  'service',
+  'operation',
+  'model',
+  'label',
+  'promptTokens',
+  'candidatesTokens',
+  'thinkingTokens',
+  'cachedTokens',
+  'totalTokens',
+  'cost',
+];
+
+/**
+ * Length of the ISO timestamp prefix identifying each period
+ */
+const PERIOD_LENGTHS = { hour: 13, day: 10, month: 7 };
+
+/**
+ * Token usage and cost of every API call made by a client
+ *
+ * Each `generateContent` call and stream that reaches the API adds an entry with
+ * its prompt, candidate, thinking and cached token counts, tagged with the
+ * service, the model and the label of the enclosing `withLabel` scope. Costs come
+ * from `MODEL_PRICES`, overridable per client. Only the most recent `maxEntries`
+ * entries are kept; use `onEntry` to persist all of them.
+ *
+ * @example
+ * ```typescript
+ * await gemini.usage.withLabel('tenant-42', () => gemini.textGeneration.generate('Hello'));
+ *
+ * const daily = gemini.usage.summarize({ period: 'day', groupBy: ['label'] });
+ * console.log(daily.map(row => `${row.period} ${row.label}: $${row.cost.toFixed(4)}`));
+ * fs.writeFileSync('usage.csv', gemini.usage.toCSV());
+ * ```
+ */
+export class UsageLedger {
+  private records: UsageEntry[] = [];
+  private prices: Record<string, ModelPrice>;
+  private maxEntries: number;
+  private onEntry?: (entry: UsageEntry) => void;
+  private labels = new AsyncLocalStorage<string>();
+
+  constructor(options: UsageOptions = {}) {
+    this.prices = { ...MODEL_PRICES, ...options.prices };
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.onEntry = options.onEntry;
+  }
+
+  /**
+   * Label of the enclosing `withLabel` scope
+   */
+  get label(): string | undefined {
+    return this.labels.getStore();
+  }
+
+  /**
+   * Tag every call made while `fn` runs (streams included) with a label
+   *
+   * @param label - Label such as a tenant or feature name
+   * @param fn - Function making the calls
+   * @returns Result of `fn`
+   */
+  withLabel<T>(label: string, fn: () => T): T {
+    return this.labels.run(label, fn);
+  }
+
+  /**
+   * Record the usage of one API call
+   *
+   * Called for every metered call of the client; call it directly to add usage
+   * of calls made outside the client.
+   *
+   * @param call - Service, operation, model and label of the call
+   * @param usageMetadata - Usage metadata of the response
+   * @returns The recorded entry
+   */
+  record(
+    call: { service: ServiceName; operation: string; model: string; label?: string },
+    usageMetadata: any
+  ): UsageEntry {
+    const promptTokens = usageMetadata?.promptTokenCount ?? 0;
+    const candidatesTokens = usageMetadata?.candidatesTokenCount ?? 0;
+    const thinkingTokens = usageMetadata?.thoughtsTokenCount ?? 0;
+    const cachedTokens = usageMetadata?.cachedContentTokenCount ?? 0;
+    const model = call.model.replace(/^models\//, '');
+    const entry: UsageEntry = {
+      timestamp: new Date().toISOString(),
+      service: call.service,
+      operation: call.operation,
+      model,
+      ...(call.label !== undefined && { label: call.label }),
+      promptTokens,
+      candidatesTokens,
+      thinkingTokens,
+      cachedTokens,
+      totalTokens: usageMetadata?.totalTokenCount ?? promptTokens + candidatesTokens + thinkingTokens,
+    };
+    const price = this.priceOf(model);
+    if (price) {
+      entry.cost = (
+        (promptTokens - cachedTokens) * price.input
+        + cachedTokens * (price.cachedInput ?? price.input)
+        + candidatesTokens * price.output
+        + thinkingTokens * (price.thinking ?? price.output)
+      ) / 1e6;
+    }
+
+    this.records.push(entry);
+    if (this.records.length > this.maxEntries) {
+      this.records.splice(0, this.records.length - this.maxEntries);
+    }
+    this.onEntry?.(entry);
+    return entry;
+  }
+
+  /**
+   * Get the price of a model: its own entry, else the longest matching name prefix
+   *
+   * @param model - Model name
+   * @returns Price per million tokens, or undefined if the model has none
+   */
+  priceOf(model: string): ModelPrice | undefined {
+    const name = model.replace(/^models\//, '');
+    const prefix = Object.keys(this.prices)
+      .filter(candidate => name.startsWith(candidate))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix === undefined ? undefined : this.prices[prefix];
+  }
+
+  /**
+   * Get the recorded entries, oldest first
+   *
+   * @param filter - Time range, service, model or label to keep
+   */
+  entries(filter: UsageFilter = {}): UsageEntry[] {
+    const since = filter.since !== undefined ? new Date(filter.since).toISOString() : undefined;
+    const until = filter.until !== undefined ? new Date(filter.until).toISOString() : undefined;
+    return this.records.filter(entry =>
+      (since === undefined || entry.timestamp >= since)
+      && (until === undefined || entry.timestamp < until)
+      && (filter.service === undefined || entry.service === filter.service)
+      && (filter.model === undefined || entry.model === filter.model)
+      && (filter.label === undefined || entry.label === filter.label));
+  }
+
+  /**
+   * Total the recorded entries per period and group
+   *
+   * @param options - Filter, fields and period to group by
+   * @returns One row per group, in order of first appearance
+   *
+   * @example
+   * ```typescript
+   * // Cost per model and month
+   * gemini.usage.summarize({ period: 'month', groupBy: ['model'] });
+   * ```
+   */
+  summarize(options: UsageSummaryOptions = {}): UsageSummary[] {
+    const groupBy = options.groupBy ?? [];
+    const rows = new Map<string, UsageSummary>();
+    for (const entry of this.entries(options)) {
+      const group: Partial<UsageSummary> = {
+        ...(options.period && { period: getUsagePeriod(entry.timestamp, options.period) }),
+        ...(groupBy.includes('service') && { service: entry.service }),
+        ...(groupBy.includes('model') && { model: entry.model }),
+        ...(groupBy.includes('label') && { label: entry.label }),
+      };
+      const key = JSON.stringify([group.period, group.service, group.model, group.label]);
+      let row = rows.get(key);
+      if (!row) {
+        row = { ...group, ...emptyTotals() };
+        rows.set(key, row);
+      }
+      addEntry(row, entry);
+    }
+    return [...rows.values()];
+  }
+
+  /**
+   * Total the recorded entries
+   *
+   * @param filter - Time range, service, model or label to keep
+   */
+  total(filter: UsageFilter = {}): UsageSummary {
+    const row = emptyTotals();
+    for (const entry of this.entries(filter)) {
+      addEntry(row, entry);
+    }
+    return row;
+  }
+
+  /**
+   * Recorded entries, for `JSON.stringify(gemini.usage)`
+   */
+  toJSON(): UsageEntry[] {
+    return this.entries();
+  }
+
+  /**
+   * Export the recorded entries as CSV, with a header row
+   *
+   * @param filter - Time range, service, model or label to keep
+   */
+  toCSV(filter: UsageFilter = {}): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const entry of this.entries(filter)) {
+      lines.push(CSV_COLUMNS.map(column => toCsvField(entry[column])).join(','));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.records = [];
+  }
+}
+
+/**
+ * Create a transport interceptor that records the usage of every metered call
+ *
+ * Placed after the cache, so responses served from it are not counted. The label
+ * is read when the call starts, so streams consumed later keep it.
+ *
+ * @param ledger - Client usage ledger
+ * @returns Interceptor for use with `interceptTransport`
+ */
+export function usageInterceptor(ledger: UsageLedger): TransportInterceptor {
+  return async (call, next) => {
+    if (!isMeteredOperation(call.operation)) {
+      return next(call.args);
+    }
+    const details = {
+      service: call.service,
+      operation: call.operation,
+      model: String(call.args[0]?.model ?? ''),
+      label: ledger.label,
+    };
+
+    const response = await next(call.args);
+    if (isResponseStream(call.operation, response)) {
+      return observeStream(response, {
+        complete: chunk => {
+          ledger.record(details, chunk?.usageMetadata);
+        },
+        fail: () => undefined,
+      });
+    }
+    ledger.record(details, response?.usageMetadata);
+    return response;
+  };
+}
+
+/**
+ * Whether the responses of an operation carry token usage recorded by the ledger
+ */
+export function isMeteredOperation(operation: string): boolean {
+  return METERED_OPERATIONS.includes(operation);
+}
+
+/**
+ * Period a timestamp falls in, as used by summaries (e.g. '2025-06-01' for a day)
+ *
+ * @param timestamp - ISO 8601 timestamp (UTC)
+ * @param period - Hour, day or month
+ */
+export function getUsagePeriod(timestamp: string, period: UsagePeriod): string {
+  return timestamp.slice(0, PERIOD_LENGTHS[period]);
+}
+
+function emptyTotals(): UsageSummary {
+  return {
+    calls: 0,
+    promptTokens: 0,
+    candidatesTokens: 0,
+    thinkingTokens: 0,
+    cachedTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addEntry(row: UsageSummary, entry: UsageEntry): void {
+  row.calls++;
+  row.promptTokens += entry.promptTokens;
+  row.candidatesTokens += entry.candidatesTokens;
+  row.thinkingTokens += entry.thinkingTokens;
+  row.cachedTokens += entry.cachedTokens;
+  row.totalTokens += entry.totalTokens;
+  if (entry.cost === undefined) {
+    row.unpricedCalls++;
+  } else {
+    row.cost += entry.cost;
+  }
+}
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}